@@ -0,0 +1,65 @@
+// Bundles the listing-scorer browser extension into dist, ready to load
+// unpacked. The popup scores against the latest quarter the map ships with,
+// corrected by the same suburb-overrides.json.
+//
+// Builds from this package's own dependencies (npm install here first); the
+// source it bundles lives with the app's in src/extension and src/utils.
+const fs = require('fs');
+const path = require('path');
+const esbuild = require('esbuild');
+
+const root = path.resolve(__dirname, '..');
+const publicDir = path.join(root, 'public');
+const outdir = path.join(__dirname, 'dist');
+
+const readJson = file => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+// The map opens on the last quarter in the manifest, or the bundled CSV
+// without one
+const latestSnapshot = () => {
+  const file = path.join(publicDir, 'snapshots.json');
+  const snapshots = fs.existsSync(file) ? readJson(file) : [];
+  const latest = snapshots[snapshots.length - 1];
+  return latest || { id: 'latest', file: '/V1_Greater_Melbourne_LGAs_with_Corrected_Prices.csv' };
+};
+
+const build = async () => {
+  fs.rmSync(outdir, { recursive: true, force: true });
+  fs.mkdirSync(outdir, { recursive: true });
+
+  await esbuild.build({
+    entryPoints: {
+      contentScript: path.join(root, 'src/extension/contentScript.ts'),
+      popup: path.join(root, 'src/extension/popup.ts')
+    },
+    outdir,
+    bundle: true,
+    format: 'iife',
+    target: 'chrome110',
+    minify: true,
+    // The shared utils import packages from the app's node_modules when it
+    // is installed, and from this package's own when it isn't
+    nodePaths: [path.join(__dirname, 'node_modules')],
+    logLevel: 'info'
+  });
+
+  const snapshot = latestSnapshot();
+  const overridesFile = path.join(publicDir, 'suburb-overrides.json');
+  const copies = [
+    [path.join(__dirname, 'manifest.json'), 'manifest.json'],
+    [path.join(__dirname, 'popup.html'), 'popup.html'],
+    [path.join(publicDir, 'icon16.png'), 'icon16.png'],
+    [path.join(publicDir, snapshot.file.replace(/^\//, '')), 'prices.csv']
+  ];
+  copies.forEach(([from, to]) => fs.copyFileSync(from, path.join(outdir, to)));
+  fs.writeFileSync(path.join(outdir, 'snapshot.json'), JSON.stringify({ id: snapshot.id }));
+  fs.writeFileSync(
+    path.join(outdir, 'overrides.json'),
+    fs.existsSync(overridesFile) ? fs.readFileSync(overridesFile, 'utf8') : '[]'
+  );
+  console.log(`Extension written to ${path.relative(root, outdir)}, scoring against ${snapshot.id}`);
+};
+
+build().catch(() => {
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+// Helpers shared by the data scripts: the app's own TypeScript, bundled for
+// Node so the scripts read and match data exactly as the map does, and the
+// file reading around it.
+const fs = require('fs');
+const path = require('path');
+const esbuild = require('esbuild');
+
+const root = path.resolve(__dirname, '..');
+const publicDir = path.join(root, 'public');
+
+// contents re-exports what the script needs from src/; name keeps each
+// script's bundle apart in the cache
+const loadPipeline = (name, contents) => {
+  const outfile = path.join(root, 'node_modules', '.cache', name, 'pipeline.js');
+  esbuild.buildSync({
+    stdin: { contents, resolveDir: root, loader: 'ts' },
+    outfile,
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    logLevel: 'error'
+  });
+  return require(outfile);
+};
+
+const readJson = file => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+const publicFile = url => path.join(publicDir, decodeURIComponent(url.replace(/^\//, '')));
+
+// A CSV, or a workbook's sheet (the first unless named) with its columns
+// guessed from the headers unless mapped. The pipeline must export the
+// loader and workbook functions used here.
+const loadDataset = (pipeline, file, { sheet, columns } = {}) => {
+  if (!pipeline.isWorkbookFile(file)) return pipeline.parseSuburbCsv(fs.readFileSync(file, 'utf8'));
+
+  const workbook = pipeline.readWorkbook(new Uint8Array(fs.readFileSync(file)));
+  const sheetName = sheet || workbook.SheetNames[0];
+  const mapping = { ...pipeline.guessColumnMapping(pipeline.getSheetHeaders(workbook, sheetName)), ...columns };
+  return pipeline.parseWorkbookSheet(workbook, sheetName, mapping);
+};
+
+// Snapshots from public/snapshots.json, or the bundled CSV without one
+const loadSnapshots = pipeline => {
+  const manifestFile = path.join(publicDir, 'snapshots.json');
+  const manifest = fs.existsSync(manifestFile) ? pipeline.parseSnapshotManifest(readJson(manifestFile)).snapshots : [];
+  return manifest.length > 0 ? manifest : pipeline.DEFAULT_SNAPSHOTS;
+};
+
+module.exports = { root, publicDir, loadPipeline, readJson, publicFile, loadDataset, loadSnapshots };
@@ -0,0 +1,96 @@
+// Joins the latest price data to the suburb boundaries and writes the
+// simplified layers the map loads to public/data, one GeoJSON and one
+// TopoJSON file per detail level, and a manifest of what they were joined
+// from. Runs before every production build and fails it when the boundaries
+// are missing or a row is invalid or matches no boundary.
+//
+//   BOUNDARIES_FILE            boundaries to read (default public/vic_suburbs.json)
+//   ALLOW_MISSING_BOUNDARIES   set to build without the default file: nothing is
+//                              written and the app joins the full file itself
+const fs = require('fs');
+const path = require('path');
+const { root, publicDir, loadPipeline, readJson, publicFile, loadDataset, loadSnapshots } = require('./pipeline');
+
+const outdir = path.join(publicDir, 'data');
+
+// The app's own code, bundled for Node
+const PIPELINE = `
+  export * from './src/utils/precompute';
+  export { getPrecomputedPath, PRECOMPUTED_MANIFEST } from './src/utils/detailLevels';
+  export { joinSuburbData } from './src/utils/suburbJoin';
+  export { parseSuburbCsv } from './src/utils/suburbDataLoader';
+  export { isSuburbOverride } from './src/utils/suburbOverrides';
+  export { parseLotSizeCsv } from './src/utils/lotSizes';
+  export { parseSnapshotManifest, DEFAULT_SNAPSHOTS } from './src/utils/snapshots';
+  export { getSheetHeaders, guessColumnMapping, isWorkbookFile, parseWorkbookSheet, readWorkbook } from './src/utils/workbookLoader';
+`;
+
+// Five decimal places is about a metre, well under what a tile can show.
+// TopoJSON is already quantised, and its transform needs every digit.
+const roundNumbers = (key, value) => (typeof value === 'number' ? Math.round(value * 1e5) / 1e5 : value);
+
+const writeJson = (file, data, replacer) => {
+  const text = JSON.stringify(data, replacer);
+  fs.writeFileSync(file, text);
+  return `${path.relative(root, file)} (${Math.round(text.length / 1024)} KB)`;
+};
+
+const fail = message => {
+  console.error(`precompute-data: ${message}`);
+  process.exit(1);
+};
+
+const main = () => {
+  const boundariesFile = path.resolve(root, process.env.BOUNDARIES_FILE || 'public/vic_suburbs.json');
+  if (!fs.existsSync(boundariesFile)) {
+    const name = path.relative(root, boundariesFile);
+    // Only a build that says so goes without the layers; the map then fetches
+    // and joins the full boundaries in every visitor's browser
+    if (process.env.BOUNDARIES_FILE || !process.env.ALLOW_MISSING_BOUNDARIES) {
+      fail(`${name} not found; set BOUNDARIES_FILE to the suburb boundaries GeoJSON, or ALLOW_MISSING_BOUNDARIES=1 to build without precomputed layers`);
+    }
+    console.warn(`precompute-data: ${name} not found, skipping as ALLOW_MISSING_BOUNDARIES is set`);
+    return;
+  }
+
+  const pipeline = loadPipeline('precompute-data', PIPELINE);
+  // The map opens on the latest quarter
+  const snapshots = loadSnapshots(pipeline);
+  const snapshot = snapshots[snapshots.length - 1];
+
+  const overridesFile = path.join(publicDir, 'suburb-overrides.json');
+  const overrides = fs.existsSync(overridesFile) ? readJson(overridesFile).filter(pipeline.isSuburbOverride) : [];
+
+  // Suburb lot sizes are optional; without them every suburb uses its LGA's
+  // block size
+  const lotSizesFile = path.join(publicDir, 'suburb-lot-sizes.csv');
+  const lotSizes = fs.existsSync(lotSizesFile)
+    ? pipeline.parseLotSizeCsv(fs.readFileSync(lotSizesFile, 'utf8'))
+    : { rows: [], issues: [] };
+
+  const dataset = loadDataset(pipeline, publicFile(snapshot.file), snapshot);
+  const boundaries = pipeline.cropToRegion(readJson(boundariesFile));
+  const join = pipeline.joinSuburbData(boundaries, dataset, overrides, snapshot.id, { lotSizes: lotSizes.rows });
+
+  join.unusedLotSizes.forEach(lotSize => {
+    console.warn(`  Lot size for ${lotSize.suburb} (line ${lotSize.rowNumber}) matches no row`);
+  });
+  const problems = [
+    ...lotSizes.issues.map(issue => `${issue.message}${issue.rowNumber !== null ? ` (suburb-lot-sizes.csv line ${issue.rowNumber})` : ''}`),
+    ...pipeline.getBuildProblems(join)
+  ];
+  if (problems.length > 0) {
+    problems.forEach(problem => console.error(`  ${problem}`));
+    fail(`${problems.length} problem${problems.length === 1 ? '' : 's'} in ${snapshot.file}`);
+  }
+
+  fs.mkdirSync(outdir, { recursive: true });
+  console.log(`Joined ${join.report.matchedRowCount} suburbs from ${snapshot.file} to ${boundaries.features.length} boundaries`);
+  pipeline.simplifyLevels(join.collection).forEach(({ level, topology, collection }) => {
+    console.log(`  ${writeJson(publicFile(pipeline.getPrecomputedPath(level.id, 'geojson')), collection, roundNumbers)}`);
+    console.log(`  ${writeJson(publicFile(pipeline.getPrecomputedPath(level.id, 'topojson')), topology)}`);
+  });
+  console.log(`  ${writeJson(publicFile(pipeline.PRECOMPUTED_MANIFEST), pipeline.createManifest(join, dataset, snapshot.id))}`);
+};
+
+main();
@@ -0,0 +1,89 @@
+// Checks the price data and suburb boundaries without opening a browser:
+// rows the loader rejects, suburbs no boundary matches, duplicate suburbs,
+// zero or blank prices, $/sqm that isn't price ÷ block size and outliers.
+// Prints what it found and a summary, and exits non-zero on any error so a
+// bad file stops the build.
+//
+//   npm run validate-data                  every quarter in public/snapshots.json
+//   npm run validate-data -- prices.csv    the files named instead
+//
+//   BOUNDARIES_FILE  boundaries to match against (default public/vic_suburbs.json;
+//                    without it the boundary checks are skipped with a warning)
+const fs = require('fs');
+const path = require('path');
+const { root, loadPipeline, publicFile, loadDataset, loadSnapshots } = require('./pipeline');
+
+// The app's own code, bundled for Node
+const PIPELINE = `
+  export * from './src/utils/dataValidation';
+  export { parseBoundaries } from './src/utils/boundaryFormat';
+  export { parseSuburbCsv } from './src/utils/suburbDataLoader';
+  export { parseSnapshotManifest, DEFAULT_SNAPSHOTS } from './src/utils/snapshots';
+  export { getSheetHeaders, guessColumnMapping, isWorkbookFile, parseWorkbookSheet, readWorkbook } from './src/utils/workbookLoader';
+`;
+
+const plural = (count, noun) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// GeoJSON or TopoJSON. Either way the match checks are skipped without one.
+// The repo doesn't ship the full boundaries, so the default file being absent
+// is only a warning; one named by BOUNDARIES_FILE that is missing or won't
+// parse is an error.
+const loadBoundaries = (pipeline, file, named) => {
+  const name = path.relative(root, file);
+  if (!fs.existsSync(file)) {
+    return {
+      boundaries: null,
+      problem: named
+        ? { severity: 'error', message: `${name} not found` }
+        : { severity: 'warning', message: `${name} not found, so suburbs were not matched to boundaries; set BOUNDARIES_FILE to check them` }
+    };
+  }
+  try {
+    return { boundaries: pipeline.parseBoundaries(fs.readFileSync(file, 'utf8')).collection, problem: null };
+  } catch (err) {
+    return { boundaries: null, problem: { severity: 'error', message: `${name}: ${err.message}` } };
+  }
+};
+
+const validateFile = (pipeline, { label, file, options }, boundaries, boundaryProblem) => {
+  console.log(`\n${label} (${path.relative(root, file)})`);
+  let findings;
+  try {
+    findings = pipeline.validateDataset(loadDataset(pipeline, file, options), boundaries);
+  } catch (err) {
+    findings = [{ check: 'rows', severity: 'error', rowNumber: null, message: err.message }];
+  }
+  if (boundaryProblem) findings.push({ check: 'boundaries', rowNumber: null, ...boundaryProblem });
+
+  pipeline.VALIDATION_CHECKS.forEach(({ key, label: checkLabel }) => {
+    const own = findings.filter(finding => finding.check === key);
+    if (own.length === 0) return;
+    console.log(`  ${checkLabel}`);
+    own.forEach(finding => console.log(`    ${finding.severity === 'error' ? 'error  ' : 'warning'}  ${pipeline.describeFinding(finding)}`));
+  });
+  return findings;
+};
+
+const main = () => {
+  const pipeline = loadPipeline('validate-data', PIPELINE);
+  const args = process.argv.slice(2);
+  const files = args.length > 0
+    ? args.map(arg => ({ label: path.basename(arg), file: path.resolve(arg), options: {} }))
+    : loadSnapshots(pipeline).map(snapshot => ({ label: snapshot.label, file: publicFile(snapshot.file), options: snapshot }));
+
+  const boundariesFile = path.resolve(root, process.env.BOUNDARIES_FILE || 'public/vic_suburbs.json');
+  const { boundaries, problem: boundaryProblem } = loadBoundaries(pipeline, boundariesFile, Boolean(process.env.BOUNDARIES_FILE));
+
+  const findings = [];
+  files.forEach(entry => findings.push(...validateFile(pipeline, entry, boundaries, boundaryProblem)));
+
+  const summary = pipeline.summariseFindings(findings);
+  const errors = summary.reduce((sum, row) => sum + row[1], 0);
+  const warnings = summary.reduce((sum, row) => sum + row[2], 0);
+  console.log(`\n${pipeline.formatTable(['Check', 'Errors', 'Warnings'], summary)}\n`);
+  const against = boundaries ? ` against ${path.relative(root, boundariesFile)}` : '';
+  console.log(`${plural(files.length, 'file')} checked${against}: ${plural(errors, 'error')}, ${plural(warnings, 'warning')}`);
+  if (errors > 0) process.exit(1);
+};
+
+main();
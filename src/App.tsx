@@ -1,11 +1,39 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import './App.css';
 import RealDataMap from './RealDataMap';
+import { findRoute, MapRoute } from './utils/mapRoutes';
+import { MapUrlState, parseUrlState } from './utils/urlState';
 
+// Client-side routes: every path renders the same map with its own config.
+// The map reads the query string when it mounts and keeps it updated from
+// then on; moving between real and demo data remounts it, so it's read again
+// to carry the view across.
 function App() {
+  const [initialState, setInitialState] = useState<MapUrlState>(() => parseUrlState(window.location.search));
+  const [route, setRoute] = useState<MapRoute>(() => findRoute(window.location.pathname, initialState.view));
+
+  const showRoute = (next: MapRoute) => {
+    if (next.config.prices !== route.config.prices) setInitialState(parseUrlState(window.location.search));
+    setRoute(next);
+  };
+  const showRouteRef = useRef(showRoute);
+  showRouteRef.current = showRoute;
+
+  useEffect(() => {
+    const onPopState = () => showRouteRef.current(findRoute(window.location.pathname));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const navigate = (path: string) => {
+    if (path === route.path) return;
+    window.history.pushState(null, '', `${path}${window.location.search}`);
+    showRoute(findRoute(path));
+  };
+
   return (
     <div className="App">
-      <RealDataMap />
+      <RealDataMap key={route.config.prices} route={route} initialState={initialState} onNavigate={navigate} />
     </div>
   );
 }
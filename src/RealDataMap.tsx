@@ -1,8 +1,112 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { MapContainer, TileLayer, GeoJSON, Popup } from 'react-leaflet';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { MapContainer, TileLayer, GeoJSON, Marker, Popup } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
-import Papa from 'papaparse';
+import { WorkBook } from 'xlsx';
+import ChangeControls, { FILE_BASELINE } from './components/ChangeControls';
+import ClassificationControls from './components/ClassificationControls';
+import ComparisonTray, { MAX_COMPARED_SUBURBS } from './components/ComparisonTray';
+import DataIssuesPanel from './components/DataIssuesPanel';
+import FilterPanel from './components/FilterPanel';
+import HatchPatterns from './components/HatchPatterns';
+import Legend from './components/Legend';
+import LoadErrorBanner from './components/LoadErrorBanner';
+import ListingEvaluator from './components/ListingEvaluator';
+import MapViewTracker from './components/MapViewTracker';
+import MetricSelector from './components/MetricSelector';
+import PriceSourceSelector from './components/PriceSourceSelector';
+import PropertyTypeSelector from './components/PropertyTypeSelector';
+import QualityLegend from './components/QualityLegend';
+import RankingTable from './components/RankingTable';
+import SuburbSearch from './components/SuburbSearch';
+import TimeSlider from './components/TimeSlider';
+import ValuationModelControls from './components/ValuationModelControls';
+import ViewSelector, { MapView } from './components/ViewSelector';
+import UnmatchedReport from './components/UnmatchedReport';
+import WorkbookImport from './components/WorkbookImport';
+import { Classification, ClassificationOptions, getClassColor, isDataValue, NO_DATA_COLOR } from './utils/classification';
+import {
+  explainMissingValue,
+  getQualityStatus,
+  getQualityStyle,
+  QUALITY_STATUS_KEYS,
+  QUALITY_STATUSES,
+  QualityStatus
+} from './utils/dataQuality';
+import { FilterMode, FilterRanges, getMetricBounds, isFilterActive, isInRange, updateFilterRange } from './utils/filters';
+import { addLgaMembers, buildLgaCollection, DissolvedLga, getLgaAverages, LgaStatistic } from './utils/lgaAggregation';
+import { escapeHtml } from './utils/html';
+import { describeDifference, evaluateListing, ListingInput } from './utils/listingEvaluator';
+import { METRIC_KEYS, METRICS, MetricKey } from './utils/metrics';
+import { DatasetIssue, parseSuburbCsv, PropertyType, SuburbDataset } from './utils/suburbDataLoader';
+import { getFeatureSuburbName, matchSuburbs, normaliseSuburbName } from './utils/suburbMatcher';
+import {
+  CHANGE_METRICS,
+  CHANGE_STATUS_LABELS,
+  ChangeMetricKey,
+  ChangeUnit,
+  classifyChange,
+  comparePeriods,
+  formatChange,
+  getChangeColor,
+  getChangeValue,
+  isMissingPeriod,
+  MISSING_PERIOD_COLOR,
+  NO_CHANGE_COLOR,
+  PriceChange
+} from './utils/priceChange';
+import { DEFAULT_SNAPSHOTS, parseSnapshotManifest, Snapshot } from './utils/snapshots';
+import { buildSearchIndex, SearchResult } from './utils/suburbSearch';
+import { isSuburbOverride, SuburbOverride } from './utils/suburbOverrides';
+import { JoinSummary, prepareRows, summariseJoin } from './utils/suburbJoin';
+import {
+  getLevelForZoom,
+  getPrecomputedPath,
+  isPrecomputedManifest,
+  matchesPrecomputed,
+  PRECOMPUTED_MANIFEST,
+  PrecomputedManifest
+} from './utils/detailLevels';
+import { randomiseDataset } from './utils/demoData';
+import { DEFAULT_BUILDING_VALUE, describeModel, GROSS_MODEL, ValuationModel } from './utils/landValue';
+import {
+  createLoads,
+  failLoad,
+  finishLoad,
+  hasLoadError,
+  LOAD_RESOURCE_KEYS,
+  LoadResource,
+  ResourceLoad,
+  retryLoad,
+  startLoad
+} from './utils/loadState';
+import { LOT_SIZE_SOURCE_LABELS, parseLotSizeCsv, SuburbLotSize, summariseLotSizeSources } from './utils/lotSizes';
+import { describePriceBasis, PROPERTY_TYPES } from './utils/propertyTypes';
+import { getRoute, MapRoute, PriceSource } from './utils/mapRoutes';
+import { MapDataProgress } from './utils/mapDataTasks';
+import { createMapDataClient } from './workers/mapDataClient';
+import { DEFAULT_CENTER, DEFAULT_ZOOM, MapUrlState, serialiseUrlState } from './utils/urlState';
+import {
+  BUNDLED_BOUNDARIES,
+  createStorageCache,
+  DATA_ORIGIN_LABELS,
+  DataSourceConfig,
+  DataSourceKey,
+  DEFAULT_DATA_SOURCES,
+  FetchText,
+  LoadedData,
+  loadWithFallback,
+  parseDataSourceConfig,
+  resolveDataSources
+} from './utils/dataSource';
+import {
+  ColumnMapping,
+  getSheetHeaders,
+  guessColumnMapping,
+  isWorkbookFile,
+  parseWorkbookSheet,
+  readWorkbook
+} from './utils/workbookLoader';
 
 // Fix Leaflet icon issue
 const DefaultIcon = L.icon({
@@ -17,22 +121,27 @@ const DefaultIcon = L.icon({
 
 L.Marker.prototype.options.icon = DefaultIcon;
 
-interface SuburbData {
-  LGA: string;
-  Suburb: string;
-  'Estimated Block Size (sqm)': string;
-  'Median Price': string;
-  '$/sqm': string;
-}
+// How long each quarter stays on screen while the time slider plays
+const PLAY_INTERVAL_MS = 1500;
+
+const linkButtonStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  color: '#0078a8',
+  textDecoration: 'underline',
+  cursor: 'pointer',
+  font: 'inherit'
+};
 
 interface GeoJSONFeature {
   type: string;
   id?: string;
   properties: {
     [key: string]: any;
-    price_sqm?: number;
-    median_price?: string;
-    block_size?: string;
+    price_sqm?: number | null;
+    median_price?: number | null;
+    block_size?: number | null;
     lga?: string;
   };
   geometry: any;
@@ -43,225 +152,1124 @@ interface GeoJSONData {
   features: GeoJSONFeature[];
 }
 
-const RealDataMap: React.FC = () => {
-  const [suburbData, setSuburbData] = useState<SuburbData[]>([]);
+// Reject a dataset with no usable rows
+const requireRows = (dataset: SuburbDataset): SuburbDataset => {
+  if (dataset.rows.length === 0) {
+    const fileError = dataset.issues.find(issue => issue.severity === 'error');
+    throw new Error(fileError ? fileError.message : 'Price data contains no rows');
+  }
+  return dataset;
+};
+
+const parseDatasetText = (csvText: string): SuburbDataset => requireRows(parseSuburbCsv(csvText));
+
+// The first sheet, with columns named like the CSV's, unless told otherwise
+const parseWorkbookData = (data: ArrayBuffer, sheet?: string, columns?: ColumnMapping): SuburbDataset => {
+  const workbook = readWorkbook(data);
+  const sheetName = sheet || workbook.SheetNames[0];
+  const mapping = { ...guessColumnMapping(getSheetHeaders(workbook, sheetName)), ...columns };
+  return requireRows(parseWorkbookSheet(workbook, sheetName, mapping));
+};
+
+const fetchSnapshotDataset = (snapshot: Snapshot): Promise<SuburbDataset> =>
+  fetch(snapshot.file)
+    .then(response => {
+      if (!response.ok) {
+        throw new Error(`Failed to load price data for ${snapshot.label}`);
+      }
+      return isWorkbookFile(snapshot.file)
+        ? response.arrayBuffer().then(data => parseWorkbookData(data, snapshot.sheet, snapshot.columns))
+        : response.text().then(parseDatasetText);
+    });
+
+const dataSourceCache = createStorageCache(typeof window !== 'undefined' ? window.localStorage : undefined);
+
+const fetchText: FetchText = url => fetch(url);
+
+// A configured remote price source replaces the latest quarter's file. Demo
+// prices are always drawn over the bundled file.
+const getRemotePricesUrl = (
+  snapshot: Snapshot,
+  snapshots: Snapshot[],
+  dataSources: DataSourceConfig,
+  prices: PriceSource
+): string | null =>
+  prices === 'snapshots' && snapshot === snapshots[snapshots.length - 1] ? dataSources.prices : null;
+
+const loadSnapshotDataset = (
+  snapshot: Snapshot,
+  remoteUrl: string | null,
+  prices: PriceSource
+): Promise<LoadedData<SuburbDataset>> =>
+  loadWithFallback({
+    url: remoteUrl,
+    cacheKey: `prices:${remoteUrl}`,
+    cache: dataSourceCache,
+    fetchText,
+    parse: parseDatasetText,
+    fallback: () => fetchSnapshotDataset(snapshot)
+  }).then(result => (prices === 'random' ? { ...result, data: randomiseDataset(result.data) } : result));
+
+// Parses, joins and classifies in a worker so the map stays usable meanwhile
+const mapData = createMapDataClient();
+
+const describeProgress = (progress: MapDataProgress): string =>
+  progress.total > 1
+    ? `${progress.message}... ${Math.round((progress.completed / progress.total) * 100)}%`
+    : `${progress.message}...`;
+
+const withLoad = (
+  loads: Record<LoadResource, ResourceLoad>,
+  resource: LoadResource,
+  update: (load: ResourceLoad) => ResourceLoad
+): Record<LoadResource, ResourceLoad> => ({ ...loads, [resource]: update(loads[resource]) });
+
+// Boundaries drawn while no prices have been joined to them
+const OUTLINE_STYLE: L.PathOptions = { color: '#666', weight: 1, fillColor: NO_DATA_COLOR, fillOpacity: 0.2 };
+
+// The median price's label for the property type on the map
+const medianPriceLabel = (propertyType: PropertyType): string => `Median ${PROPERTY_TYPES[propertyType].noun} price`;
+
+interface RealDataMapProps {
+  // Page being shown: where its data comes from and which layer is on
+  route: MapRoute;
+  // View restored from a shared link
+  initialState?: MapUrlState;
+  onNavigate: (path: string) => void;
+}
+
+// The one map behind every route. Real and demo data differ only in where
+// prices and boundaries come from; the council view is the same map with
+// its other layer showing.
+const RealDataMap: React.FC<RealDataMapProps> = ({ route, initialState = {}, onNavigate }) => {
+  const { config } = route;
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+  const [snapshotIndex, setSnapshotIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  // Parsed CSVs by snapshot id, so stepping back through quarters doesn't refetch
+  const datasetCacheRef = useRef(new Map<string, SuburbDataset>());
+  const [csvDataset, setCsvDataset] = useState<SuburbDataset | null>(null);
+  // Snapshot csvDataset was loaded from, and the one the map currently shows
+  const [loadedSnapshot, setLoadedSnapshot] = useState<Snapshot | null>(null);
+  const [mergedSnapshot, setMergedSnapshot] = useState<Snapshot | null>(null);
+  const [failedSnapshot, setFailedSnapshot] = useState<Snapshot | null>(null);
+  // Boundaries as parsed by the worker, which keeps them under this key;
+  // geoJSONData is these with the active snapshot's prices merged in
+  const [boundariesKey, setBoundariesKey] = useState<string | null>(null);
   const [geoJSONData, setGeoJSONData] = useState<GeoJSONData | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+  const mergedFeaturesRef = useRef<GeoJSONFeature[] | null>(null);
+  // Bumped on every merge so the suburb layer remounts with the new features,
+  // whether a snapshot or a boundary detail level changed
+  const [mergeCount, setMergeCount] = useState(0);
+  const [overrides, setOverrides] = useState<SuburbOverride[] | null>(null);
+  const [lotSizes, setLotSizes] = useState<{ rows: SuburbLotSize[]; issues: DatasetIssue[] } | null>(null);
+  const [valuationModel, setValuationModel] = useState<ValuationModel>(() => ({
+    key: initialState.model || GROSS_MODEL.key,
+    buildingValue: initialState.buildingValue !== undefined ? initialState.buildingValue : DEFAULT_BUILDING_VALUE
+  }));
+  const [dataSources, setDataSources] = useState<DataSourceConfig | null>(null);
+  // Which copy of each remote-configured source is showing
+  const [dataOrigins, setDataOrigins] = useState<Partial<Record<DataSourceKey, Omit<LoadedData<unknown>, 'data'>>>>({});
+  // Latest step reported by the worker while boundaries parse or prices join
+  const [progress, setProgress] = useState<MapDataProgress | null>(null);
+  // Where the boundaries, prices and their join have got to. Bumping a
+  // load's count runs it again.
+  const [loads, setLoads] = useState(createLoads);
+  const [retries, setRetries] = useState<Record<LoadResource, number>>({ boundaries: 0, prices: 0, join: 0 });
+  const [outlineData, setOutlineData] = useState<GeoJSONData | null>(null);
   const [dataProcessed, setDataProcessed] = useState(false);
-  const [matchedCount, setMatchedCount] = useState(0);
+  const [joinSummary, setJoinSummary] = useState<JoinSummary | null>(null);
   const [showSources, setShowSources] = useState(false);
+  const [showUnmatched, setShowUnmatched] = useState(false);
+  const [dataIssues, setDataIssues] = useState<DatasetIssue[]>([]);
+  const [showIssues, setShowIssues] = useState(false);
+  const [propertyType, setPropertyType] = useState<PropertyType>(initialState.propertyType || 'house');
+  // Units and all dwellings have no land to measure, so they open on price
+  const [metric, setMetric] = useState<MetricKey>(() => {
+    const linked = initialState.metric || 'price_sqm';
+    return METRICS[linked].needsLand && !PROPERTY_TYPES[propertyType].hasLand ? 'median_price' : linked;
+  });
+  const [classificationOptions, setClassificationOptions] = useState<ClassificationOptions>(() => ({
+    scheme: initialState.scheme || 'manual',
+    classCount: initialState.classCount || 8,
+    // Linked breaks belong to the linked metric
+    manualBreaks: (initialState.metric || 'price_sqm') === metric && initialState.manualBreaks
+      ? initialState.manualBreaks
+      : METRICS[metric].manualBreaks
+  }));
+  const [filterRanges, setFilterRanges] = useState<FilterRanges>(initialState.filters || {});
+  const [filterMode, setFilterMode] = useState<FilterMode>(initialState.filterMode || 'dim');
+  const [showFilters, setShowFilters] = useState(false);
+  // The layer belongs to the route, so changing it is a navigation
+  const view: MapView = config.layer;
+  const setView = (next: MapView) => {
+    if (next !== view) onNavigate(getRoute(config.prices, next).path);
+  };
+  const [lgaStatistic, setLgaStatistic] = useState<LgaStatistic>('median');
+  // Councils and the merged data they were dissolved from, kept on screen
+  // until the next merge's councils arrive
+  const [dissolvedLgas, setDissolvedLgas] = useState<{ data: GeoJSONData; lgas: DissolvedLga[] } | null>(null);
+  const [dissolveError, setDissolveError] = useState<string | null>(null);
+  // Boundaries the worker joined geoJSONData from, in the same order
+  const [mergedBoundariesKey, setMergedBoundariesKey] = useState<string | null>(null);
+  // Council the suburb view is drilled down into
+  const [selectedLga, setSelectedLga] = useState<string | null>(initialState.lga || null);
+  const mapRef = useRef<L.Map | null>(null);
+  // Leaflet layer for each suburb feature, so search can open its popup
+  const featureLayersRef = useRef(new Map<any, L.Path>());
+  const [highlightedFeature, setHighlightedFeature] = useState<any>(null);
+  const [viewport, setViewport] = useState<{ center: [number, number]; zoom: number }>({
+    center: initialState.center || DEFAULT_CENTER,
+    zoom: initialState.zoom !== undefined ? initialState.zoom : DEFAULT_ZOOM
+  });
+  // The suburb named in the URL is looked up once the data has merged
+  const [suburbRestored, setSuburbRestored] = useState(!initialState.suburb);
+  // Suburb waiting to be zoomed to once its layer is on the map
+  const [pendingFocus, setPendingFocus] = useState<any>(null);
+  // Suburb whose popup is open. A rejoin (e.g. zooming to another detail
+  // level) remounts every layer, so the popup is reopened on its successor.
+  const openPopupFeatureRef = useRef<any>(null);
+  const [pendingPopup, setPendingPopup] = useState<any>(null);
+  // Lets hover handlers bound once per feature restyle with the current classes
+  const featureStyleRef = useRef<(feature: any) => L.PathOptions>(() => ({}));
+  // Suburb features in the comparison tray, in the order they were added
+  const [comparedFeatures, setComparedFeatures] = useState<any[]>([]);
+  // Popups are bound once per feature, so they read the tray through a ref
+  const comparedFeaturesRef = useRef<any[]>([]);
+  comparedFeaturesRef.current = comparedFeatures;
+  const [showTable, setShowTable] = useState(false);
+  // Polygon currently outlined because its table row is hovered
+  const rowHoverLayerRef = useRef<{ feature: any; layer: L.Path } | null>(null);
+  // Change mode colours suburbs by movement since a baseline period
+  const [changeMode, setChangeMode] = useState(false);
+  const [changeBaseline, setChangeBaseline] = useState<{ id: string; label: string; dataset: SuburbDataset } | null>(null);
+  const [changeMetric, setChangeMetric] = useState<ChangeMetricKey>('price_sqm');
+  const [changeUnit, setChangeUnit] = useState<ChangeUnit>('percent');
+  const [changeError, setChangeError] = useState<string | null>(null);
+  // Uploaded baseline workbook waiting for its sheet and columns to be chosen
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ name: string; workbook: WorkBook } | null>(null);
+  const [showEvaluator, setShowEvaluator] = useState(false);
+  const [listingFeature, setListingFeature] = useState<any>(null);
+  const [listingInput, setListingInput] = useState<ListingInput | null>(null);
+  // While set, the next suburb clicked becomes the listing's suburb
+  const [pickingListing, setPickingListing] = useState(false);
+  const pickingListingRef = useRef(false);
+  pickingListingRef.current = pickingListing;
+  const listingMarkerRef = useRef<L.Marker | null>(null);
 
-  // Load CSV data
+  // Load the list of quarterly snapshots. Without a manifest the bundled CSV
+  // is the only snapshot, as it always is for the demo.
   useEffect(() => {
-    fetch('/V1_Greater_Melbourne_LGAs_with_Corrected_Prices.csv')
+    if (config.prices === 'random') {
+      setSnapshots(DEFAULT_SNAPSHOTS);
+      setSnapshotIndex(0);
+      return;
+    }
+    fetch('/snapshots.json')
       .then(response => {
         if (!response.ok) {
-          throw new Error('Failed to load CSV data');
+          throw new Error('Failed to load snapshot manifest');
         }
-        return response.text();
+        return response.json();
       })
-      .then(csvText => {
-        Papa.parse(csvText, {
-          header: true,
-          complete: (results) => {
-            console.log('Parsed CSV data:', results.data);
-            setSuburbData(results.data as SuburbData[]);
-          },
-          error: (error: Error) => {
-            console.error('Error parsing CSV:', error);
-            setError('Failed to parse CSV data');
-          }
-        });
+      .then(data => {
+        const manifest = parseSnapshotManifest(data);
+        if (manifest.invalidCount > 0) {
+          console.warn(`Ignoring ${manifest.invalidCount} malformed entries in snapshots.json`);
+        }
+        return manifest.snapshots.length > 0 ? manifest.snapshots : DEFAULT_SNAPSHOTS;
       })
       .catch(err => {
-        console.error('Error loading CSV data:', err);
-        setError(err.message);
+        console.warn('Using the bundled price data:', err.message);
+        return DEFAULT_SNAPSHOTS;
+      })
+      .then(list => {
+        const linked = list.findIndex(snapshot => snapshot.id === initialState.period);
+        setSnapshots(list);
+        // Open on the latest quarter unless the link names one
+        setSnapshotIndex(linked !== -1 ? linked : list.length - 1);
       });
+  }, [initialState, config.prices]);
+
+  // Remote data sources from /data-sources.json and the environment. The
+  // file is optional; without either, the bundled files are used.
+  useEffect(() => {
+    fetch('/data-sources.json')
+      .then(response => {
+        if (!response.ok) {
+          throw new Error('Failed to load data source config');
+        }
+        return response.json();
+      })
+      .then(parseDataSourceConfig)
+      .catch(() => DEFAULT_DATA_SOURCES)
+      .then(fileConfig => setDataSources(resolveDataSources(fileConfig, process.env)));
   }, []);
 
-  // Load GeoJSON data
+  const recordOrigin = (key: DataSourceKey, result: LoadedData<unknown>) => {
+    if (result.error) console.warn(`Using the ${DATA_ORIGIN_LABELS[result.origin]} for ${key}:`, result.error);
+    const { data, ...origin } = result;
+    setDataOrigins(current => ({ ...current, [key]: origin }));
+  };
+
+  const activeSnapshot = snapshots ? snapshots[snapshotIndex] : null;
+
+  // The route's own boundary file if it names one. Otherwise the build's
+  // precomputed boundaries at the detail level for the current zoom, or the
+  // full bundled file when there are none (e.g. in development).
+  const [precomputedMissing, setPrecomputedMissing] = useState(false);
+  const remoteBoundaries = !config.boundaries && dataSources ? dataSources.boundaries : null;
+  const boundaryFile = config.boundaries
+    || (precomputedMissing || remoteBoundaries
+      ? BUNDLED_BOUNDARIES
+      : getPrecomputedPath(getLevelForZoom(viewport.zoom).id, 'topojson'));
+  const precomputedBoundaries = !config.boundaries && !remoteBoundaries && !precomputedMissing;
+
+  // What the precomputed layers were joined from; null without them
+  const [precomputedManifest, setPrecomputedManifest] = useState<PrecomputedManifest | null | undefined>(undefined);
   useEffect(() => {
-    fetch('/vic_suburbs.json')
-      .then(response => response.json())
-      .then(data => {
-        // Log some suburb names for debugging
-        console.log('Sample GeoJSON suburb names:', 
-          data.features.slice(0, 10).map((f: any) => f.properties.vic_loca_2 || f.properties.name || f.properties.VIC_LOCA_2));
-        setGeoJSONData(data);
+    fetch(PRECOMPUTED_MANIFEST)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error('Failed to load the precomputed manifest');
+        }
+        return response.json();
       })
+      .then(manifest => setPrecomputedManifest(isPrecomputedManifest(manifest) ? manifest : null))
       .catch(err => {
-        console.error('Error loading GeoJSON data:', err);
-        setError(err.message);
+        console.warn('Joining prices in the browser:', err.message);
+        setPrecomputedManifest(null);
       });
   }, []);
 
-  // Effect to merge GeoJSON and CSV data when both are available
+  // The layers carry the build's join, so they are shown as they are unless
+  // the map asks for prices they weren't joined from
+  const usePrecomputed = Boolean(
+    precomputedBoundaries
+    && precomputedManifest
+    && activeSnapshot
+    && snapshots
+    && dataSources
+    && config.prices === 'snapshots'
+    && !getRemotePricesUrl(activeSnapshot, snapshots, dataSources, config.prices)
+    && matchesPrecomputed(precomputedManifest, activeSnapshot.id, valuationModel, propertyType)
+  );
+  // Whether they can be is only known once the manifest is in
+  const precomputedPending = precomputedBoundaries && precomputedManifest === undefined;
+
+  // Load CSV data for the selected snapshot
   useEffect(() => {
-    if (geoJSONData && suburbData.length > 0 && !dataProcessed) {
-      console.log('Merging data...');
-      console.log('Total suburbs in CSV:', suburbData.length);
-      console.log('Total features in GeoJSON:', geoJSONData.features.length);
-      
-      // Create a map of suburb names to their data for faster lookup
-      const suburbMap: Record<string, any> = {};
-      
-      // Add all suburbs to the map with various key formats for flexible matching
-      suburbData.forEach(suburb => {
-        const name = suburb.Suburb.toLowerCase().trim();
-        suburbMap[name] = suburb;
-        
-        // Add variations without directional prefixes/suffixes
-        const simpleName = name
-          .replace(/^(north|south|east|west|port)\s+/, '')
-          .replace(/\s+(north|south|east|west)$/, '');
-        
-        if (simpleName !== name) {
-          suburbMap[simpleName] = suburb;
-        }
+    if (!activeSnapshot || !snapshots || !dataSources || precomputedPending) return;
+    if (usePrecomputed) {
+      setLoads(current => withLoad(current, 'prices', finishLoad));
+      return;
+    }
+    const cached = datasetCacheRef.current.get(activeSnapshot.id);
+    if (cached) {
+      setLoads(current => withLoad(current, 'prices', finishLoad));
+      setCsvDataset(cached);
+      setLoadedSnapshot(activeSnapshot);
+      return;
+    }
+    
+    let cancelled = false;
+    setLoads(current => withLoad(current, 'prices', startLoad));
+    const remoteUrl = getRemotePricesUrl(activeSnapshot, snapshots, dataSources, config.prices);
+    loadSnapshotDataset(activeSnapshot, remoteUrl, config.prices)
+      .then(result => {
+        const dataset = result.data;
+        datasetCacheRef.current.set(activeSnapshot.id, dataset);
+        if (remoteUrl) recordOrigin('prices', result);
+        if (cancelled) return;
+        setLoads(current => withLoad(current, 'prices', finishLoad));
+        setCsvDataset(dataset);
+        setLoadedSnapshot(activeSnapshot);
+      })
+      .catch(err => {
+        console.error('Error loading CSV data:', err);
+        if (cancelled) return;
+        setPlaying(false);
+        setLoads(current => withLoad(current, 'prices', load => failLoad(load, err.message, Date.now())));
+        // The map keeps showing the last quarter that loaded
+        if (mergedFeaturesRef.current) setFailedSnapshot(activeSnapshot);
       });
-      
-      // Add manual mappings for problematic suburbs
-      suburbMap['williamstown'] = suburbData.find(s => s.Suburb.toLowerCase() === 'williamstown');
-      suburbMap['richmond'] = suburbData.find(s => s.Suburb.toLowerCase() === 'richmond');
-      
-      // Debug the map
-      console.log('Created suburb map with keys:', Object.keys(suburbMap).length);
-      console.log('Williamstown in map:', !!suburbMap['williamstown']);
-      console.log('Richmond in map:', !!suburbMap['richmond']);
-      
-      // Count how many suburbs we can match
-      let matchCount = 0;
-      
-      // Create a copy of the GeoJSON data to modify
-      const mergedData = {
-        ...geoJSONData,
-        features: geoJSONData.features.map(feature => {
-          // Get suburb name from feature properties
-          const suburbName = feature.properties.vic_loca_2 || 
-                            feature.properties.name || 
-                            feature.properties.VIC_LOCA_2 || '';
-          
-          // Normalize suburb name for lookup
-          const lookupName = suburbName.toLowerCase().trim();
-          
-          // Debug specific suburbs
-          if (lookupName === 'williamstown' || lookupName === 'richmond') {
-            console.log(`Looking up ${lookupName} in suburb map:`, !!suburbMap[lookupName]);
-          }
-          
-          // Find matching suburb in our map
-          const matchingSuburb = suburbMap[lookupName];
-          
-          if (matchingSuburb) {
-            matchCount++;
-            // Properly parse the price per sqm value from the CSV
-            const pricePerSqmStr = matchingSuburb['$/sqm'];
-            
-            // The issue is that we're parsing the price incorrectly
-            // For example, "$10,900" should be parsed as 10900, not as 10.9
-            // Remove $ and commas, then parse as float
-            let pricePerSqm = 0;
-            if (pricePerSqmStr) {
-              // Remove $ and commas, but keep the decimal point if present
-              const cleanedStr = pricePerSqmStr.replace(/[$,]/g, '');
-              pricePerSqm = parseFloat(cleanedStr);
-              
-              // Debug expensive suburbs
-              if (pricePerSqm > 9000) {
-                console.log(`High-priced suburb: ${matchingSuburb.Suburb}, Original: ${pricePerSqmStr}, Cleaned: ${cleanedStr}, Parsed: ${pricePerSqm}`);
-              }
-            }
-            const medianPrice = matchingSuburb['Median Price'];
-            const blockSize = matchingSuburb['Estimated Block Size (sqm)'];
-            const lga = matchingSuburb.LGA;
-            
-            return {
-              ...feature,
-              properties: {
-                ...feature.properties,
-                price_sqm: pricePerSqm,
-                median_price: medianPrice,
-                block_size: blockSize,
-                lga: lga,
-                matched_suburb: matchingSuburb.Suburb
-              }
-            };
+    return () => {
+      cancelled = true;
+    };
+  }, [activeSnapshot, snapshots, dataSources, config.prices, usePrecomputed, precomputedPending, retries.prices]);
+
+  // Files the worker has already parsed
+  const parsedBoundariesRef = useRef(new Set<string>());
+
+  // A worker that dies takes its parsed boundaries with it. Joins wait until
+  // they are parsed again, which happens as a retry of the boundaries load;
+  // one that was under way when the worker died fails and retries by itself.
+  useEffect(() => mapData.onReset(err => {
+    parsedBoundariesRef.current.clear();
+    setBoundariesKey(null);
+    setLoads(current => current.boundaries.status === 'loaded'
+      ? withLoad(current, 'boundaries', load => failLoad(load, err.message, Date.now()))
+      : current);
+  }), []);
+
+  // Load boundary data, GeoJSON or TopoJSON
+  useEffect(() => {
+    if (!dataSources) return;
+    if (parsedBoundariesRef.current.has(boundaryFile)) {
+      setLoads(current => withLoad(current, 'boundaries', finishLoad));
+      setBoundariesKey(boundaryFile);
+      return;
+    }
+
+    let cancelled = false;
+    setLoads(current => withLoad(current, 'boundaries', startLoad));
+    const parse = (text: string) =>
+      mapData
+        .run('parse-boundaries', { key: boundaryFile, text }, step => {
+          if (!cancelled) setProgress(step);
+        })
+        .then(parsed => parsed.key);
+    loadWithFallback({
+      url: remoteBoundaries,
+      cacheKey: `boundaries:${remoteBoundaries}`,
+      cache: dataSourceCache,
+      fetchText,
+      parse,
+      fallback: () => fetch(boundaryFile)
+        .then(response => {
+          if (!response.ok) {
+            throw new Error(`Failed to load ${boundaryFile}`);
           }
-          
-          return feature;
+          return response.text();
         })
-      };
-      
-      console.log(`Successfully matched ${matchCount} suburbs out of ${suburbData.length} in CSV data`);
-      setMatchedCount(matchCount);
-      setGeoJSONData(mergedData);
-      setLoading(false);
-      setDataProcessed(true);
-    } else if (suburbData.length > 0 && !geoJSONData) {
-      // If we have CSV data but no GeoJSON yet, wait for GeoJSON
-    } else if (geoJSONData && suburbData.length === 0) {
-      // If we have GeoJSON but no CSV data yet, wait for CSV
+        .then(parse)
+    })
+      .then(result => {
+        if (remoteBoundaries) recordOrigin('boundaries', result);
+        else parsedBoundariesRef.current.add(boundaryFile);
+        if (cancelled) return;
+        setProgress(null);
+        setLoads(current => withLoad(current, 'boundaries', finishLoad));
+        setBoundariesKey(result.data);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setProgress(null);
+        if (boundaryFile !== BUNDLED_BOUNDARIES && !config.boundaries) {
+          console.warn('No precomputed boundaries, loading the full file:', err.message);
+          setPrecomputedMissing(true);
+          return;
+        }
+        console.error('Error loading boundary data:', err);
+        setLoads(current => withLoad(current, 'boundaries', load => failLoad(load, err.message, Date.now())));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dataSources, remoteBoundaries, boundaryFile, config.boundaries, retries.boundaries]);
+
+  // Load manual per-suburb corrections. The file is optional, so a failure
+  // just means the CSV is used as-is.
+  useEffect(() => {
+    fetch('/suburb-overrides.json')
+      .then(response => {
+        if (!response.ok) {
+          throw new Error('Failed to load suburb overrides');
+        }
+        return response.json();
+      })
+      .then(data => {
+        const valid = Array.isArray(data) ? data.filter(isSuburbOverride) : [];
+        if (!Array.isArray(data) || valid.length !== data.length) {
+          console.warn('Ignoring malformed entries in suburb-overrides.json');
+        }
+        setOverrides(valid);
+      })
+      .catch(err => {
+        console.warn('No suburb overrides applied:', err.message);
+        setOverrides([]);
+      });
+  }, []);
+
+  // Load suburb median lot sizes. Also optional: without them every suburb
+  // uses its LGA's average block size from the price CSV.
+  useEffect(() => {
+    fetch('/suburb-lot-sizes.csv')
+      .then(response => {
+        // The dev server answers unknown paths with index.html
+        if (!response.ok || (response.headers.get('Content-Type') || '').includes('text/html')) {
+          throw new Error('Failed to load suburb lot sizes');
+        }
+        return response.text();
+      })
+      .then(text => setLotSizes(parseLotSizeCsv(text)))
+      .catch(err => {
+        console.warn('Using LGA average block sizes:', err.message);
+        setLotSizes({ rows: [], issues: [] });
+      });
+  }, []);
+
+  // Put a merge on the map, in place of the previous one
+  const showMerged = (
+    mergedData: GeoJSONData,
+    mergedKey: string,
+    summary: JoinSummary,
+    issues: DatasetIssue[],
+    snapshot: Snapshot
+  ) => {
+    // Selections point at features of the previous merge; carry them over
+    // to the same boundaries in this one
+    const previousFeatures = mergedFeaturesRef.current;
+    const carryOver = (feature: any) => {
+      const index = previousFeatures && feature ? previousFeatures.indexOf(feature) : -1;
+      return index === -1 ? feature : mergedData.features[index];
+    };
+    mergedFeaturesRef.current = mergedData.features;
+    featureLayersRef.current.clear();
+    setHighlightedFeature(carryOver);
+    setListingFeature(carryOver);
+    setPendingFocus(carryOver);
+    setPendingPopup(carryOver(openPopupFeatureRef.current));
+    setComparedFeatures(current => current.map(carryOver));
+    setMergedBoundariesKey(mergedKey);
+
+    setJoinSummary(summary);
+    setDataIssues(issues);
+    setGeoJSONData(mergedData);
+    setMergeCount(count => count + 1);
+    setMergedSnapshot(snapshot);
+    setFailedSnapshot(null);
+    setProgress(null);
+    setLoads(current => withLoad(current, 'join', finishLoad));
+    setDataProcessed(true);
+  };
+
+  const handleMergeError = (err: Error, snapshot: Snapshot) => {
+    setProgress(null);
+    setPlaying(false);
+    setLoads(current => withLoad(current, 'join', load => failLoad(load, err.message, Date.now())));
+    if (mergedFeaturesRef.current) setFailedSnapshot(snapshot);
+  };
+
+  // The precomputed layers need no join: the worker hands back the parsed
+  // boundaries, prices and all
+  useEffect(() => {
+    if (!usePrecomputed || !boundariesKey || !precomputedManifest || !activeSnapshot) return;
+    let cancelled = false;
+    setLoads(current => withLoad(current, 'join', startLoad));
+    mapData.run('precomputed', { boundariesKey }).then(collection => {
+      if (cancelled) return;
+      // Nor is a quarter loaded before joined again when the map moves off them
+      setCsvDataset(null);
+      setLoadedSnapshot(null);
+      showMerged(collection as GeoJSONData, boundariesKey, precomputedManifest, precomputedManifest.issues, activeSnapshot);
+    }).catch(err => {
+      console.error('Error reading precomputed prices:', err);
+      if (!cancelled) handleMergeError(err, activeSnapshot);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [usePrecomputed, boundariesKey, precomputedManifest, activeSnapshot, retries.join]);
+
+  // Effect to merge GeoJSON and CSV data when both are available, and again
+  // whenever another snapshot is loaded
+  useEffect(() => {
+    if (usePrecomputed || !boundariesKey || !csvDataset || !loadedSnapshot || !overrides || !lotSizes) return;
+    let cancelled = false;
+    setLoads(current => withLoad(current, 'join', startLoad));
+    mapData.run(
+      'join',
+      {
+        boundariesKey,
+        dataset: csvDataset,
+        overrides,
+        snapshotId: loadedSnapshot.id,
+        options: { lotSizes: lotSizes.rows, model: valuationModel, propertyType }
+      },
+      step => {
+        if (!cancelled) setProgress(step);
+      }
+    ).then(join => {
+      if (cancelled) return;
+      join.unusedOverrides.forEach(override => {
+        console.warn(`Override for ${override.suburb} did not match any CSV row`);
+      });
+      join.unusedLotSizes.forEach(lotSize => {
+        console.warn(`Lot size for ${lotSize.suburb} did not match any CSV row`);
+      });
+      showMerged(join.collection as GeoJSONData, boundariesKey, summariseJoin(join, csvDataset), [...lotSizes.issues, ...join.issues], loadedSnapshot);
+    }).catch(err => {
+      console.error('Error joining price data:', err);
+      if (!cancelled) handleMergeError(err, loadedSnapshot);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [usePrecomputed, csvDataset, boundariesKey, loadedSnapshot, overrides, lotSizes, valuationModel, propertyType, retries.join]);
+
+  // Automatic retries, each once its wait is up
+  useEffect(() => {
+    const timers = LOAD_RESOURCE_KEYS.filter(key => loads[key].retryAt !== null).map(key =>
+      setTimeout(() => {
+        setLoads(current => withLoad(current, key, startLoad));
+        setRetries(current => ({ ...current, [key]: current[key] + 1 }));
+      }, Math.max(0, loads[key].retryAt! - Date.now()))
+    );
+    return () => timers.forEach(clearTimeout);
+  }, [loads]);
+
+  const handleRetry = (resource: LoadResource) => {
+    setLoads(current => withLoad(current, resource, retryLoad));
+    setRetries(current => ({ ...current, [resource]: current[resource] + 1 }));
+  };
+
+  const loadFailed = LOAD_RESOURCE_KEYS.some(key => hasLoadError(loads[key]));
+
+  // Without prices the boundaries are still drawn, as outlines: joined to no
+  // rows, so the worker hands back its copy
+  const pricesMissing = hasLoadError(loads.prices) || hasLoadError(loads.join);
+  useEffect(() => {
+    if (!boundariesKey || !pricesMissing || geoJSONData) return;
+    let cancelled = false;
+    mapData
+      .run('join', { boundariesKey, dataset: { rows: [], issues: [] }, overrides: [], snapshotId: 'outline' })
+      .then(({ collection }) => {
+        if (!cancelled) setOutlineData(collection);
+      })
+      .catch(err => console.error('Error drawing suburb outlines:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [boundariesKey, pricesMissing, geoJSONData]);
+  
+  // Step through the quarters while playing, waiting for each one to load
+  // (or fail)
+  useEffect(() => {
+    if (!playing || !snapshots) return;
+    const current = snapshots[snapshotIndex];
+    if (current !== mergedSnapshot && current !== failedSnapshot) return;
+    const timer = setTimeout(() => {
+      if (snapshotIndex >= snapshots.length - 1) {
+        setPlaying(false);
+      } else {
+        setSnapshotIndex(snapshotIndex + 1);
+      }
+    }, PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, snapshots, snapshotIndex, mergedSnapshot, failedSnapshot]);
+  
+  const handlePlayingChange = (play: boolean) => {
+    // Playing from the last quarter starts again at the first
+    if (play && snapshots && snapshotIndex >= snapshots.length - 1) setSnapshotIndex(0);
+    setPlaying(play);
+  };
+  
+  // Dissolving council boundaries is slow, so it runs in the worker and waits
+  // until the view is first opened
+  useEffect(() => {
+    if (view !== 'lga' || !geoJSONData || !mergedBoundariesKey) return;
+    if (dissolvedLgas && dissolvedLgas.data === geoJSONData) return;
+    let cancelled = false;
+    const features = geoJSONData.features;
+    mapData
+      .run('dissolve', { boundariesKey: mergedBoundariesKey, lgas: features.map(feature => feature.properties.lga || null) })
+      .then(shapes => {
+        if (cancelled) return;
+        setDissolvedLgas({ data: geoJSONData, lgas: addLgaMembers(shapes, features) });
+        setDissolveError(null);
+      })
+      .catch(err => {
+        console.error('Error building council boundaries:', err);
+        if (!cancelled) setDissolveError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [view, geoJSONData, mergedBoundariesKey, dissolvedLgas]);
+
+  const lgaData = useMemo(
+    () => dissolvedLgas ? buildLgaCollection(dissolvedLgas.lgas, lgaStatistic) : null,
+    [dissolvedLgas, lgaStatistic]
+  );
+
+  const activeMetric = METRICS[metric];
+  const displayedFeatures = useMemo<{ properties: { [key: string]: any } }[]>(
+    () => view === 'lga'
+      ? (lgaData ? lgaData.features : [])
+      : (geoJSONData ? geoJSONData.features : []),
+    [view, lgaData, geoJSONData]
+  );
+
+  // Classified in the worker. The result names the features and metric it
+  // was for, so a switch never paints with the previous metric's classes;
+  // new options on the same metric keep the old classes until theirs arrive.
+  const [classified, setClassified] = useState<{
+    features: typeof displayedFeatures;
+    metric: MetricKey;
+    classification: Classification;
+  } | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    mapData
+      .run('classify', { values: displayedFeatures.map(feature => feature.properties[metric]), options: classificationOptions })
+      .then(result => {
+        if (!cancelled) setClassified({ features: displayedFeatures, metric, classification: result });
+      })
+      .catch(err => console.error('Error classifying suburbs:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [displayedFeatures, metric, classificationOptions]);
+  const classification = classified && classified.features === displayedFeatures && classified.metric === metric
+    ? classified.classification
+    : null;
+  const getFillColor = (value: number | null | undefined): string =>
+    classification ? getClassColor(value, classification) : NO_DATA_COLOR;
+
+  const matchedProperties = useMemo(
+    () => geoJSONData
+      ? geoJSONData.features.filter(feature => feature.properties.matched_suburb).map(feature => feature.properties)
+      : [],
+    [geoJSONData]
+  );
+  const lgaAverages = useMemo(() => getLgaAverages(matchedProperties), [matchedProperties]);
+  const lotSizeSummary = useMemo(() => summariseLotSizeSources(matchedProperties), [matchedProperties]);
+  const qualityCounts = useMemo(() => {
+    const counts = {} as Record<QualityStatus, number>;
+    QUALITY_STATUS_KEYS.forEach(status => { counts[status] = 0; });
+    if (geoJSONData) geoJSONData.features.forEach(feature => { counts[feature.properties.quality_status as QualityStatus]++; });
+    return counts;
+  }, [geoJSONData]);
+  // Suburbs without a value that are hatched rather than plain grey
+  const hatchedCount = useMemo(
+    () => geoJSONData
+      ? geoJSONData.features.filter(feature => {
+        const style = getQualityStyle(feature.properties, metric);
+        return !!style && !!style.fillColor;
+      }).length
+      : 0,
+    [geoJSONData, metric]
+  );
+  const filterBounds = useMemo(() => getMetricBounds(matchedProperties), [matchedProperties]);
+  const filterActive = isFilterActive(filterRanges);
+  const inRangeCount = useMemo(
+    () => matchedProperties.filter(props => isInRange(props, filterRanges)).length,
+    [matchedProperties, filterRanges]
+  );
+
+  // Change for every suburb with a price in either period, matched to the
+  // boundaries the same way as the current period
+  const priceChanges = useMemo(() => {
+    if (!changeMode || !changeBaseline || !geoJSONData || !overrides || !lotSizes) return null;
+    // Priced the same way as the current period, so only the prices differ
+    const baselineRows = prepareRows(
+      changeBaseline.dataset,
+      changeBaseline.id === FILE_BASELINE ? [] : overrides,
+      changeBaseline.id,
+      { lotSizes: lotSizes.rows, model: valuationModel, propertyType }
+    ).rows;
+    const report = matchSuburbs(
+      baselineRows,
+      suburb => suburb.suburb,
+      geoJSONData.features.map(feature => getFeatureSuburbName(feature.properties))
+    );
+    
+    const changes = new Map<any, PriceChange>();
+    geoJSONData.features.forEach((feature, index) => {
+      const baselineMatch = report.matches[index];
+      const current = feature.properties.matched_suburb ? feature.properties : null;
+      if (!baselineMatch && !current) return;
+      changes.set(feature, comparePeriods(
+        baselineMatch ? { price_sqm: baselineMatch.row.pricePerSqm, median_price: baselineMatch.row.medianPrice } : null,
+        current
+      ));
+    });
+    return changes;
+  }, [changeMode, changeBaseline, geoJSONData, overrides, lotSizes, valuationModel, propertyType]);
+  
+  const changeClassification = useMemo(() => {
+    if (!priceChanges) return null;
+    const values: (number | null)[] = [];
+    priceChanges.forEach(change => {
+      if (!isMissingPeriod(change)) values.push(getChangeValue(change, changeMetric, changeUnit));
+    });
+    return classifyChange(values);
+  }, [priceChanges, changeMetric, changeUnit]);
+  
+  const unchangedCount = useMemo(() => {
+    let count = 0;
+    if (priceChanges) priceChanges.forEach(change => { if (getChangeValue(change, changeMetric, changeUnit) === 0) count++; });
+    return count;
+  }, [priceChanges, changeMetric, changeUnit]);
+  
+  const missingPeriodCount = useMemo(() => {
+    let count = 0;
+    if (priceChanges) priceChanges.forEach(change => { if (isMissingPeriod(change)) count++; });
+    return count;
+  }, [priceChanges]);
+  
+  const selectBaselineSnapshot = (id: string) => {
+    const snapshot = snapshots ? snapshots.find(candidate => candidate.id === id) : undefined;
+    if (!snapshot) return;
+    setChangeError(null);
+    const cached = datasetCacheRef.current.get(snapshot.id);
+    if (cached) {
+      setChangeBaseline({ id: snapshot.id, label: snapshot.label, dataset: cached });
+      return;
     }
-  }, [suburbData.length, geoJSONData ? JSON.stringify(geoJSONData.type) : null, dataProcessed]);
+    const remoteUrl = snapshots && dataSources ? getRemotePricesUrl(snapshot, snapshots, dataSources, config.prices) : null;
+    loadSnapshotDataset(snapshot, remoteUrl, config.prices)
+      .then(({ data: dataset }) => {
+        datasetCacheRef.current.set(snapshot.id, dataset);
+        setChangeBaseline({ id: snapshot.id, label: snapshot.label, dataset });
+      })
+      .catch(err => setChangeError(err.message));
+  };
+  
+  const selectBaselineFile = (file: File) => {
+    setChangeError(null);
+    setPendingWorkbook(null);
+    if (isWorkbookFile(file.name)) {
+      file.arrayBuffer()
+        .then(data => setPendingWorkbook({ name: file.name, workbook: readWorkbook(data) }))
+        .catch(err => setChangeError(`${file.name}: ${err.message}`));
+      return;
+    }
+    file.text()
+      .then(parseDatasetText)
+      .then(dataset => setChangeBaseline({ id: FILE_BASELINE, label: file.name, dataset }))
+      .catch(err => setChangeError(`${file.name}: ${err.message}`));
+  };
+  
+  const importBaselineWorkbook = (sheetName: string, mapping: ColumnMapping) => {
+    if (!pendingWorkbook) return;
+    const { name, workbook } = pendingWorkbook;
+    try {
+      const dataset = requireRows(parseWorkbookSheet(workbook, sheetName, mapping));
+      setChangeBaseline({ id: FILE_BASELINE, label: `${name} (${sheetName})`, dataset });
+      setPendingWorkbook(null);
+    } catch (err) {
+      setChangeError(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+  
+  const toggleChangeMode = () => {
+    if (changeMode) {
+      setChangeMode(false);
+      return;
+    }
+    setChangeMode(true);
+    setView('suburbs');
+    // Default to the quarter before the one on the map
+    if (!changeBaseline && snapshots && snapshotIndex > 0) selectBaselineSnapshot(snapshots[snapshotIndex - 1].id);
+  };
+
+  // Manual breaks belong to a metric, so switching metric restores its defaults
+  const handleMetricChange = (newMetric: MetricKey) => {
+    setMetric(newMetric);
+    setClassificationOptions(options => ({ ...options, manualBreaks: METRICS[newMetric].manualBreaks }));
+  };
+
+  // Land metrics and their filters don't apply to units or all dwellings
+  const handlePropertyTypeChange = (newType: PropertyType) => {
+    setPropertyType(newType);
+    if (PROPERTY_TYPES[newType].hasLand) return;
+    if (METRICS[metric].needsLand) handleMetricChange('median_price');
+    setFilterRanges(ranges => {
+      const next = { ...ranges };
+      METRIC_KEYS.forEach(key => {
+        if (METRICS[key].needsLand) delete next[key];
+      });
+      return next;
+    });
+  };
   
-  // Function to determine color based on price per sqm
-  const getColor = (price: number): string => {
-    if (!price || isNaN(price)) return '#cccccc'; // Default gray for missing data
+  const legendTitle = metric === 'median_price'
+    ? medianPriceLabel(propertyType)
+    : metric === 'price_sqm' && valuationModel.key === 'land-residual' ? 'Land value per sqm' : activeMetric.legendTitle;
+
+  // Style function for GeoJSON features, coloured by the selected metric
+  const featureStyle = (feature: any): L.PathOptions => {
+    const value = feature.properties[metric];
+    const style = {
+      fillColor: getFillColor(value),
+      weight: 1,
+      opacity: 1,
+      color: 'white',
+      dashArray: '3',
+      fillOpacity: 0.7
+    };
     
-    // Debug color assignment for expensive suburbs
-    if (price > 9000) {
-      console.log(`Getting color for expensive suburb: price=${price}, returning #800026`);
+    if (priceChanges && changeClassification) {
+      const change = priceChanges.get(feature);
+      if (isMissingPeriod(change)) {
+        // Outlined so a suburb that can't be compared doesn't read as "no change"
+        style.fillColor = MISSING_PERIOD_COLOR;
+        style.color = '#d95f0e';
+        style.weight = 2;
+        style.dashArray = '4';
+      } else {
+        style.fillColor = getChangeColor(getChangeValue(change, changeMetric, changeUnit), changeClassification);
+      }
+    } else {
+      // Hatched or outlined where the figures are missing or approximate
+      Object.assign(style, getQualityStyle(feature.properties, metric));
+    }
+    
+    if (comparedFeatures.includes(feature)) {
+      style.weight = 3;
+      style.color = '#3498db';
+      style.dashArray = '';
+    }
+    
+    if (feature === highlightedFeature) {
+      style.weight = 3;
+      style.color = '#222';
+      style.dashArray = '';
     }
     
-    if (price < 3000) return '#1a9850'; // Dark green
-    if (price < 4000) return '#91cf60'; // Light green
-    if (price < 5000) return '#d9ef8b'; // Yellow-green
-    if (price < 6000) return '#fee08b'; // Light orange
-    if (price < 7000) return '#fc8d59'; // Orange
-    if (price < 8000) return '#d73027'; // Red
-    if (price < 9000) return '#bd0026'; // Dark red
-    return '#800026'; // Very dark red for expensive (>$9,000/sqm)
+    const outsideSelectedLga = selectedLga !== null && feature.properties.lga !== selectedLga;
+    if (outsideSelectedLga || (filterActive && !isInRange(feature.properties, filterRanges))) {
+      return filterMode === 'hide'
+        ? { ...style, opacity: 0, fillOpacity: 0 }
+        : { ...style, opacity: 0.3, fillOpacity: 0.15 };
+    }
+    
+    return style;
   };
 
-  // Style function for GeoJSON features
-  const featureStyle = (feature: any) => {
-    const suburbName = feature.properties.vic_loca_2 || feature.properties.name || feature.properties.VIC_LOCA_2 || '';
+  const lgaStyle = (feature: any): L.PathOptions => ({
+    fillColor: getFillColor(feature.properties[metric]),
+    weight: 2,
+    opacity: 1,
+    color: '#444',
+    fillOpacity: 0.7
+  });
+
+  featureStyleRef.current = view === 'lga' ? lgaStyle : featureStyle;
+
+  // Zoom to a council and show its suburbs
+  const drillDownToLga = (lga: string, bounds: L.LatLngBounds) => {
+    setSelectedLga(lga);
+    setView('suburbs');
+    if (mapRef.current) {
+      mapRef.current.fitBounds(bounds, { padding: [20, 20] });
+    }
+  };
+
+  const searchIndex = useMemo(
+    () => geoJSONData && dataProcessed ? buildSearchIndex(geoJSONData.features) : [],
+    [geoJSONData, dataProcessed]
+  );
+
+  const handleSearchSelect = (result: SearchResult) => {
+    if (result.kind === 'lga') {
+      const lgaFeatures = geoJSONData ? geoJSONData.features.filter(feature => feature.properties.lga === result.label) : [];
+      if (lgaFeatures.length > 0) {
+        drillDownToLga(result.label, L.geoJSON({ type: 'FeatureCollection', features: lgaFeatures } as any).getBounds());
+      }
+      return;
+    }
     
-    // Special case for Yarraville - use the correct price ($2,680) to determine color
-    if (suburbName.toLowerCase() === 'yarraville') {
-      return {
-        fillColor: getColor(2680), // Use the correct price for Yarraville
-        weight: 1,
-        opacity: 1,
-        color: 'white',
-        dashArray: '3',
-        fillOpacity: 0.7
-      };
+    focusFeature(result.feature);
+  };
+
+  // Select a suburb, zoom to it and open its popup
+  const focusFeature = (feature: any) => {
+    setView('suburbs');
+    if (selectedLga !== null && feature.properties.lga !== selectedLga) setSelectedLga(null);
+    setHighlightedFeature(feature);
+    setPendingFocus(feature);
+  };
+
+  // Outline a suburb while its table row is hovered, the same way a mouse
+  // over the polygon does
+  const handleRowHover = (feature: any | null) => {
+    const previous = rowHoverLayerRef.current;
+    if (previous) {
+      previous.layer.setStyle(featureStyleRef.current(previous.feature));
+      rowHoverLayerRef.current = null;
     }
     
-    const price = feature.properties.price_sqm;
+    const layer = feature ? featureLayersRef.current.get(feature) : undefined;
+    if (!layer || view !== 'suburbs') return;
+    layer.setStyle({ weight: 3, color: '#666', dashArray: '', fillOpacity: 0.8 });
+    layer.bringToFront();
+    rowHoverLayerRef.current = { feature, layer };
+  };
+
+  // The map shares its width with the table, so Leaflet has to re-measure
+  useEffect(() => {
+    if (mapRef.current) mapRef.current.invalidateSize();
+  }, [showTable]);
+
+  // Zoom to and open the popup of a searched-for suburb once it is rendered
+  useEffect(() => {
+    if (!pendingFocus || view !== 'suburbs') return;
+    const layer = featureLayersRef.current.get(pendingFocus);
+    if (!layer || !mapRef.current) return;
     
-    // Debug color assignment for expensive suburbs
-    if (price > 9000) {
-      const color = getColor(price);
-      console.log(`Color for ${suburbName}: price=${price}, color=${color}`);
+    mapRef.current.fitBounds((layer as L.Polygon).getBounds(), { padding: [40, 40], maxZoom: 15 });
+    layer.openPopup();
+    setPendingFocus(null);
+  }, [pendingFocus, view]);
+
+  // Reopen the popup a rejoin closed, without moving the map
+  useEffect(() => {
+    if (!pendingPopup || view !== 'suburbs') return;
+    const layer = featureLayersRef.current.get(pendingPopup);
+    if (!layer) return;
+    layer.openPopup();
+    setPendingPopup(null);
+  }, [pendingPopup, view, mergeCount]);
+
+  // Add a suburb to the comparison tray, or take it out if it is already there
+  const toggleCompared = (feature: any) => {
+    setComparedFeatures(current => {
+      if (current.includes(feature)) return current.filter(item => item !== feature);
+      if (current.length >= MAX_COMPARED_SUBURBS) return current;
+      return [...current, feature];
+    });
+  };
+
+  // Select the suburb from a shared link. Without a position in the link the
+  // map zooms to it; otherwise the link's own centre and zoom are kept.
+  useEffect(() => {
+    if (suburbRestored || !dataProcessed || !geoJSONData) return;
+    const name = normaliseSuburbName(initialState.suburb || '');
+    const feature = geoJSONData.features.find(feature => normaliseSuburbName(getFeatureSuburbName(feature.properties)) === name);
+    if (feature) {
+      setHighlightedFeature(feature);
+      if (!initialState.center) setPendingFocus(feature);
+    }
+    setSuburbRestored(true);
+  }, [suburbRestored, dataProcessed, geoJSONData, initialState]);
+
+  // Keep the query string in step with the view so the address bar is always
+  // a shareable link
+  useEffect(() => {
+    if (!suburbRestored) return;
+    const query = serialiseUrlState({
+      center: viewport.center,
+      zoom: viewport.zoom,
+      suburb: highlightedFeature ? getFeatureSuburbName(highlightedFeature.properties) : undefined,
+      metric,
+      filters: filterRanges,
+      filterMode,
+      scheme: classificationOptions.scheme,
+      classCount: classificationOptions.classCount,
+      manualBreaks: classificationOptions.manualBreaks,
+      lga: view === 'suburbs' && selectedLga ? selectedLga : undefined,
+      model: valuationModel.key,
+      buildingValue: valuationModel.buildingValue,
+      propertyType,
+      // The latest quarter is the default, so only older ones are linked
+      period: snapshots && activeSnapshot && snapshotIndex !== snapshots.length - 1 ? activeSnapshot.id : undefined
+    });
+    // The path names the route, and corrects an unknown one
+    window.history.replaceState(null, '', `${route.path}${query ? `?${query}` : ''}`);
+  }, [suburbRestored, viewport, highlightedFeature, metric, filterRanges, filterMode, classificationOptions, view, selectedLga, snapshots, snapshotIndex, activeSnapshot, route.path, valuationModel, propertyType]);
+
+  const listingEvaluation = useMemo(() => {
+    if (!listingInput || !listingFeature) return null;
+    const props = listingFeature.properties;
+    const lgaAverage = props.lga ? lgaAverages.get(props.lga) : undefined;
+    return evaluateListing(
+      listingInput,
+      props.price_sqm,
+      lgaAverage ? lgaAverage.price_sqm : null,
+      matchedProperties.map(matched => matched.price_sqm),
+      valuationModel
+    );
+  }, [listingInput, listingFeature, lgaAverages, matchedProperties, valuationModel]);
+  
+  // The marker sits in the middle of the listing's suburb
+  const listingPosition = useMemo(
+    () => listingEvaluation && listingFeature ? L.geoJSON(listingFeature).getBounds().getCenter() : null,
+    [listingEvaluation, listingFeature]
+  );
+  
+  useEffect(() => {
+    if (listingPosition && listingMarkerRef.current) listingMarkerRef.current.openPopup();
+  }, [listingPosition, listingEvaluation]);
+  
+  const listingSuburbName = listingFeature
+    ? listingFeature.properties.matched_suburb || getFeatureSuburbName(listingFeature.properties)
+    : null;
+  
+  const selectListingSuburb = (feature: any) => {
+    setListingFeature(feature);
+    setListingInput(null);
+    setPickingListing(false);
+  };
+  
+  const suburbSearchIndex = useMemo(() => searchIndex.filter(entry => entry.kind === 'suburb'), [searchIndex]);
+
+  // Runs for the back button as well as the view selector
+  useEffect(() => {
+    if (view === 'lga') {
+      setSelectedLga(null);
+      // Change is only worked out per suburb
+      setChangeMode(false);
+    }
+  }, [view]);
+
+  const onEachLga = (feature: any, layer: any) => {
+    const props = feature.properties;
+    const statisticLabel = props.statistic === 'median' ? 'Median' : 'Mean';
+    const metricRows = METRIC_KEYS.filter(key => PROPERTY_TYPES[propertyType].hasLand || !METRICS[key].needsLand).map(key => {
+      const definition = METRICS[key];
+      const emphasis = key === metric ? ' style="background: #ffffcc;"' : '';
+      const label = key === 'median_price' ? medianPriceLabel(propertyType) : definition.popupLabel;
+      return `<p${emphasis}><strong>${label}:</strong> ${definition.format(props[key])}</p>`;
+    }).join('');
+
+    layer.bindTooltip(`
+      <div class="popup-content">
+        <h3>${escapeHtml(props.lga)}</h3>
+        <p style="color: #777; font-size: 12px;">${statisticLabel} of ${props.priced_suburb_count} priced suburbs (${props.suburb_count} total)</p>
+        ${metricRows}
+        <p style="font-size: 12px;"><em>Click to view suburbs</em></p>
+      </div>
+    `, { sticky: true });
+
+    layer.on({
+      mouseover: (e: any) => {
+        e.target.setStyle({ weight: 4, color: '#222' });
+      },
+      mouseout: (e: any) => {
+        e.target.setStyle(featureStyleRef.current(feature));
+      },
+      click: (e: any) => {
+        drillDownToLga(props.lga, e.target.getBounds());
+      }
+    });
+  };
+
+  // Popup section describing a suburb's movement since the baseline period
+  const changePopupHtml = (feature: any): string => {
+    const change = priceChanges ? priceChanges.get(feature) : undefined;
+    if (!change || !changeBaseline) return '';
+    if (change.status !== 'compared') {
+      return `<p style="color: #d95f0e; font-size: 12px;"><strong>${CHANGE_STATUS_LABELS[change.status]}</strong> (${escapeHtml(changeBaseline.label)}), so no change is shown</p>`;
     }
     
-    return {
-      fillColor: price ? getColor(price) : '#cccccc',
-      weight: 1,
-      opacity: 1,
-      color: 'white',
-      dashArray: '3',
-      fillOpacity: 0.7
-    };
+    const rows = CHANGE_METRICS.map(({ key, label }) => {
+      const metricChange = change.changes[key];
+      const emphasis = key === changeMetric ? ' style="background: #ffffcc;"' : '';
+      return metricChange
+        ? `<p${emphasis}><strong>${label} change:</strong> ${formatChange(metricChange.absolute, 'absolute')} (${formatChange(metricChange.percent, 'percent')})</p>`
+        : `<p${emphasis}><strong>${label} change:</strong> N/A</p>`;
+    }).join('');
+    return `${rows}<p style="color: #777; font-size: 12px;">Since ${escapeHtml(changeBaseline.label)}</p>`;
   };
 
   // Function to handle popup content for each feature
   const onEachFeature = (feature: any, layer: any) => {
     const props = feature.properties;
-    const suburbName = props.vic_loca_2 || props.name || props.VIC_LOCA_2 || '';
+    const suburbName = escapeHtml(getFeatureSuburbName(props));
+    featureLayersRef.current.set(feature, layer);
     
     // Add hover effect
     layer.on({
@@ -275,215 +1283,638 @@ const RealDataMap: React.FC = () => {
         });
       },
       mouseout: (e: any) => {
-        layer.setStyle(featureStyle(feature));
+        layer.setStyle(featureStyleRef.current(feature));
       }
     });
     
-    // Special case for Yarraville
-    if (suburbName.toLowerCase() === 'yarraville') {
-      const popupContent = `
-        <div class="popup-content">
-          <h3>YARRAVILLE</h3>
-          <p><strong>Median House Price:</strong> $1,125,500</p>
-          <p><strong>Estimated Block Size:</strong> 420 sqm</p>
-          <p><strong>Price per sqm:</strong> $2,680</p>
-        </div>
-      `;
-      layer.bindPopup(popupContent);
-      return;
-    }
-    
-    const price = props.price_sqm;
-    
-    if (price) {
-      // Format the price for display - ensure it's a clean number
-      let formattedPrice;
-      try {
-        // Force it to be a number and format with commas
-        formattedPrice = `$${Math.round(Number(price)).toLocaleString()}`;
-      } catch (e) {
-        // Fallback if there's any error in formatting
-        formattedPrice = `$${price}`;
-      }
+    if (props.matched_suburb) {
+      // The metric the map is coloured by is highlighted. Without land only
+      // the price per dwelling means anything.
+      const rowType: PropertyType = props.property_type || 'house';
+      const hasLand = PROPERTY_TYPES[rowType].hasLand;
+      const metricRows = METRIC_KEYS.filter(key => hasLand || !METRICS[key].needsLand).map(key => {
+        const definition = METRICS[key];
+        const emphasis = key === metric ? ' style="background: #ffffcc; font-size: 15px;"' : '';
+        const label = key === 'median_price' ? medianPriceLabel(rowType) : definition.popupLabel;
+        return `<p${emphasis}><strong>${label}:</strong> ${definition.format(props[key])}</p>`;
+      }).join('');
+      const priceBasis = describePriceBasis(rowType, props.price_sources || []);
+      const dwellingHtml = hasLand
+        ? ''
+        : `<p style="color: #777; font-size: 12px;">Price per dwelling: land size doesn't apply to ${PROPERTY_TYPES[rowType].label.toLowerCase()}${priceBasis ? `<br>${priceBasis}` : ''}</p>`;
+      
+      // Why figures are missing or approximate
+      const qualityNotes = [QUALITY_STATUSES[props.quality_status as QualityStatus].explanation, explainMissingValue(props, metric)]
+        .filter(note => note !== null);
+      const qualityHtml = qualityNotes.length > 0
+        ? `<p style="color: #b35806; font-size: 12px;">${qualityNotes.join('<br>')}</p>`
+        : '';
+      
+      // Which lot size and model produced the $/sqm figure
+      const lotSizeSource = props.lot_size_source as keyof typeof LOT_SIZE_SOURCE_LABELS;
+      const lotSizeReference = lotSizeSource === 'suburb'
+        ? props.lot_size_reference
+        : lotSizeSource === 'lga' && mergedSnapshot ? mergedSnapshot.lotSizeSource : null;
+      const methodHtml = lotSizeSource
+        ? `<p style="color: #777; font-size: 12px;">Block size: ${LOT_SIZE_SOURCE_LABELS[lotSizeSource]}${lotSizeReference ? ` (${escapeHtml(lotSizeReference)})` : ''}<br>$/sqm: ${describeModel({ key: props.valuation_model, buildingValue: props.building_value })}</p>`
+        : '';
       
       const popupContent = `
         <div class="popup-content">
           <h3>${suburbName}</h3>
-          <p><strong>Median House Price:</strong> ${props.median_price || 'N/A'}</p>
-          <p><strong>Estimated Block Size:</strong> ${props.block_size || 'N/A'} sqm</p>
-          <p><strong>Price per sqm:</strong> ${formattedPrice}</p>
+          ${metricRows}
+          ${qualityHtml}
+          ${dwellingHtml}
+          ${methodHtml}
+          ${changePopupHtml(feature)}
+          ${props.match_method && props.match_method !== 'exact'
+            ? `<p style="color: #777; font-size: 12px;">Matched to ${escapeHtml(props.matched_suburb)} by ${escapeHtml(props.match_method)} name match (${Math.round(props.match_confidence * 100)}% confidence)</p>`
+            : ''}
+          ${config.prices === 'random'
+            ? '<p style="color: #d95f0e; font-size: 12px;"><strong>Random demo price, not real data</strong></p>'
+            : mergedSnapshot ? `<p style="color: #777; font-size: 12px;">Prices as of ${escapeHtml(mergedSnapshot.label)} (${escapeHtml(mergedSnapshot.priceSource)})</p>` : ''}
+          ${props.override_reason
+            ? `<p style="color: #b35806; font-size: 12px;"><strong>Manually corrected</strong> (${escapeHtml(props.overridden_fields.join(', '))}): ${escapeHtml(props.override_reason)}. Source: ${escapeHtml(props.override_source)}</p>`
+            : ''}
+          <button class="compare-button" style="margin-top: 6px; cursor: pointer;"></button>
         </div>
       `;
       layer.bindPopup(popupContent);
+      
+      // The popup's button reflects whether the suburb is already in the tray
+      layer.on('popupopen', (e: any) => {
+        const button = e.popup.getElement().querySelector('.compare-button');
+        if (!button) return;
+        const compared = comparedFeaturesRef.current;
+        const inTray = compared.includes(feature);
+        button.textContent = inTray ? 'Remove from compare' : 'Add to compare';
+        button.disabled = !inTray && compared.length >= MAX_COMPARED_SUBURBS;
+        button.onclick = () => {
+          toggleCompared(feature);
+          layer.closePopup();
+        };
+      });
+      
     } else {
-      layer.bindPopup(`<div class="popup-content"><h3>${suburbName}</h3><p>No price data available</p></div>`);
+      layer.bindPopup(`<div class="popup-content"><h3>${suburbName}</h3><p>${QUALITY_STATUSES[getQualityStatus(props)].explanation}</p>${changePopupHtml(feature)}</div>`);
     }
+    
+    layer.on({
+      popupopen: () => {
+        openPopupFeatureRef.current = feature;
+      },
+      popupclose: () => {
+        if (openPopupFeatureRef.current === feature) openPopupFeatureRef.current = null;
+      }
+    });
+
+    // Bound after the popup so the popup's own click handler has already run
+    layer.on('click', (e: any) => {
+      if (pickingListingRef.current) {
+        layer.closePopup();
+        selectListingSuburb(feature);
+      } else if (!props.matched_suburb) {
+        return;
+      } else if (e.originalEvent && e.originalEvent.shiftKey) {
+        layer.closePopup();
+        toggleCompared(feature);
+      } else {
+        setHighlightedFeature(feature);
+      }
+    });
   };
 
-  // Event handlers for hover and click effects
+  const onEachOutline = (feature: any, layer: L.Layer) => {
+    layer.bindPopup(`<div class="popup-content"><h3>${escapeHtml(getFeatureSuburbName(feature.properties))}</h3><p>Prices haven't loaded, so there are no figures to show</p></div>`);
+  };
 
-  if (loading) {
-    return (
-      <div style={{ 
-        display: 'flex', 
-        justifyContent: 'center', 
-        alignItems: 'center', 
-        height: '100vh',
-        flexDirection: 'column',
-        gap: '20px'
-      }}>
-        <div style={{ fontSize: '24px', color: '#333' }}>Loading suburb data...</div>
-        <div style={{ fontSize: '16px', color: '#666' }}>This may take a moment as we process the data.</div>
-      </div>
-    );
-  }
-  
-  if (error) {
-    return (
-      <div style={{ 
-        display: 'flex', 
-        justifyContent: 'center', 
-        alignItems: 'center', 
-        height: '100vh',
-        flexDirection: 'column',
-        gap: '20px'
-      }}>
-        <div style={{ fontSize: '24px', color: '#d73027' }}>Error loading data</div>
-        <div style={{ fontSize: '16px', color: '#666' }}>{error}</div>
-      </div>
-    );
-  }
+  // Event handlers for hover and click effects
 
   return (
-    <div style={{ position: 'relative', width: '100%', height: '100vh' }}>
-      {/* Title */}
-      <div style={{
-        position: 'absolute',
-        top: '10px',
-        left: '50%',
-        transform: 'translateX(-50%)',
-        zIndex: 1000,
-        background: 'rgba(255,255,255,0.9)',
-        padding: '10px 20px',
-        borderRadius: '5px',
-        boxShadow: '0 0 15px rgba(0,0,0,0.2)',
-        maxWidth: '90%',
-        textAlign: 'center'
-      }}>
-        <h1 style={{ margin: 0, fontSize: '24px' }}>Melbourne Land Valuation Map</h1>
-      </div>
+    <div style={{ display: 'flex', width: '100%', height: '100vh' }}>
+      <HatchPatterns />
+      <div style={{ position: 'relative', flex: 1, minWidth: 0, height: '100vh' }}>
+        {/* Title */}
+        <div style={{
+          position: 'absolute',
+          top: '10px',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          zIndex: 1000,
+          background: 'rgba(255,255,255,0.9)',
+          padding: '10px 20px',
+          borderRadius: '5px',
+          boxShadow: '0 0 15px rgba(0,0,0,0.2)',
+          maxWidth: '90%',
+          textAlign: 'center'
+        }}>
+          <h1 style={{ margin: 0, fontSize: '24px', color: config.prices === 'random' ? '#d95f0e' : undefined }}>{config.title}</h1>
+        </div>
       
-      {/* Sources Button */}
-      <div style={{
-        position: 'absolute',
-        top: '10px',
-        right: '10px',
-        zIndex: 1000
-      }}>
-        <button 
-          onClick={() => setShowSources(!showSources)}
-          style={{
-            backgroundColor: '#fff',
-            border: '2px solid rgba(0,0,0,0.2)',
-            borderRadius: '4px',
-            padding: '5px 10px',
-            cursor: 'pointer',
-            fontSize: '16px',
-            fontWeight: 'bold',
-            boxShadow: '0 1px 5px rgba(0,0,0,0.4)'
-          }}
-        >
-          ℹ️ Sources
-        </button>
-        
-      </div>
+        {/* Search */}
+        <div style={{
+          position: 'absolute',
+          top: '10px',
+          left: '60px',
+          zIndex: 1001
+        }}>
+          <SuburbSearch index={searchIndex} onSelect={handleSearchSelect} />
+        </div>
       
-      {/* Sources Popup */}
-      {showSources && (
+        {/* Sources and table buttons */}
         <div style={{
           position: 'absolute',
-          top: '50px',
+          top: '10px',
           right: '10px',
-          backgroundColor: 'white',
-          border: '2px solid rgba(0,0,0,0.2)',
-          borderRadius: '5px',
-          padding: '15px',
-          boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
           zIndex: 1000,
-          maxWidth: '350px'
+          display: 'flex',
+          gap: '8px'
         }}>
-          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '10px' }}>
-            <h3 style={{ margin: '0' }}>Sources:</h3>
-            <button 
-              onClick={() => setShowSources(false)}
-              style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '16px' }}
-            >
-              ✕
-            </button>
-          </div>
-          <ul style={{ paddingLeft: '20px', margin: '0' }}>
-            <li>Median house prices as of March 2025 (REIV)</li>
-            <li>Estimated lot sizes based on average for Local Government Areas (Department of Transport & Planning)</li>
-          </ul>
+          <PriceSourceSelector prices={config.prices} layer={view} onNavigate={onNavigate} />
+          <button
+            onClick={() => setShowTable(!showTable)}
+            aria-pressed={showTable}
+            style={{
+              backgroundColor: showTable ? '#e8f4fc' : '#fff',
+              border: '2px solid rgba(0,0,0,0.2)',
+              borderRadius: '4px',
+              padding: '5px 10px',
+              cursor: 'pointer',
+              fontSize: '16px',
+              fontWeight: 'bold',
+              boxShadow: '0 1px 5px rgba(0,0,0,0.4)'
+            }}
+          >
+            ☰ Table
+          </button>
+          <button 
+            onClick={() => setShowSources(!showSources)}
+            style={{
+              backgroundColor: '#fff',
+              border: '2px solid rgba(0,0,0,0.2)',
+              borderRadius: '4px',
+              padding: '5px 10px',
+              cursor: 'pointer',
+              fontSize: '16px',
+              fontWeight: 'bold',
+              boxShadow: '0 1px 5px rgba(0,0,0,0.4)'
+            }}
+          >
+            ℹ️ Sources
+          </button>
+        
         </div>
-      )}
-
-      {/* No filter toggle - showing all suburbs by default */}
-
-      {/* Map */}
-      <div style={{ height: '100vh', width: '100%' }}>
-        <MapContainer
-          center={[-37.8136, 144.9631]} // Melbourne center coordinates
-          zoom={11}
-          style={{ height: '100%', width: '100%' }}
-          maxZoom={18}
-        >
-          <TileLayer
-            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-          />
-          {geoJSONData && (
-            <GeoJSON 
-              data={geoJSONData} 
-              style={featureStyle}
-              onEachFeature={onEachFeature}
-            />
-          )}
-          
-          {/* Legend */}
-          <div className="legend" style={{
-            padding: '10px',
-            background: 'rgba(255,255,255,0.9)',
-            boxShadow: '0 0 15px rgba(0,0,0,0.2)',
-            borderRadius: '5px',
+      
+        {/* Sources Popup */}
+        {showSources && (
+          <div style={{
             position: 'absolute',
-            bottom: '20px',
+            top: '50px',
             right: '10px',
+            backgroundColor: 'white',
+            border: '2px solid rgba(0,0,0,0.2)',
+            borderRadius: '5px',
+            padding: '15px',
+            boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
             zIndex: 1000,
-            lineHeight: '18px',
-            color: '#555',
-            maxWidth: '200px'
+            maxWidth: '350px'
           }}>
-            <h4 style={{ margin: '0 0 10px', color: '#333', fontSize: '16px' }}>Price per sqm</h4>
-            <div style={{ display: 'flex', flexDirection: 'column', gap: '5px' }}>
-              <div><i style={{ background: '#1a9850', display: 'inline-block', width: '18px', height: '18px', marginRight: '8px', border: '1px solid #444' }}></i> Under $3,000</div>
-              <div><i style={{ background: '#91cf60', display: 'inline-block', width: '18px', height: '18px', marginRight: '8px', border: '1px solid #444' }}></i> $3,000 - $4,000</div>
-              <div><i style={{ background: '#d9ef8b', display: 'inline-block', width: '18px', height: '18px', marginRight: '8px', border: '1px solid #444' }}></i> $4,000 - $5,000</div>
-              <div><i style={{ background: '#fee08b', display: 'inline-block', width: '18px', height: '18px', marginRight: '8px', border: '1px solid #444' }}></i> $5,000 - $6,000</div>
-              <div><i style={{ background: '#fc8d59', display: 'inline-block', width: '18px', height: '18px', marginRight: '8px', border: '1px solid #444' }}></i> $6,000 - $7,000</div>
-              <div><i style={{ background: '#d73027', display: 'inline-block', width: '18px', height: '18px', marginRight: '8px', border: '1px solid #444' }}></i> $7,000 - $8,000</div>
-              <div><i style={{ background: '#bd0026', display: 'inline-block', width: '18px', height: '18px', marginRight: '8px', border: '1px solid #444' }}></i> $8,000 - $9,000</div>
-              <div><i style={{ background: '#800026', display: 'inline-block', width: '18px', height: '18px', marginRight: '8px', border: '1px solid #444' }}></i> $9,000+</div>
-              <div><i style={{ background: '#cccccc', display: 'inline-block', width: '18px', height: '18px', marginRight: '8px', border: '1px solid #444' }}></i> No data</div>
-              <div style={{ marginTop: '10px', fontSize: '12px', fontStyle: 'italic' }}>
-                Matched: {matchedCount} of {suburbData.length} suburbs
-              </div>
+            <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '10px' }}>
+              <h3 style={{ margin: '0' }}>Sources:</h3>
+              <button 
+                onClick={() => setShowSources(false)}
+                style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '16px' }}
+              >
+                ✕
+              </button>
             </div>
+            <ul style={{ paddingLeft: '20px', margin: '0' }}>
+              {config.prices === 'random' && (
+                <li>Prices are random demo values drawn for each suburb, not real data</li>
+              )}
+              {config.prices === 'snapshots' && mergedSnapshot && (
+                <>
+                  <li>Median house prices as of {mergedSnapshot.label} ({mergedSnapshot.priceSource})</li>
+                  {lotSizeSummary.counts.suburb > 0 && (
+                    <li>
+                      Suburb median lot sizes for {lotSizeSummary.counts.suburb} suburbs
+                      {lotSizeSummary.references.length > 0 && ` (${lotSizeSummary.references.join(', ')})`}
+                    </li>
+                  )}
+                  {lotSizeSummary.counts.lga > 0 && (
+                    <li>
+                      {lotSizeSummary.counts.suburb > 0 ? 'Elsewhere, estimated' : 'Estimated'} lot sizes based on average
+                      for Local Government Areas ({mergedSnapshot.lotSizeSource})
+                    </li>
+                  )}
+                </>
+              )}
+              {(['prices', 'boundaries'] as DataSourceKey[]).map(key => {
+                const origin = dataOrigins[key];
+                if (!origin) return null;
+                return (
+                  <li key={key}>
+                    {key === 'prices' ? 'Latest prices' : 'Suburb boundaries'} from the {DATA_ORIGIN_LABELS[origin.origin]}
+                    {origin.fetchedAt !== null && ` (fetched ${new Date(origin.fetchedAt).toLocaleString()})`}
+                  </li>
+                );
+              })}
+              {snapshots && snapshots.length > 1 && (
+                <li>Quarterly snapshots from {snapshots[0].label} to {snapshots[snapshots.length - 1].label}</li>
+              )}
+            </ul>
+          </div>
+        )}
+
+        {/* View and metric selectors */}
+        <div style={{
+          position: 'absolute',
+          top: '70px',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          zIndex: 1000
+        }}>
+          <div style={{ display: 'flex', gap: '10px', justifyContent: 'center' }}>
+            <ViewSelector
+              view={view}
+              onViewChange={setView}
+              statistic={lgaStatistic}
+              onStatisticChange={setLgaStatistic}
+            />
+            <PropertyTypeSelector propertyType={propertyType} onPropertyTypeChange={handlePropertyTypeChange} />
+            <MetricSelector
+              metric={metric}
+              onMetricChange={handleMetricChange}
+              landMetrics={PROPERTY_TYPES[propertyType].hasLand}
+            />
           </div>
+          {snapshots && snapshots.length > 1 && (
+            <div style={{ marginTop: '8px', display: 'flex', justifyContent: 'center' }}>
+              <TimeSlider
+                snapshots={snapshots}
+                activeIndex={snapshotIndex}
+                onChange={index => {
+                  setPlaying(false);
+                  setSnapshotIndex(index);
+                }}
+                playing={playing}
+                onPlayingChange={handlePlayingChange}
+                loading={mergedSnapshot !== activeSnapshot}
+                failed={failedSnapshot !== null && failedSnapshot === activeSnapshot}
+              />
+            </div>
+          )}
+          {(progress || (!geoJSONData && !loadFailed)) && (
+            <div style={{ marginTop: '8px', textAlign: 'center', fontSize: '14px' }} role="status">
+              {progress ? describeProgress(progress) : 'Loading suburb data...'}
+            </div>
+          )}
+          {view === 'lga' && geoJSONData && (!lgaData || dissolveError) && (
+            <div style={{ marginTop: '8px', textAlign: 'center', fontSize: '14px', color: dissolveError ? '#d73027' : undefined }}>
+              {dissolveError ? `Council boundaries couldn't be built: ${dissolveError}` : 'Building council boundaries...'}
+            </div>
+          )}
+          {view === 'suburbs' && selectedLga && (
+            <div style={{
+              marginTop: '8px',
+              background: 'rgba(255,255,255,0.9)',
+              borderRadius: '5px',
+              boxShadow: '0 0 15px rgba(0,0,0,0.2)',
+              padding: '5px 10px',
+              fontSize: '14px',
+              textAlign: 'center'
+            }}>
+              Suburbs in <strong>{selectedLga}</strong>{' '}
+              <button onClick={() => setSelectedLga(null)} style={linkButtonStyle}>Show all</button>{' · '}
+              <button onClick={() => setView('lga')} style={linkButtonStyle}>Back to councils</button>
+            </div>
+          )}
+        </div>
+
+        {/* Filters */}
+        <div style={{
+          position: 'absolute',
+          top: '80px',
+          left: '10px',
+          zIndex: 1000,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'flex-start',
+          gap: '8px'
+        }}>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            aria-expanded={showFilters}
+            style={{
+              backgroundColor: '#fff',
+              border: '2px solid rgba(0,0,0,0.2)',
+              borderRadius: '4px',
+              padding: '5px 10px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: 'bold',
+              boxShadow: '0 1px 5px rgba(0,0,0,0.4)'
+            }}
+          >
+            {filterActive ? `Filter (${inRangeCount})` : 'Filter'}
+          </button>
+          {showFilters && (
+            <div style={{
+              background: 'rgba(255,255,255,0.95)',
+              borderRadius: '5px',
+              boxShadow: '0 0 15px rgba(0,0,0,0.2)',
+              padding: '10px 15px',
+              width: '280px'
+            }}>
+              <FilterPanel
+                bounds={filterBounds}
+                ranges={filterRanges}
+                onRangeChange={(key, range) => setFilterRanges(ranges => updateFilterRange(ranges, key, range, filterBounds))}
+                mode={filterMode}
+                onModeChange={setFilterMode}
+                inRangeCount={inRangeCount}
+                onReset={() => setFilterRanges({})}
+              />
+            </div>
+          )}
+          <button
+            onClick={toggleChangeMode}
+            aria-pressed={changeMode}
+            style={{
+              backgroundColor: changeMode ? '#e8f4fc' : '#fff',
+              border: '2px solid rgba(0,0,0,0.2)',
+              borderRadius: '4px',
+              padding: '5px 10px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: 'bold',
+              boxShadow: '0 1px 5px rgba(0,0,0,0.4)'
+            }}
+          >
+            Change
+          </button>
+          <button
+            onClick={() => {
+              setShowEvaluator(!showEvaluator);
+              setPickingListing(false);
+            }}
+            aria-expanded={showEvaluator}
+            style={{
+              backgroundColor: '#fff',
+              border: '2px solid rgba(0,0,0,0.2)',
+              borderRadius: '4px',
+              padding: '5px 10px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: 'bold',
+              boxShadow: '0 1px 5px rgba(0,0,0,0.4)'
+            }}
+          >
+            Listing
+          </button>
+          {showEvaluator && (
+            <div style={{
+              background: 'rgba(255,255,255,0.95)',
+              borderRadius: '5px',
+              boxShadow: '0 0 15px rgba(0,0,0,0.2)',
+              padding: '10px 15px',
+              width: '280px'
+            }}>
+              <ListingEvaluator
+                searchIndex={suburbSearchIndex}
+                suburbName={listingSuburbName}
+                lga={listingFeature ? listingFeature.properties.lga || null : null}
+                onSuburbSelect={selectListingSuburb}
+                picking={pickingListing}
+                onPickingChange={picking => {
+                  setPickingListing(picking);
+                  if (picking) setView('suburbs');
+                }}
+                onEvaluate={setListingInput}
+                evaluation={listingEvaluation}
+                message={listingFeature && !isDataValue(listingFeature.properties.price_sqm)
+                  ? `${listingSuburbName} has no $/sqm data, so only the comparison with all suburbs is available`
+                  : null}
+                onClear={() => setListingInput(null)}
+              />
+            </div>
+          )}
+          {changeMode && mergedSnapshot && snapshots && (
+            <div style={{
+              background: 'rgba(255,255,255,0.95)',
+              borderRadius: '5px',
+              boxShadow: '0 0 15px rgba(0,0,0,0.2)',
+              padding: '10px 15px',
+              width: '280px'
+            }}>
+              <ChangeControls
+                snapshots={snapshots.filter(snapshot => snapshot !== mergedSnapshot)}
+                currentLabel={mergedSnapshot.label}
+                baselineId={changeBaseline ? changeBaseline.id : null}
+                baselineLabel={changeBaseline ? changeBaseline.label : null}
+                onBaselineSnapshot={selectBaselineSnapshot}
+                onBaselineFile={selectBaselineFile}
+                metric={changeMetric}
+                onMetricChange={setChangeMetric}
+                unit={changeUnit}
+                onUnitChange={setChangeUnit}
+                error={changeError}
+              />
+              {pendingWorkbook && (
+                <WorkbookImport
+                  key={pendingWorkbook.name}
+                  fileName={pendingWorkbook.name}
+                  workbook={pendingWorkbook.workbook}
+                  onImport={importBaselineWorkbook}
+                  onCancel={() => setPendingWorkbook(null)}
+                />
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Map */}
+        <div style={{ height: '100vh', width: '100%' }}>
+          <MapContainer
+            ref={mapRef}
+            center={viewport.center}
+            zoom={viewport.zoom}
+            style={{ height: '100%', width: '100%' }}
+            maxZoom={18}
+          >
+            <MapViewTracker onViewChange={(center, zoom) => setViewport({ center, zoom })} />
+            <TileLayer
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            />
+            {view === 'lga' && lgaData && (
+              <GeoJSON
+                key={`lga-${metric}-${lgaStatistic}`}
+                data={lgaData}
+                style={lgaStyle}
+                onEachFeature={onEachLga}
+              />
+            )}
+            {view === 'suburbs' && geoJSONData && (
+              <GeoJSON 
+                // Remount on metric, snapshot or baseline change so popups are rebuilt
+                key={`${metric}-${mergeCount}-${priceChanges && changeBaseline ? changeBaseline.label : ''}-${changeMetric}`}
+                data={geoJSONData} 
+                style={featureStyle}
+                onEachFeature={onEachFeature}
+              />
+            )}
+            {view === 'suburbs' && !geoJSONData && outlineData && (
+              <GeoJSON
+                key={`outline-${boundariesKey}`}
+                data={outlineData}
+                style={OUTLINE_STYLE}
+                onEachFeature={onEachOutline}
+              />
+            )}
           
-          {/* No custom control needed */}
-        </MapContainer>
+            {listingEvaluation && listingPosition && (
+              <Marker position={listingPosition} ref={listingMarkerRef}>
+                <Popup>
+                  <div className="popup-content">
+                    <h3>Listing in {listingSuburbName}</h3>
+                    <p><strong>Asking price:</strong> {METRICS.median_price.format(listingEvaluation.askingPrice)}</p>
+                    <p><strong>Land size:</strong> {METRICS.block_size.format(listingEvaluation.landSize)}</p>
+                    <p style={{ background: '#ffffcc', fontSize: '15px' }}>
+                      <strong>{listingEvaluation.model === 'land-residual' ? 'Land value per sqm' : 'Price per sqm'}:</strong> {METRICS.price_sqm.format(listingEvaluation.pricePerSqm)}
+                    </p>
+                    <p><strong>vs suburb:</strong> {describeDifference(listingEvaluation.vsSuburb)} ({METRICS.price_sqm.format(listingEvaluation.suburbPricePerSqm)})</p>
+                    <p><strong>vs LGA average:</strong> {describeDifference(listingEvaluation.vsLga)} ({METRICS.price_sqm.format(listingEvaluation.lgaPricePerSqm)})</p>
+                    {listingEvaluation.percentile !== null && (
+                      <p>Dearer than {Math.round(listingEvaluation.percentile)}% of suburbs</p>
+                    )}
+                  </div>
+                </Popup>
+              </Marker>
+            )}
+            
+            {/* Legend */}
+            {priceChanges && changeClassification && changeBaseline ? (
+              <Legend
+                title={`${CHANGE_METRICS.find(option => option.key === changeMetric)!.label} change since ${changeBaseline.label}`}
+                classification={changeClassification}
+                format={value => formatChange(value, changeUnit)}
+              >
+                {unchangedCount > 0 && (
+                  <div className="legend-item">
+                    <i style={{
+                      display: 'inline-block',
+                      width: '18px',
+                      height: '18px',
+                      marginRight: '8px',
+                      border: '1px solid #444',
+                      background: NO_CHANGE_COLOR,
+                      verticalAlign: 'middle',
+                      boxSizing: 'border-box'
+                    }}></i>
+                    <span>No change</span>
+                    <span className="legend-count">{unchangedCount}</span>
+                  </div>
+                )}
+                {missingPeriodCount > 0 && (
+                  <div className="legend-item">
+                    <i style={{
+                      display: 'inline-block',
+                      width: '18px',
+                      height: '18px',
+                      marginRight: '8px',
+                      border: '2px dashed #d95f0e',
+                      background: MISSING_PERIOD_COLOR,
+                      verticalAlign: 'middle',
+                      boxSizing: 'border-box'
+                    }}></i>
+                    <span>Missing from one period</span>
+                    <span className="legend-count">{missingPeriodCount}</span>
+                  </div>
+                )}
+              </Legend>
+            ) : (
+              <Legend
+                title={legendTitle}
+                classification={classification}
+                format={activeMetric.format}
+                noDataCount={view === 'suburbs' && classification ? classification.noDataCount - hatchedCount : undefined}
+              >
+                {view === 'suburbs' && <QualityLegend counts={qualityCounts} showEstimates={activeMetric.needsLand} />}
+                <div style={{ marginTop: '10px' }}>
+                  <ClassificationControls
+                    options={classificationOptions}
+                    onOptionsChange={setClassificationOptions}
+                  />
+                </div>
+                {PROPERTY_TYPES[propertyType].hasLand && (
+                  <div style={{ marginTop: '10px' }}>
+                    <ValuationModelControls model={valuationModel} onModelChange={setValuationModel} />
+                  </div>
+                )}
+                <div style={{ marginTop: '10px', fontSize: '12px', fontStyle: 'italic' }}>
+                  <button
+                    onClick={() => { setShowUnmatched(!showUnmatched); setShowIssues(false); }}
+                    title="Show suburbs that did not match"
+                    style={linkButtonStyle}
+                  >
+                    Matched: {joinSummary ? joinSummary.matchedRowCount : 0} of {joinSummary ? joinSummary.rowCount : 0} suburbs
+                  </button>
+                </div>
+                {dataIssues.length > 0 && (
+                  <div style={{ fontSize: '12px', fontStyle: 'italic' }}>
+                    <button
+                      onClick={() => { setShowIssues(!showIssues); setShowUnmatched(false); }}
+                      title="Show data problems found while loading"
+                      style={linkButtonStyle}
+                    >
+                      {dataIssues.length} data {dataIssues.length === 1 ? 'issue' : 'issues'}
+                    </button>
+                  </div>
+                )}
+              </Legend>
+            )}
+          
+            {/* No custom control needed */}
+          </MapContainer>
+        </div>
+
+        {comparedFeatures.length > 0 && (
+          <ComparisonTray
+            items={comparedFeatures.map(feature => feature.properties)}
+            lgaAverages={lgaAverages}
+            onRemove={index => setComparedFeatures(current => current.filter((_, i) => i !== index))}
+            onClear={() => setComparedFeatures([])}
+          />
+        )}
+
+        {showUnmatched && joinSummary && (
+          <UnmatchedReport
+            unmatchedRows={joinSummary.unmatchedRows}
+            unmatchedFeatures={joinSummary.unmatchedFeatures}
+            onClose={() => setShowUnmatched(false)}
+          />
+        )}
+
+        {showIssues && (
+          <DataIssuesPanel
+            issues={dataIssues}
+            onClose={() => setShowIssues(false)}
+          />
+        )}
+
+        <LoadErrorBanner loads={loads} onRetry={handleRetry} />
       </div>
+
+      {showTable && geoJSONData && (
+        <RankingTable
+          features={geoJSONData.features}
+          selectedFeature={highlightedFeature}
+          onRowHover={handleRowHover}
+          onRowClick={focusFeature}
+          onClose={() => setShowTable(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,94 @@
+import React from 'react';
+import { CHANGE_METRICS, CHANGE_UNITS, ChangeMetricKey, ChangeUnit } from '../utils/priceChange';
+import { Snapshot } from '../utils/snapshots';
+
+// Value of the baseline select when the baseline came from an uploaded file
+export const FILE_BASELINE = 'file';
+
+interface ChangeControlsProps {
+  // Snapshots that can be compared against the one on the map
+  snapshots: Snapshot[];
+  currentLabel: string;
+  baselineId: string | null;
+  baselineLabel: string | null;
+  onBaselineSnapshot: (id: string) => void;
+  onBaselineFile: (file: File) => void;
+  metric: ChangeMetricKey;
+  onMetricChange: (metric: ChangeMetricKey) => void;
+  unit: ChangeUnit;
+  onUnitChange: (unit: ChangeUnit) => void;
+  error: string | null;
+}
+
+const ChangeControls: React.FC<ChangeControlsProps> = ({
+  snapshots,
+  currentLabel,
+  baselineId,
+  baselineLabel,
+  onBaselineSnapshot,
+  onBaselineFile,
+  metric,
+  onMetricChange,
+  unit,
+  onUnitChange,
+  error
+}) => {
+  return (
+    <div className="change-controls" style={{ fontSize: '14px' }}>
+      <h3 style={{ margin: '0 0 8px', fontSize: '16px' }}>Price change</h3>
+      <label style={{ display: 'block', marginBottom: '8px' }}>
+        Compare {currentLabel} with{' '}
+        <select
+          value={baselineId || ''}
+          onChange={e => onBaselineSnapshot(e.target.value)}
+          aria-label="Earlier period"
+        >
+          {!baselineId && <option value="">Choose a period</option>}
+          {snapshots.map(snapshot => (
+            <option key={snapshot.id} value={snapshot.id}>{snapshot.label}</option>
+          ))}
+          {baselineId === FILE_BASELINE && <option value={FILE_BASELINE}>{baselineLabel}</option>}
+        </select>
+      </label>
+      <label style={{ display: 'block', marginBottom: '8px', fontSize: '12px' }}>
+        or an earlier price CSV or workbook:{' '}
+        <input
+          type="file"
+          accept=".csv,text/csv,.xlsx,.xls"
+          onChange={e => {
+            const file = e.target.files && e.target.files[0];
+            if (file) onBaselineFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+      <div style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
+        <select
+          value={metric}
+          onChange={e => onMetricChange(e.target.value as ChangeMetricKey)}
+          aria-label="Change in"
+        >
+          {CHANGE_METRICS.map(option => (
+            <option key={option.key} value={option.key}>{option.label}</option>
+          ))}
+        </select>
+        <div role="radiogroup" aria-label="Change as" style={{ display: 'flex', gap: '6px' }}>
+          {CHANGE_UNITS.map(option => (
+            <label key={option.key}>
+              <input
+                type="radio"
+                name="change-unit"
+                checked={unit === option.key}
+                onChange={() => onUnitChange(option.key)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      </div>
+      {error && <p style={{ color: '#d73027', margin: '8px 0 0', fontSize: '12px' }}>{error}</p>}
+    </div>
+  );
+};
+
+export default ChangeControls;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import {
+  CLASSIFICATION_SCHEMES,
+  ClassificationOptions,
+  ClassificationScheme,
+  MAX_CLASSES,
+  MIN_CLASSES
+} from '../utils/classification';
+
+interface ClassificationControlsProps {
+  options: ClassificationOptions;
+  onOptionsChange: (options: ClassificationOptions) => void;
+}
+
+const classCounts: number[] = [];
+for (let count = MIN_CLASSES; count <= MAX_CLASSES; count++) classCounts.push(count);
+
+const parseBreaks = (text: string): number[] =>
+  text
+    .split(',')
+    .map(part => Number(part.replace(/[$,\s]/g, '')))
+    .filter(value => !isNaN(value) && value > 0);
+
+const ClassificationControls: React.FC<ClassificationControlsProps> = ({ options, onOptionsChange }) => {
+  const manualBreaks = options.manualBreaks || [];
+  const [breaksText, setBreaksText] = useState(manualBreaks.join(', '));
+
+  // Keep the text box in step when the breaks change elsewhere (e.g. metric switch)
+  useEffect(() => {
+    setBreaksText((options.manualBreaks || []).join(', '));
+  }, [options.manualBreaks]);
+
+  const applyBreaksText = () => {
+    const breaks = parseBreaks(breaksText);
+    if (breaks.length > 0) {
+      onOptionsChange({ ...options, manualBreaks: breaks });
+    } else {
+      setBreaksText(manualBreaks.join(', '));
+    }
+  };
+
+  return (
+    <div className="classification-controls" style={{ display: 'flex', flexDirection: 'column', gap: '5px', fontSize: '13px' }}>
+      <label>
+        Classes{' '}
+        <select
+          value={options.scheme}
+          onChange={e => onOptionsChange({ ...options, scheme: e.target.value as ClassificationScheme })}
+        >
+          {CLASSIFICATION_SCHEMES.map(scheme => (
+            <option key={scheme.key} value={scheme.key}>{scheme.label}</option>
+          ))}
+        </select>
+      </label>
+      {options.scheme === 'manual' ? (
+        <label>
+          Breaks{' '}
+          <input
+            type="text"
+            value={breaksText}
+            onChange={e => setBreaksText(e.target.value)}
+            onBlur={applyBreaksText}
+            onKeyDown={e => { if (e.key === 'Enter') applyBreaksText(); }}
+            style={{ width: '100%' }}
+          />
+        </label>
+      ) : (
+        <label>
+          Number of classes{' '}
+          <select
+            value={options.classCount}
+            onChange={e => onOptionsChange({ ...options, classCount: Number(e.target.value) })}
+          >
+            {classCounts.map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ClassificationControls;
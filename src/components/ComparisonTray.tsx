@@ -0,0 +1,122 @@
+import React from 'react';
+import { isDataValue } from '../utils/classification';
+import { mean } from '../utils/lgaAggregation';
+import { METRIC_KEYS, METRICS, MetricKey } from '../utils/metrics';
+import { getFeatureSuburbName } from '../utils/suburbMatcher';
+
+export const MAX_COMPARED_SUBURBS = 6;
+
+interface ComparisonTrayProps {
+  // Properties of the compared suburb features, in the order they were added
+  items: { [key: string]: any }[];
+  lgaAverages: Map<string, Record<MetricKey, number | null>>;
+  onRemove: (index: number) => void;
+  onClear: () => void;
+}
+
+const percentDifference = (value: number | null | undefined, average: number | null | undefined): string => {
+  if (!isDataValue(value) || !isDataValue(average)) return '–';
+  const difference = Math.round(((value - average) / average) * 100);
+  if (difference === 0) return '±0%';
+  return `${difference > 0 ? '+' : ''}${difference}%`;
+};
+
+const differenceColor = (value: number | null | undefined, average: number | null | undefined): string => {
+  if (!isDataValue(value) || !isDataValue(average) || value === average) return '#777';
+  return value > average ? '#d73027' : '#1a9850';
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  borderBottom: '1px solid #eee',
+  verticalAlign: 'top',
+  textAlign: 'right'
+};
+
+const ComparisonTray: React.FC<ComparisonTrayProps> = ({ items, lgaAverages, onRemove, onClear }) => {
+  const groupAverages = {} as Record<MetricKey, number | null>;
+  const rowMaximums = {} as Record<MetricKey, number>;
+  METRIC_KEYS.forEach(key => {
+    const values = items.map(item => item[key]).filter(isDataValue);
+    groupAverages[key] = mean(values);
+    rowMaximums[key] = values.length ? Math.max(...values) : 0;
+  });
+
+  return (
+    <div className="comparison-tray" style={{
+      position: 'absolute',
+      bottom: '20px',
+      left: '10px',
+      zIndex: 1000,
+      background: 'rgba(255,255,255,0.95)',
+      borderRadius: '5px',
+      boxShadow: '0 0 15px rgba(0,0,0,0.2)',
+      padding: '10px 15px',
+      maxWidth: 'calc(100% - 260px)',
+      overflowX: 'auto'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px', gap: '20px' }}>
+        <h3 style={{ margin: 0, fontSize: '16px' }}>Compare suburbs ({items.length}/{MAX_COMPARED_SUBURBS})</h3>
+        <button onClick={onClear} style={{ cursor: 'pointer' }}>Clear</button>
+      </div>
+      <table style={{ borderCollapse: 'collapse', fontSize: '13px' }}>
+        <thead>
+          <tr>
+            <th style={{ ...cellStyle, textAlign: 'left' }}></th>
+            {items.map((item, index) => (
+              <th key={`${getFeatureSuburbName(item)}-${index}`} style={{ ...cellStyle, minWidth: '110px' }}>
+                <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '6px' }}>
+                  <span>{getFeatureSuburbName(item)}</span>
+                  <button
+                    onClick={() => onRemove(index)}
+                    aria-label={`Remove ${getFeatureSuburbName(item)} from comparison`}
+                    style={{ background: 'none', border: 'none', cursor: 'pointer', padding: 0 }}
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div style={{ fontWeight: 'normal', color: '#777', fontSize: '11px' }}>{item.lga}</div>
+              </th>
+            ))}
+            <th style={{ ...cellStyle, color: '#777' }}>Group average</th>
+          </tr>
+        </thead>
+        <tbody>
+          {METRIC_KEYS.map(key => {
+            const definition = METRICS[key];
+            return (
+              <tr key={key}>
+                <th style={{ ...cellStyle, textAlign: 'left' }}>{definition.label}</th>
+                {items.map((item, index) => {
+                  const value = item[key];
+                  const lgaAverage = item.lga ? (lgaAverages.get(item.lga) || {} as Record<MetricKey, number | null>)[key] : null;
+                  const barWidth = isDataValue(value) && rowMaximums[key] > 0 ? (value / rowMaximums[key]) * 100 : 0;
+                  return (
+                    <td key={index} style={cellStyle}>
+                      <div style={{ fontWeight: 'bold' }}>{definition.format(value)}</div>
+                      <div style={{ height: '6px', background: '#eee', margin: '3px 0' }}>
+                        <div style={{ height: '100%', width: `${barWidth}%`, background: '#3498db', marginLeft: 'auto' }}></div>
+                      </div>
+                      <div style={{ fontSize: '11px', color: differenceColor(value, groupAverages[key]) }}>
+                        {percentDifference(value, groupAverages[key])} vs group
+                      </div>
+                      <div style={{ fontSize: '11px', color: differenceColor(value, lgaAverage) }}>
+                        {percentDifference(value, lgaAverage)} vs LGA
+                      </div>
+                    </td>
+                  );
+                })}
+                <td style={{ ...cellStyle, color: '#777' }}>{definition.format(groupAverages[key])}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p style={{ margin: '6px 0 0', fontSize: '11px', color: '#777' }}>
+        Shift-click a suburb, or use “Add to compare” in its popup.
+      </p>
+    </div>
+  );
+};
+
+export default ComparisonTray;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { DatasetIssue } from '../utils/suburbDataLoader';
+
+interface DataIssuesPanelProps {
+  issues: DatasetIssue[];
+  onClose: () => void;
+}
+
+const severityColors = {
+  error: '#d73027',
+  warning: '#b35806'
+};
+
+const DataIssuesPanel: React.FC<DataIssuesPanelProps> = ({ issues, onClose }) => {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+  return (
+    <div className="data-issues-panel" style={{
+      position: 'absolute',
+      bottom: '20px',
+      right: '220px',
+      backgroundColor: 'white',
+      border: '2px solid rgba(0,0,0,0.2)',
+      borderRadius: '5px',
+      padding: '15px',
+      boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
+      zIndex: 1000,
+      width: '360px'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '10px' }}>
+        <h3 style={{ margin: '0' }}>Data issues</h3>
+        <button
+          onClick={onClose}
+          aria-label="Close data issues"
+          style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '16px' }}
+        >
+          ✕
+        </button>
+      </div>
+      <p style={{ margin: '0 0 10px', fontSize: '13px', color: '#666' }}>
+        {errorCount} {errorCount === 1 ? 'error' : 'errors'} (rows left off the map),{' '}
+        {issues.length - errorCount} {issues.length - errorCount === 1 ? 'warning' : 'warnings'}
+      </p>
+      <ul style={{ maxHeight: '260px', overflowY: 'auto', paddingLeft: '20px', margin: '0', fontSize: '13px' }}>
+        {issues.map((issue, index) => (
+          <li key={index} style={{ marginBottom: '4px' }}>
+            <span style={{ color: severityColors[issue.severity], fontWeight: 'bold' }}>
+              {issue.severity === 'error' ? 'Error' : 'Warning'}
+            </span>
+            {issue.rowNumber !== null && <span style={{ color: '#777' }}> · row {issue.rowNumber}</span>}
+            {issue.suburb && <span> · {issue.suburb}</span>}
+            {issue.column && <span style={{ color: '#777' }}> · {issue.column}</span>}
+            <div>{issue.message}</div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DataIssuesPanel;
@@ -1,53 +1,89 @@
 import React from 'react';
 import Slider from 'rc-slider';
 import 'rc-slider/assets/index.css';
+import { FilterMode, FilterRanges, MetricBounds } from '../utils/filters';
+import { METRIC_KEYS, METRICS, MetricKey } from '../utils/metrics';
 
 interface FilterPanelProps {
-  minPrice: number;
-  maxPrice: number;
-  currentRange: [number, number];
-  onRangeChange: (range: [number, number]) => void;
+  // Slider limits per metric, from the loaded data
+  bounds: MetricBounds;
+  ranges: FilterRanges;
+  onRangeChange: (metric: MetricKey, range: [number, number]) => void;
+  mode: FilterMode;
+  onModeChange: (mode: FilterMode) => void;
+  inRangeCount: number;
+  onReset: () => void;
 }
 
 const FilterPanel: React.FC<FilterPanelProps> = ({
-  minPrice,
-  maxPrice,
-  currentRange,
-  onRangeChange
+  bounds,
+  ranges,
+  onRangeChange,
+  mode,
+  onModeChange,
+  inRangeCount,
+  onReset
 }) => {
-  const handleRangeChange = (value: number | number[]) => {
+  const handleRangeChange = (metric: MetricKey) => (value: number | number[]) => {
     if (Array.isArray(value) && value.length === 2) {
-      onRangeChange([value[0], value[1]]);
+      onRangeChange(metric, [value[0], value[1]]);
     }
   };
 
   return (
     <div className="filter-panel">
-      <h3>Filter by Price ($/sqm)</h3>
-      <div className="price-range-display">
-        <span>${currentRange[0].toLocaleString()}</span>
-        <span>to</span>
-        <span>${currentRange[1].toLocaleString()}</span>
-      </div>
-      <div className="slider-container">
-        <Slider
-          range
-          min={minPrice}
-          max={maxPrice}
-          value={currentRange}
-          onChange={handleRangeChange}
-          trackStyle={{ backgroundColor: '#3498db' }}
-          handleStyle={[
-            { borderColor: '#3498db', backgroundColor: '#3498db' },
-            { borderColor: '#3498db', backgroundColor: '#3498db' }
-          ]}
-          railStyle={{ backgroundColor: '#e0e0e0' }}
-          step={100}
-        />
+      {METRIC_KEYS.map(key => {
+        const metricBounds = bounds[key];
+        if (!metricBounds) return null;
+
+        const definition = METRICS[key];
+        const currentRange = ranges[key] || metricBounds;
+
+        return (
+          <div key={key} className="filter-metric">
+            <h3>Filter by {definition.label}</h3>
+            <div className="price-range-display">
+              <span>{definition.format(currentRange[0])}</span>
+              <span>to</span>
+              <span>{definition.format(currentRange[1])}</span>
+            </div>
+            <div className="slider-container">
+              <Slider
+                range
+                min={metricBounds[0]}
+                max={metricBounds[1]}
+                value={currentRange}
+                onChange={handleRangeChange(key)}
+                trackStyle={{ backgroundColor: '#3498db' }}
+                handleStyle={[
+                  { borderColor: '#3498db', backgroundColor: '#3498db' },
+                  { borderColor: '#3498db', backgroundColor: '#3498db' }
+                ]}
+                railStyle={{ backgroundColor: '#e0e0e0' }}
+                step={definition.filterStep}
+                ariaLabelForHandle={[`Minimum ${definition.label}`, `Maximum ${definition.label}`]}
+              />
+            </div>
+            <div className="price-labels">
+              <span>{definition.format(metricBounds[0])}</span>
+              <span>{definition.format(metricBounds[1])}</span>
+            </div>
+          </div>
+        );
+      })}
+      <div className="filter-mode">
+        <label>
+          <input type="radio" name="filter-mode" checked={mode === 'dim'} onChange={() => onModeChange('dim')} />
+          {' '}Dim others
+        </label>
+        <label>
+          <input type="radio" name="filter-mode" checked={mode === 'hide'} onChange={() => onModeChange('hide')} />
+          {' '}Hide others
+        </label>
       </div>
-      <div className="price-labels">
-        <span>${minPrice.toLocaleString()}</span>
-        <span>${maxPrice.toLocaleString()}</span>
+      <div className="filter-count">
+        <strong>{inRangeCount}</strong> {inRangeCount === 1 ? 'suburb' : 'suburbs'} in range
+        {' '}<button onClick={onReset}>Reset</button>
       </div>
     </div>
   );
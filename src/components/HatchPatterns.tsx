@@ -0,0 +1,27 @@
+import React from 'react';
+import { HATCH_PATTERNS } from '../utils/dataQuality';
+
+// Fill patterns for suburbs whose data is missing. Defined once on the page;
+// map paths and legend swatches refer to them by id.
+const HatchPatterns: React.FC = () => (
+  <svg width="0" height="0" style={{ position: 'absolute' }} aria-hidden="true">
+    <defs>
+      {HATCH_PATTERNS.map(pattern => (
+        <pattern
+          key={pattern.id}
+          id={pattern.id}
+          patternUnits="userSpaceOnUse"
+          width="8"
+          height="8"
+          patternTransform="rotate(45)"
+        >
+          <rect width="8" height="8" fill={pattern.background} />
+          <line x1="0" y1="0" x2="0" y2="8" stroke={pattern.color} strokeWidth="2" />
+          {pattern.cross && <line x1="0" y1="0" x2="8" y2="0" stroke={pattern.color} strokeWidth="2" />}
+        </pattern>
+      ))}
+    </defs>
+  </svg>
+);
+
+export default HatchPatterns;
@@ -1,34 +1,62 @@
 import React from 'react';
+import { Classification, getLegendClasses, NO_DATA_COLOR } from '../utils/classification';
 
 interface LegendProps {
-  minValue: number;
-  maxValue: number;
+  title: string;
+  // Null while the classes are still being worked out
+  classification: Classification | null;
+  format: (value: number) => string;
+  // Show how many suburbs fall in each class
+  showCounts?: boolean;
+  // Features drawn plain grey, when some without a value are hatched instead
+  noDataCount?: number;
+  children?: React.ReactNode;
 }
 
-const Legend: React.FC<LegendProps> = ({ minValue, maxValue }) => {
-  const colorSteps = [
-    { color: '#1a9850', label: '< $6,000' },
-    { color: '#91cf60', label: '$6,000 - $8,000' },
-    { color: '#d9ef8b', label: '$8,000 - $10,000' },
-    { color: '#fee08b', label: '$10,000 - $12,000' },
-    { color: '#fc8d59', label: '$12,000 - $14,000' },
-    { color: '#d73027', label: '> $14,000' }
-  ];
+const swatchStyle: React.CSSProperties = {
+  display: 'inline-block',
+  width: '18px',
+  height: '18px',
+  marginRight: '8px',
+  border: '1px solid #444',
+  verticalAlign: 'middle'
+};
+
+// Rendered from the same Classification the map is coloured with
+const Legend: React.FC<LegendProps> = ({ title, classification, format, showCounts = true, noDataCount, children }) => {
+  if (!classification) {
+    return (
+      <div className="map-legend">
+        <h4>{title}</h4>
+        <div className="legend-items">Classifying suburbs...</div>
+        {children}
+      </div>
+    );
+  }
+
+  const legendClasses = getLegendClasses(classification, format);
+  const plainNoDataCount = noDataCount !== undefined ? noDataCount : classification.noDataCount;
 
   return (
     <div className="map-legend">
-      <h3>Price per Square Meter</h3>
+      <h4>{title}</h4>
       <div className="legend-items">
-        {colorSteps.map((step, index) => (
-          <div key={index} className="legend-item">
-            <div 
-              className="color-box" 
-              style={{ backgroundColor: step.color }}
-            ></div>
-            <span>{step.label}</span>
+        {legendClasses.map(legendClass => (
+          <div key={legendClass.label} className="legend-item">
+            <i style={{ ...swatchStyle, background: legendClass.color }}></i>
+            <span>{legendClass.label}</span>
+            {showCounts && <span className="legend-count">{legendClass.count}</span>}
           </div>
         ))}
+        {(!showCounts || plainNoDataCount > 0) && (
+          <div className="legend-item">
+            <i style={{ ...swatchStyle, background: NO_DATA_COLOR }}></i>
+            <span>No data</span>
+            {showCounts && <span className="legend-count">{plainNoDataCount}</span>}
+          </div>
+        )}
       </div>
+      {children}
     </div>
   );
 };
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import SuburbSearch from './SuburbSearch';
+import { describeDifference, ListingEvaluation, ListingInput, parseListingInput } from '../utils/listingEvaluator';
+import { METRICS } from '../utils/metrics';
+import { SearchEntry } from '../utils/suburbSearch';
+
+interface ListingEvaluatorProps {
+  // Suburb entries of the map search index
+  searchIndex: SearchEntry[];
+  suburbName: string | null;
+  lga: string | null;
+  onSuburbSelect: (feature: any) => void;
+  // True while waiting for the next click on the map to pick the suburb
+  picking: boolean;
+  onPickingChange: (picking: boolean) => void;
+  onEvaluate: (input: ListingInput) => void;
+  evaluation: ListingEvaluation | null;
+  // Set when the chosen suburb has no price data to compare against
+  message: string | null;
+  onClear: () => void;
+}
+
+const fieldStyle: React.CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  padding: '4px 6px',
+  fontSize: '14px'
+};
+
+const errorStyle: React.CSSProperties = { color: '#d73027', fontSize: '12px', margin: '2px 0 0' };
+
+const ListingEvaluator: React.FC<ListingEvaluatorProps> = ({
+  searchIndex,
+  suburbName,
+  lga,
+  onSuburbSelect,
+  picking,
+  onPickingChange,
+  onEvaluate,
+  evaluation,
+  message,
+  onClear
+}) => {
+  const [askingPrice, setAskingPrice] = useState('');
+  const [landSize, setLandSize] = useState('');
+  const [errors, setErrors] = useState<Partial<Record<keyof ListingInput | 'suburb', string>>>({});
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseListingInput(askingPrice, landSize);
+    const nextErrors: typeof errors = 'errors' in parsed ? { ...parsed.errors } : {};
+    if (!suburbName) nextErrors.suburb = 'Choose a suburb';
+    setErrors(nextErrors);
+    if ('input' in parsed && suburbName) onEvaluate(parsed.input);
+  };
+
+  return (
+    <form className="listing-evaluator" onSubmit={handleSubmit} style={{ fontSize: '14px' }}>
+      <h3 style={{ margin: '0 0 8px', fontSize: '16px' }}>Evaluate a listing</h3>
+      <label style={{ display: 'block', marginBottom: '8px' }}>
+        Asking price
+        <input
+          type="text"
+          inputMode="decimal"
+          placeholder="$1,200,000"
+          value={askingPrice}
+          onChange={e => setAskingPrice(e.target.value)}
+          style={fieldStyle}
+        />
+        {errors.askingPrice && <p style={errorStyle}>{errors.askingPrice}</p>}
+      </label>
+      <label style={{ display: 'block', marginBottom: '8px' }}>
+        Land size (sqm)
+        <input
+          type="text"
+          inputMode="decimal"
+          placeholder="450"
+          value={landSize}
+          onChange={e => setLandSize(e.target.value)}
+          style={fieldStyle}
+        />
+        {errors.landSize && <p style={errorStyle}>{errors.landSize}</p>}
+      </label>
+      <div style={{ marginBottom: '8px' }}>
+        <div>
+          Suburb: {suburbName ? <strong>{suburbName}</strong> : <em>none chosen</em>}
+          {lga && <span style={{ color: '#777', fontSize: '12px' }}> ({lga})</span>}
+        </div>
+        <div style={{ marginTop: '4px' }}>
+          <SuburbSearch
+            index={searchIndex}
+            onSelect={result => {
+              if (result.feature) onSuburbSelect(result.feature);
+            }}
+            idPrefix="listing-suburb"
+            placeholder="Find suburb"
+            label="Listing suburb"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => onPickingChange(!picking)}
+          aria-pressed={picking}
+          style={{ marginTop: '6px', cursor: 'pointer' }}
+        >
+          {picking ? 'Click a suburb on the map…' : 'Pick on map'}
+        </button>
+        {errors.suburb && <p style={errorStyle}>{errors.suburb}</p>}
+      </div>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button type="submit" style={{ cursor: 'pointer' }}>Evaluate</button>
+        {evaluation && <button type="button" onClick={onClear} style={{ cursor: 'pointer' }}>Clear</button>}
+      </div>
+      {message && <p style={{ ...errorStyle, marginTop: '8px' }}>{message}</p>}
+      {evaluation && (
+        <div style={{ marginTop: '10px', borderTop: '1px solid #eee', paddingTop: '8px' }}>
+          <p style={{ margin: '0 0 4px' }}>
+            <strong>{METRICS.price_sqm.format(evaluation.pricePerSqm)}/sqm</strong>
+            {evaluation.model === 'land-residual' ? ' of land, less the estimated building value,' : ''} for this listing
+          </p>
+          <p style={{ margin: '0 0 4px' }}>
+            <strong>vs suburb:</strong> {describeDifference(evaluation.vsSuburb)} ({METRICS.price_sqm.format(evaluation.suburbPricePerSqm)})
+          </p>
+          <p style={{ margin: '0 0 4px' }}>
+            <strong>vs LGA average:</strong> {describeDifference(evaluation.vsLga)} ({METRICS.price_sqm.format(evaluation.lgaPricePerSqm)})
+          </p>
+          {evaluation.percentile !== null && (
+            <p style={{ margin: 0 }}>Dearer than {Math.round(evaluation.percentile)}% of suburbs</p>
+          )}
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default ListingEvaluator;
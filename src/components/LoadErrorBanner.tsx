@@ -0,0 +1,62 @@
+import React from 'react';
+import { hasLoadError, LOAD_RESOURCE_KEYS, LOAD_RESOURCES, LoadResource, ResourceLoad, RETRY_POLICY } from '../utils/loadState';
+
+interface LoadErrorBannerProps {
+  loads: Record<LoadResource, ResourceLoad>;
+  onRetry: (resource: LoadResource) => void;
+}
+
+// Sits over the map rather than replacing it, one line per failed load
+const LoadErrorBanner: React.FC<LoadErrorBannerProps> = ({ loads, onRetry }) => {
+  const failed = LOAD_RESOURCE_KEYS.filter(key => hasLoadError(loads[key]));
+  if (failed.length === 0) return null;
+
+  return (
+    <div role="alert" style={{
+      position: 'absolute',
+      bottom: '20px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      zIndex: 1000,
+      background: '#fff5f0',
+      border: '2px solid #d73027',
+      borderRadius: '5px',
+      boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
+      padding: '8px 12px',
+      maxWidth: '90%',
+      fontSize: '14px'
+    }}>
+      {failed.map(key => {
+        const load = loads[key];
+        const retrying = load.status === 'retrying';
+        return (
+          <div key={key} style={{ display: 'flex', alignItems: 'center', gap: '10px', margin: '2px 0' }}>
+            <span>
+              <strong>{LOAD_RESOURCES[key]} failed:</strong> {load.error}
+              {retrying && load.failures > 0 && (
+                <span style={{ color: '#666' }}> · retrying ({load.failures} of {RETRY_POLICY.retries})</span>
+              )}
+              {retrying && load.failures === 0 && <span style={{ color: '#666' }}> · retrying</span>}
+            </span>
+            <button
+              onClick={() => onRetry(key)}
+              disabled={retrying && load.retryAt === null}
+              style={{
+                backgroundColor: '#fff',
+                border: '1px solid #d73027',
+                borderRadius: '4px',
+                padding: '2px 8px',
+                cursor: 'pointer',
+                whiteSpace: 'nowrap'
+              }}
+            >
+              {retrying ? 'Retry now' : 'Retry'}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LoadErrorBanner;
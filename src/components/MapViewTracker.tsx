@@ -0,0 +1,20 @@
+import React from 'react';
+import { useMapEvents } from 'react-leaflet';
+
+interface MapViewTrackerProps {
+  onViewChange: (center: [number, number], zoom: number) => void;
+}
+
+// Reports the map's centre and zoom whenever the user stops panning or zooming
+const MapViewTracker: React.FC<MapViewTrackerProps> = ({ onViewChange }) => {
+  const map = useMapEvents({
+    moveend: () => {
+      const center = map.getCenter();
+      onViewChange([center.lat, center.lng], map.getZoom());
+    }
+  });
+
+  return null;
+};
+
+export default MapViewTracker;
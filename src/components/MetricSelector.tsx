@@ -0,0 +1,46 @@
+import React from 'react';
+import { METRIC_KEYS, METRICS, MetricKey } from '../utils/metrics';
+
+interface MetricSelectorProps {
+  metric: MetricKey;
+  onMetricChange: (metric: MetricKey) => void;
+  // Off for units and all dwellings, which leaves only the median price
+  landMetrics?: boolean;
+}
+
+const MetricSelector: React.FC<MetricSelectorProps> = ({ metric, onMetricChange, landMetrics = true }) => {
+  return (
+    <div className="metric-selector" role="radiogroup" aria-label="Colour suburbs by" style={{
+      display: 'flex',
+      background: 'rgba(255,255,255,0.9)',
+      borderRadius: '5px',
+      boxShadow: '0 0 15px rgba(0,0,0,0.2)',
+      overflow: 'hidden'
+    }}>
+      {METRIC_KEYS.map(key => (
+        <button
+          key={key}
+          role="radio"
+          aria-checked={key === metric}
+          onClick={() => onMetricChange(key)}
+          disabled={!landMetrics && METRICS[key].needsLand}
+          title={!landMetrics && METRICS[key].needsLand ? 'Houses only' : undefined}
+          style={{
+            border: 'none',
+            padding: '6px 12px',
+            cursor: !landMetrics && METRICS[key].needsLand ? 'not-allowed' : 'pointer',
+            opacity: !landMetrics && METRICS[key].needsLand ? 0.5 : 1,
+            fontSize: '14px',
+            fontWeight: key === metric ? 'bold' : 'normal',
+            backgroundColor: key === metric ? '#3498db' : 'transparent',
+            color: key === metric ? 'white' : '#333'
+          }}
+        >
+          {METRICS[key].label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default MetricSelector;
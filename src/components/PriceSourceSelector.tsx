@@ -0,0 +1,52 @@
+import React from 'react';
+import { getRoute, MapLayer, PRICE_SOURCES, PriceSource } from '../utils/mapRoutes';
+
+interface PriceSourceSelectorProps {
+  prices: PriceSource;
+  // Kept when switching, so the councils stay on screen
+  layer: MapLayer;
+  onNavigate: (path: string) => void;
+}
+
+// Links between the real-data and demo maps. They're plain links, so they
+// can still be opened in a new tab.
+const PriceSourceSelector: React.FC<PriceSourceSelectorProps> = ({ prices, layer, onNavigate }) => {
+  return (
+    <nav aria-label="Data" style={{
+      display: 'flex',
+      background: 'rgba(255,255,255,0.9)',
+      borderRadius: '5px',
+      boxShadow: '0 0 15px rgba(0,0,0,0.2)',
+      overflow: 'hidden'
+    }}>
+      {PRICE_SOURCES.map(option => {
+        const path = getRoute(option.key, layer).path;
+        const active = option.key === prices;
+        return (
+          <a
+            key={option.key}
+            href={path}
+            aria-current={active ? 'page' : undefined}
+            onClick={e => {
+              if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+              e.preventDefault();
+              onNavigate(path);
+            }}
+            style={{
+              padding: '6px 12px',
+              fontSize: '14px',
+              textDecoration: 'none',
+              fontWeight: active ? 'bold' : 'normal',
+              backgroundColor: active ? (option.key === 'random' ? '#d95f0e' : '#3498db') : 'transparent',
+              color: active ? 'white' : '#333'
+            }}
+          >
+            {option.label}
+          </a>
+        );
+      })}
+    </nav>
+  );
+};
+
+export default PriceSourceSelector;
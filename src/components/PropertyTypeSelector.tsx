@@ -0,0 +1,42 @@
+import React from 'react';
+import { PROPERTY_TYPE_KEYS, PROPERTY_TYPES } from '../utils/propertyTypes';
+import { PropertyType } from '../utils/suburbDataLoader';
+
+interface PropertyTypeSelectorProps {
+  propertyType: PropertyType;
+  onPropertyTypeChange: (propertyType: PropertyType) => void;
+}
+
+const PropertyTypeSelector: React.FC<PropertyTypeSelectorProps> = ({ propertyType, onPropertyTypeChange }) => {
+  return (
+    <div className="property-type-selector" role="radiogroup" aria-label="Property type" style={{
+      display: 'flex',
+      background: 'rgba(255,255,255,0.9)',
+      borderRadius: '5px',
+      boxShadow: '0 0 15px rgba(0,0,0,0.2)',
+      overflow: 'hidden'
+    }}>
+      {PROPERTY_TYPE_KEYS.map(key => (
+        <button
+          key={key}
+          role="radio"
+          aria-checked={key === propertyType}
+          onClick={() => onPropertyTypeChange(key)}
+          style={{
+            border: 'none',
+            padding: '6px 12px',
+            cursor: 'pointer',
+            fontSize: '14px',
+            fontWeight: key === propertyType ? 'bold' : 'normal',
+            backgroundColor: key === propertyType ? '#3498db' : 'transparent',
+            color: key === propertyType ? 'white' : '#333'
+          }}
+        >
+          {PROPERTY_TYPES[key].label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default PropertyTypeSelector;
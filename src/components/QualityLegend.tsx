@@ -0,0 +1,56 @@
+import React from 'react';
+import { QUALITY_STATUS_KEYS, QUALITY_STATUSES, QualityStatus } from '../utils/dataQuality';
+
+interface QualityLegendProps {
+  // Suburbs with each status; statuses none have are left out
+  counts: Record<QualityStatus, number>;
+  // Whether block size estimates are outlined for the current metric
+  showEstimates: boolean;
+}
+
+const swatchStyle: React.CSSProperties = {
+  display: 'inline-block',
+  width: '18px',
+  height: '18px',
+  marginRight: '8px',
+  verticalAlign: 'middle',
+  boxSizing: 'border-box'
+};
+
+const Swatch: React.FC<{ status: QualityStatus }> = ({ status }) => {
+  const style = QUALITY_STATUSES[status].style;
+  if (style && style.fillColor) {
+    return (
+      <svg width="18" height="18" style={{ marginRight: '8px', verticalAlign: 'middle' }} aria-hidden="true">
+        <rect x="0.5" y="0.5" width="17" height="17" fill={style.fillColor} stroke="#444" />
+      </svg>
+    );
+  }
+  const border = style && style.color
+    ? `${Math.max(style.weight || 1, 2)}px ${style.dashArray ? 'dotted' : 'solid'} ${style.color}`
+    : '1px solid #444';
+  return <i style={{ ...swatchStyle, border, background: '#fff' }}></i>;
+};
+
+// How the map marks suburbs whose figures are missing or approximate
+const QualityLegend: React.FC<QualityLegendProps> = ({ counts, showEstimates }) => {
+  const statuses = QUALITY_STATUS_KEYS.filter(status =>
+    status !== 'complete' && counts[status] > 0 && (showEstimates || !QUALITY_STATUSES[status].landOnly)
+  );
+  if (statuses.length === 0) return null;
+
+  return (
+    <div className="quality-legend" style={{ marginTop: '10px' }}>
+      <h4 style={{ margin: '0 0 4px', fontSize: '13px' }}>Data quality</h4>
+      {statuses.map(status => (
+        <div key={status} className="legend-item" title={QUALITY_STATUSES[status].explanation || undefined}>
+          <Swatch status={status} />
+          <span>{QUALITY_STATUSES[status].label}</span>
+          <span className="legend-count">{counts[status]}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QualityLegend;
@@ -0,0 +1,159 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { METRICS } from '../utils/metrics';
+import {
+  buildRankingRows,
+  filterRankingRows,
+  RankingColumn,
+  RankingFilters,
+  RankingSort,
+  sortRankingRows
+} from '../utils/rankingTable';
+
+interface RankingTableProps {
+  // The merged suburb features the map is drawn from
+  features: { properties: { [key: string]: any } }[];
+  // Feature selected on the map; its row is scrolled into view
+  selectedFeature: any;
+  onRowHover: (feature: any | null) => void;
+  onRowClick: (feature: any) => void;
+  onClose: () => void;
+}
+
+const COLUMNS: { key: RankingColumn; label: string; numeric: boolean; placeholder: string }[] = [
+  { key: 'suburb', label: 'Suburb', numeric: false, placeholder: 'Filter' },
+  { key: 'lga', label: 'LGA', numeric: false, placeholder: 'Filter' },
+  { key: 'median_price', label: 'Median price', numeric: true, placeholder: '>1.2m' },
+  { key: 'block_size', label: 'Block size', numeric: true, placeholder: '300-450' },
+  { key: 'price_sqm', label: '$/sqm', numeric: true, placeholder: '>5000' }
+];
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  borderBottom: '1px solid #eee',
+  whiteSpace: 'nowrap'
+};
+
+const RankingTable: React.FC<RankingTableProps> = ({ features, selectedFeature, onRowHover, onRowClick, onClose }) => {
+  const [sort, setSort] = useState<RankingSort>({ column: 'price_sqm', direction: 'desc' });
+  const [filters, setFilters] = useState<RankingFilters>({});
+  const rowRefs = useRef(new Map<any, HTMLTableRowElement>());
+
+  const allRows = useMemo(() => buildRankingRows(features), [features]);
+  const rows = useMemo(
+    () => sortRankingRows(filterRankingRows(allRows, filters), sort),
+    [allRows, filters, sort]
+  );
+
+  // Bring the row for a suburb clicked on the map into view
+  useEffect(() => {
+    if (!selectedFeature) return;
+    const row = rowRefs.current.get(selectedFeature);
+    if (row) row.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [selectedFeature]);
+
+  const handleSort = (column: RankingColumn) => {
+    setSort(current => current.column === column
+      ? { column, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+      // Metrics are most useful highest first, names alphabetically
+      : { column, direction: column === 'suburb' || column === 'lga' ? 'asc' : 'desc' });
+  };
+
+  const formatCell = (column: RankingColumn, value: string | number | null) =>
+    column === 'suburb' || column === 'lga' ? value : METRICS[column].format(value as number | null);
+
+  return (
+    <div className="ranking-table" style={{
+      width: '480px',
+      height: '100vh',
+      display: 'flex',
+      flexDirection: 'column',
+      background: 'white',
+      borderLeft: '1px solid #ddd',
+      boxShadow: '0 0 15px rgba(0,0,0,0.2)',
+      zIndex: 1001
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '10px 15px' }}>
+        <h3 style={{ margin: 0 }}>Suburb rankings</h3>
+        <span style={{ fontSize: '12px', color: '#777' }}>{rows.length} of {allRows.length} suburbs</span>
+        <button
+          onClick={onClose}
+          style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '16px' }}
+        >
+          ✕
+        </button>
+      </div>
+      <div style={{ flex: 1, overflowY: 'auto' }}>
+        <table style={{ borderCollapse: 'collapse', width: '100%', fontSize: '13px' }}>
+          <thead style={{ position: 'sticky', top: 0, background: 'white' }}>
+            <tr>
+              <th style={{ ...cellStyle, textAlign: 'right', color: '#777' }}>#</th>
+              {COLUMNS.map(column => (
+                <th
+                  key={column.key}
+                  aria-sort={sort.column === column.key ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                  style={{ ...cellStyle, textAlign: column.numeric ? 'right' : 'left' }}
+                >
+                  <button
+                    onClick={() => handleSort(column.key)}
+                    style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', font: 'inherit', fontWeight: 'bold' }}
+                  >
+                    {column.label}
+                    {sort.column === column.key ? (sort.direction === 'asc' ? ' ▲' : ' ▼') : ''}
+                  </button>
+                </th>
+              ))}
+            </tr>
+            <tr>
+              <th style={cellStyle}></th>
+              {COLUMNS.map(column => (
+                <th key={column.key} style={cellStyle}>
+                  <input
+                    type="text"
+                    aria-label={`Filter by ${column.label}`}
+                    placeholder={column.placeholder}
+                    value={filters[column.key] || ''}
+                    onChange={e => {
+                      const text = e.target.value;
+                      setFilters(current => ({ ...current, [column.key]: text }));
+                    }}
+                    style={{ width: '100%', boxSizing: 'border-box', fontSize: '12px', fontWeight: 'normal' }}
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr
+                key={`${row.suburb}-${row.lga}-${index}`}
+                ref={element => {
+                  if (element) {
+                    rowRefs.current.set(row.feature, element);
+                  } else {
+                    rowRefs.current.delete(row.feature);
+                  }
+                }}
+                onMouseEnter={() => onRowHover(row.feature)}
+                onMouseLeave={() => onRowHover(null)}
+                onClick={() => onRowClick(row.feature)}
+                style={{
+                  cursor: 'pointer',
+                  backgroundColor: row.feature === selectedFeature ? '#e8f4fc' : undefined
+                }}
+              >
+                <td style={{ ...cellStyle, textAlign: 'right', color: '#777' }}>{index + 1}</td>
+                {COLUMNS.map(column => (
+                  <td key={column.key} style={{ ...cellStyle, textAlign: column.numeric ? 'right' : 'left' }}>
+                    {formatCell(column.key, row[column.key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RankingTable;
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { SearchEntry, SearchResult, searchSuburbs } from '../utils/suburbSearch';
+
+interface SuburbSearchProps {
+  index: SearchEntry[];
+  onSelect: (result: SearchResult) => void;
+  // Distinguishes the element ids when more than one search is on the page
+  idPrefix?: string;
+  placeholder?: string;
+  label?: string;
+}
+
+const SuburbSearch: React.FC<SuburbSearchProps> = ({
+  index,
+  onSelect,
+  idPrefix = 'suburb-search',
+  placeholder = 'Search suburb or council',
+  label = 'Search suburbs and councils'
+}) => {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = useMemo(() => searchSuburbs(index, query), [index, query]);
+  const showResults = open && results.length > 0;
+
+  const selectResult = (result: SearchResult) => {
+    setQuery(result.label);
+    setOpen(false);
+    onSelect(result);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setOpen(true);
+        // Nothing to move to; -1 would leave no row to come back from
+        if (results.length === 0) break;
+        setActiveIndex(current => Math.min(current + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(current => Math.max(current - 1, 0));
+        break;
+      case 'Enter':
+        if (showResults && results[activeIndex]) {
+          e.preventDefault();
+          selectResult(results[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        if (open) {
+          setOpen(false);
+        } else {
+          setQuery('');
+        }
+        break;
+    }
+  };
+
+  return (
+    <div className="suburb-search" style={{ position: 'relative', width: '260px' }}>
+      <input
+        type="search"
+        role="combobox"
+        aria-label={label}
+        aria-autocomplete="list"
+        aria-expanded={showResults}
+        aria-controls={`${idPrefix}-results`}
+        aria-activedescendant={showResults ? `${idPrefix}-result-${activeIndex}` : undefined}
+        placeholder={placeholder}
+        value={query}
+        onChange={e => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Delay so a click on a result lands before the list closes
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        style={{
+          width: '100%',
+          padding: '6px 10px',
+          fontSize: '14px',
+          border: '2px solid rgba(0,0,0,0.2)',
+          borderRadius: '4px',
+          boxShadow: '0 1px 5px rgba(0,0,0,0.4)'
+        }}
+      />
+      {showResults && (
+        <ul
+          id={`${idPrefix}-results`}
+          role="listbox"
+          style={{
+            position: 'absolute',
+            top: '100%',
+            left: 0,
+            right: 0,
+            margin: '2px 0 0',
+            padding: 0,
+            listStyle: 'none',
+            background: 'white',
+            borderRadius: '4px',
+            boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
+            maxHeight: '300px',
+            overflowY: 'auto'
+          }}
+        >
+          {results.map((result, i) => (
+            <li
+              key={`${result.kind}-${result.label}`}
+              id={`${idPrefix}-result-${i}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => selectResult(result)}
+              onMouseEnter={() => setActiveIndex(i)}
+              style={{
+                padding: '6px 10px',
+                cursor: 'pointer',
+                backgroundColor: i === activeIndex ? '#e8f4fc' : 'transparent'
+              }}
+            >
+              <div style={{ fontSize: '14px' }}>{result.label}</div>
+              {result.detail && <div style={{ fontSize: '12px', color: '#777' }}>{result.detail}</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SuburbSearch;
@@ -0,0 +1,64 @@
+import React from 'react';
+import Slider from 'rc-slider';
+import 'rc-slider/assets/index.css';
+import { Snapshot } from '../utils/snapshots';
+
+interface TimeSliderProps {
+  snapshots: Snapshot[];
+  activeIndex: number;
+  onChange: (index: number) => void;
+  playing: boolean;
+  onPlayingChange: (playing: boolean) => void;
+  // True while the active snapshot's CSV is still being fetched
+  loading: boolean;
+  failed: boolean;
+}
+
+const TimeSlider: React.FC<TimeSliderProps> = ({ snapshots, activeIndex, onChange, playing, onPlayingChange, loading, failed }) => {
+  const marks: Record<number, string> = {};
+  snapshots.forEach((snapshot, index) => {
+    marks[index] = snapshot.id;
+  });
+
+  return (
+    <div className="time-slider" style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '15px',
+      background: 'rgba(255,255,255,0.95)',
+      borderRadius: '5px',
+      boxShadow: '0 0 15px rgba(0,0,0,0.2)',
+      padding: '8px 20px 20px'
+    }}>
+      <button
+        onClick={() => onPlayingChange(!playing)}
+        aria-label={playing ? 'Pause quarterly animation' : 'Play quarters as an animation'}
+        style={{ cursor: 'pointer', fontSize: '16px', width: '36px' }}
+      >
+        {playing ? '⏸' : '▶'}
+      </button>
+      <div style={{ width: `${Math.max(200, snapshots.length * 70)}px` }}>
+        <div style={{ fontSize: '13px', marginBottom: '4px' }}>
+          <strong>{snapshots[activeIndex].label}</strong>
+          {failed
+            ? <span style={{ color: '#d73027' }}> · failed to load</span>
+            : loading && <span style={{ color: '#777' }}> · loading...</span>}
+        </div>
+        <Slider
+          min={0}
+          max={snapshots.length - 1}
+          step={null}
+          marks={marks}
+          value={activeIndex}
+          onChange={value => {
+            if (typeof value === 'number') onChange(value);
+          }}
+          trackStyle={{ backgroundColor: '#3498db' }}
+          handleStyle={{ borderColor: '#3498db', backgroundColor: '#3498db' }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TimeSlider;
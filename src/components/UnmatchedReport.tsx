@@ -0,0 +1,78 @@
+import React from 'react';
+
+interface UnmatchedRow {
+  lga: string;
+  suburb: string;
+}
+
+interface UnmatchedReportProps {
+  unmatchedRows: UnmatchedRow[];
+  unmatchedFeatures: string[];
+  onClose: () => void;
+}
+
+const listStyle: React.CSSProperties = {
+  maxHeight: '180px',
+  overflowY: 'auto',
+  paddingLeft: '20px',
+  margin: '0 0 10px',
+  fontSize: '13px'
+};
+
+const UnmatchedReport: React.FC<UnmatchedReportProps> = ({
+  unmatchedRows,
+  unmatchedFeatures,
+  onClose
+}) => {
+  return (
+    <div className="unmatched-report" style={{
+      position: 'absolute',
+      bottom: '20px',
+      right: '220px',
+      backgroundColor: 'white',
+      border: '2px solid rgba(0,0,0,0.2)',
+      borderRadius: '5px',
+      padding: '15px',
+      boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
+      zIndex: 1000,
+      width: '320px'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '10px' }}>
+        <h3 style={{ margin: '0' }}>Unmatched suburbs</h3>
+        <button
+          onClick={onClose}
+          aria-label="Close unmatched suburbs"
+          style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '16px' }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <h4 style={{ margin: '0 0 5px' }}>CSV rows with no boundary ({unmatchedRows.length})</h4>
+      {unmatchedRows.length > 0 ? (
+        <ul style={listStyle}>
+          {unmatchedRows.map((row, index) => (
+            <li key={`${row.lga}-${row.suburb}-${index}`}>
+              {row.suburb} <span style={{ color: '#777' }}>({row.lga})</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p style={{ margin: '0 0 10px', fontSize: '13px' }}>Every CSV row matched a boundary.</p>
+      )}
+
+      <h4 style={{ margin: '0 0 5px' }}>Boundaries with no CSV row ({unmatchedFeatures.length})</h4>
+      {unmatchedFeatures.length > 0 ? (
+        <ul style={listStyle}>
+          {unmatchedFeatures.map((name, index) => (
+            <li key={`${name}-${index}`}>{name || <em>Unnamed feature</em>}</li>
+          ))}
+        </ul>
+      ) : (
+        <p style={{ margin: '0', fontSize: '13px' }}>Every boundary matched a CSV row.</p>
+      )}
+    </div>
+  );
+};
+
+export default UnmatchedReport;
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { VALUATION_MODELS, ValuationModel, ValuationModelKey } from '../utils/landValue';
+
+interface ValuationModelControlsProps {
+  model: ValuationModel;
+  onModelChange: (model: ValuationModel) => void;
+}
+
+const parseDollars = (text: string): number | null => {
+  const value = Number(text.replace(/[$,\s]/g, ''));
+  return text.trim() !== '' && !isNaN(value) && value >= 0 ? value : null;
+};
+
+// Chooses what $/sqm measures: the whole property, or the land once an
+// estimated building value is taken off
+const ValuationModelControls: React.FC<ValuationModelControlsProps> = ({ model, onModelChange }) => {
+  const [buildingText, setBuildingText] = useState(model.buildingValue.toLocaleString());
+
+  useEffect(() => {
+    setBuildingText(model.buildingValue.toLocaleString());
+  }, [model.buildingValue]);
+
+  const applyBuildingText = () => {
+    const value = parseDollars(buildingText);
+    if (value !== null) {
+      onModelChange({ ...model, buildingValue: value });
+    } else {
+      setBuildingText(model.buildingValue.toLocaleString());
+    }
+  };
+
+  return (
+    <div className="valuation-model-controls" style={{ display: 'flex', flexDirection: 'column', gap: '5px', fontSize: '13px' }}>
+      <label>
+        $/sqm of{' '}
+        <select
+          value={model.key}
+          onChange={e => onModelChange({ ...model, key: e.target.value as ValuationModelKey })}
+        >
+          {VALUATION_MODELS.map(option => (
+            <option key={option.key} value={option.key}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+      {model.key === 'land-residual' && (
+        <label>
+          Building value ${' '}
+          <input
+            type="text"
+            inputMode="numeric"
+            value={buildingText}
+            onChange={e => setBuildingText(e.target.value)}
+            onBlur={applyBuildingText}
+            onKeyDown={e => { if (e.key === 'Enter') applyBuildingText(); }}
+            style={{ width: '90px' }}
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ValuationModelControls;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { LGA_STATISTICS, LgaStatistic } from '../utils/lgaAggregation';
+import { MapLayer } from '../utils/mapRoutes';
+
+export type MapView = MapLayer;
+
+interface ViewSelectorProps {
+  view: MapView;
+  onViewChange: (view: MapView) => void;
+  statistic: LgaStatistic;
+  onStatisticChange: (statistic: LgaStatistic) => void;
+}
+
+const VIEWS: { key: MapView; label: string }[] = [
+  { key: 'suburbs', label: 'Suburbs' },
+  { key: 'lga', label: 'Councils' }
+];
+
+const ViewSelector: React.FC<ViewSelectorProps> = ({ view, onViewChange, statistic, onStatisticChange }) => {
+  return (
+    <div className="view-selector" style={{
+      display: 'flex',
+      alignItems: 'center',
+      background: 'rgba(255,255,255,0.9)',
+      borderRadius: '5px',
+      boxShadow: '0 0 15px rgba(0,0,0,0.2)',
+      overflow: 'hidden'
+    }}>
+      <div role="radiogroup" aria-label="Map view" style={{ display: 'flex' }}>
+        {VIEWS.map(option => (
+          <button
+            key={option.key}
+            role="radio"
+            aria-checked={option.key === view}
+            onClick={() => onViewChange(option.key)}
+            style={{
+              border: 'none',
+              padding: '6px 12px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: option.key === view ? 'bold' : 'normal',
+              backgroundColor: option.key === view ? '#3498db' : 'transparent',
+              color: option.key === view ? 'white' : '#333'
+            }}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {view === 'lga' && (
+        <label style={{ padding: '0 10px', fontSize: '14px' }}>
+          <select
+            value={statistic}
+            onChange={e => onStatisticChange(e.target.value as LgaStatistic)}
+            aria-label="Council statistic"
+          >
+            {LGA_STATISTICS.map(option => (
+              <option key={option.key} value={option.key}>{option.label}</option>
+            ))}
+          </select>
+          {' '}of suburbs
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ViewSelector;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { WorkBook } from 'xlsx';
+import { ColumnMapping, getSheetHeaders, guessColumnMapping, WORKBOOK_FIELDS, WorkbookField } from '../utils/workbookLoader';
+
+interface WorkbookImportProps {
+  fileName: string;
+  workbook: WorkBook;
+  onImport: (sheetName: string, mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+// Choose which sheet of an uploaded workbook to read and which of its
+// columns hold each field. Columns named like the CSV's are filled in.
+const WorkbookImport: React.FC<WorkbookImportProps> = ({ fileName, workbook, onImport, onCancel }) => {
+  const [sheetName, setSheetName] = useState(workbook.SheetNames[0]);
+  const headers = getSheetHeaders(workbook, sheetName).filter(Boolean);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(headers));
+
+  const changeSheet = (name: string) => {
+    setSheetName(name);
+    setMapping(guessColumnMapping(getSheetHeaders(workbook, name)));
+  };
+
+  const setColumn = (field: WorkbookField, header: string) => {
+    setMapping(current => {
+      const next = { ...current };
+      if (header) next[field] = header;
+      else delete next[field];
+      return next;
+    });
+  };
+
+  const missingRequired = WORKBOOK_FIELDS.some(field => field.required && !mapping[field.key]);
+
+  return (
+    <div className="workbook-import" style={{ fontSize: '13px', marginTop: '8px', borderTop: '1px solid #eee', paddingTop: '8px' }}>
+      <p style={{ margin: '0 0 6px' }}><strong>{fileName}</strong></p>
+      <label style={{ display: 'block', marginBottom: '6px' }}>
+        Sheet{' '}
+        <select value={sheetName} onChange={e => changeSheet(e.target.value)}>
+          {workbook.SheetNames.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+      </label>
+      <table style={{ borderCollapse: 'collapse', marginBottom: '6px' }}>
+        <tbody>
+          {WORKBOOK_FIELDS.map(field => (
+            <tr key={field.key}>
+              <td style={{ paddingRight: '8px' }}>{field.label}</td>
+              <td>
+                <select
+                  value={mapping[field.key] || ''}
+                  onChange={e => setColumn(field.key, e.target.value)}
+                  aria-label={`Column for ${field.label}`}
+                >
+                  <option value="">{field.required ? 'Choose a column' : field.unmappedLabel}</option>
+                  {headers.map(header => (
+                    <option key={header} value={header}>{header}</option>
+                  ))}
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button type="button" onClick={() => onImport(sheetName, mapping)} disabled={missingRequired} style={{ cursor: 'pointer' }}>
+          Load sheet
+        </button>
+        <button type="button" onClick={onCancel} style={{ cursor: 'pointer' }}>Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+export default WorkbookImport;
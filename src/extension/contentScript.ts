@@ -0,0 +1,10 @@
+import { parseListingPage } from './listingParser';
+import { PARSE_LISTING_MESSAGE } from './messages';
+
+// Runs on listing pages; the popup asks it for whatever it can read from the DOM
+
+chrome.runtime.onMessage.addListener((message: { type?: string }, _sender: unknown, sendResponse: (response: unknown) => void) => {
+  if (message && message.type === PARSE_LISTING_MESSAGE) {
+    sendResponse(parseListingPage(document, window.location.href));
+  }
+});
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import { parseLandSizeText, parseListingPage, parsePriceText, parseSuburbFromAddress } from './listingParser';
+
+const loadFixture = (name: string): Document =>
+  new DOMParser().parseFromString(fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8'), 'text/html');
+
+test('reads prices, ranges and shorthand amounts', () => {
+  expect(parsePriceText('$1,250,000')).toBe(1250000);
+  expect(parsePriceText('Offers over $1.2m')).toBe(1200000);
+  expect(parsePriceText('$950k - $1.05m')).toBe(1000000);
+  expect(parsePriceText('Contact agent')).toBeNull();
+  expect(parsePriceText('Deposit $500')).toBeNull();
+});
+
+test('converts land sizes to square metres', () => {
+  expect(parseLandSizeText('450m²')).toBe(450);
+  expect(parseLandSizeText('1,012 sqm')).toBe(1012);
+  expect(parseLandSizeText('0.2 ha')).toBe(2000);
+  expect(parseLandSizeText('1 acre')).toBe(4047);
+  expect(parseLandSizeText('3 bedrooms')).toBeNull();
+});
+
+test('takes the suburb from before the state', () => {
+  expect(parseSuburbFromAddress('12 Smith St, Fitzroy, VIC 3065')).toBe('Fitzroy');
+  expect(parseSuburbFromAddress('4 Park Avenue, Glen Iris VIC 3146')).toBe('Glen Iris');
+  expect(parseSuburbFromAddress('12 Smith St')).toBeNull();
+});
+
+test('parses a realestate.com.au listing', () => {
+  const listing = parseListingPage(loadFixture('realestate.html'), 'https://www.realestate.com.au/property-house-vic-fitzroy-1');
+
+  expect(listing).toMatchObject({ price: 1400000, landSize: 280, suburb: 'Fitzroy' });
+  expect(listing.sources).toEqual({ price: 'realestate.com.au', landSize: 'realestate.com.au', suburb: 'realestate.com.au' });
+});
+
+test('parses a domain.com.au listing', () => {
+  const listing = parseListingPage(loadFixture('domain.html'), 'https://www.domain.com.au/4-park-avenue-glen-iris-vic-3146');
+
+  expect(listing).toMatchObject({ price: 2100000, landSize: 650, suburb: 'Glen Iris' });
+});
+
+test('prefers JSON-LD and skips broken blocks', () => {
+  const listing = parseListingPage(loadFixture('json-ld.html'));
+
+  expect(listing).toMatchObject({ price: 1180000, landSize: 500, suburb: 'Yarraville' });
+  expect(listing.sources.price).toBe('json-ld');
+});
+
+test('keeps "Contact agent" rather than another figure on the page', () => {
+  const listing = parseListingPage(loadFixture('contact-agent.html'), 'https://www.realestate.com.au/property-house-vic-kew-2');
+
+  expect(listing).toMatchObject({ price: null, priceText: 'Contact agent', landSize: 1012, suburb: 'Kew' });
+});
+
+test('falls back to the page text on unknown sites', () => {
+  const listing = parseListingPage(loadFixture('agency-site.html'), 'https://agency.example/listing/7');
+
+  expect(listing).toMatchObject({ price: 1015000, landSize: 312, suburb: 'Brunswick' });
+  expect(listing.sources).toEqual({ price: 'page-text', landSize: 'page-text', suburb: 'page-text' });
+});
@@ -0,0 +1,184 @@
+// Pulls the asking price, land size and suburb out of a property listing
+// page. Structured data (JSON-LD) is tried first, then the known markup of
+// realestate.com.au and domain.com.au, then a text search of the whole page.
+
+export type ListingSource = 'json-ld' | 'realestate.com.au' | 'domain.com.au' | 'page-text';
+
+export interface ParsedListing {
+  price: number | null;
+  // Square metres
+  landSize: number | null;
+  suburb: string | null;
+  // Raw price text, shown when it couldn't be read as a number ("Contact agent")
+  priceText: string | null;
+  // Where each field was found, for debugging selectors as sites change
+  sources: Partial<Record<'price' | 'landSize' | 'suburb', ListingSource>>;
+}
+
+const SQM_PER_HECTARE = 10000;
+const SQM_PER_ACRE = 4046.86;
+
+const STATES = ['VIC', 'NSW', 'QLD', 'SA', 'WA', 'TAS', 'NT', 'ACT'];
+
+const parseAmount = (text: string): number => {
+  const match = text.toLowerCase().replace(/,/g, '').match(/^(\d+(?:\.\d+)?)\s*(m|mil|million|k)?$/);
+  if (!match) return NaN;
+  const multiplier = match[2] === 'k' ? 1000 : match[2] ? 1000000 : 1;
+  return parseFloat(match[1]) * multiplier;
+};
+
+// "$1,250,000", "Offers over $1.2m", "$950k - $1.02m" (midpoint). Text
+// without a dollar figure, like "Contact agent", gives null.
+export const parsePriceText = (text: string | null | undefined): number | null => {
+  if (!text) return null;
+  const amounts = Array.from(text.matchAll(/\$\s*(\d[\d,]*(?:\.\d+)?\s*(?:million|mil|m|k)?)\b/gi))
+    .map(match => parseAmount(match[1].trim()))
+    .filter(value => !isNaN(value) && value >= 10000);
+  if (amounts.length === 0) return null;
+
+  const [first, second] = amounts;
+  return second !== undefined ? Math.round((first + second) / 2) : first;
+};
+
+// "450m²", "450 sqm", "0.2 ha", "1.5 acres" -> square metres
+export const parseLandSizeText = (text: string | null | undefined): number | null => {
+  if (!text) return null;
+  const match = text.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(m²|m2|sqm|sq\.?\s?m|square metres|hectares?|ha|acres?)(?![a-z])/i);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  if (unit.startsWith('ha') || unit.startsWith('hectare')) return Math.round(value * SQM_PER_HECTARE);
+  if (unit.startsWith('acre')) return Math.round(value * SQM_PER_ACRE);
+  return Math.round(value);
+};
+
+// "12 Smith St, Fitzroy, VIC 3065" and "12 Smith Street, Fitzroy VIC 3065" -> "Fitzroy"
+export const parseSuburbFromAddress = (address: string | null | undefined): string | null => {
+  if (!address) return null;
+  const parts = address.split(',').map(part => part.trim()).filter(Boolean);
+  const statePattern = new RegExp(`\\b(${STATES.join('|')})\\b\\.?\\s*(\\d{4})?$`, 'i');
+
+  for (let i = parts.length - 1; i >= 0; i--) {
+    if (!statePattern.test(parts[i])) continue;
+    const beforeState = parts[i].replace(statePattern, '').trim();
+    if (beforeState) return beforeState;
+    return i > 0 ? parts[i - 1] : null;
+  }
+
+  // No state in the address: assume the last part is the suburb
+  return parts.length > 1 ? parts[parts.length - 1] : null;
+};
+
+const text = (doc: Document, selector: string): string | null => {
+  const element = doc.querySelector(selector);
+  const content = element ? (element.textContent || '').replace(/\s+/g, ' ').trim() : '';
+  return content || null;
+};
+
+const findJsonLd = (doc: Document): any[] => {
+  const items: any[] = [];
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+    try {
+      const data = JSON.parse(script.textContent || '');
+      const list = Array.isArray(data) ? data : data['@graph'] || [data];
+      items.push(...list);
+    } catch (err) {
+      // Sites sometimes ship broken JSON-LD; the other strategies still apply
+    }
+  });
+  return items;
+};
+
+interface FieldCandidates {
+  priceText?: string | null;
+  landSizeText?: string | null;
+  address?: string | null;
+  suburb?: string | null;
+}
+
+const fromJsonLd = (doc: Document): FieldCandidates => {
+  const candidates: FieldCandidates = {};
+  findJsonLd(doc).forEach(item => {
+    if (!item || typeof item !== 'object') return;
+    const address = item.address || (item.itemOffered && item.itemOffered.address);
+    if (address && address.addressLocality && !candidates.suburb) candidates.suburb = String(address.addressLocality);
+
+    const offers = item.offers || (item.itemOffered && item.itemOffered.offers);
+    if (offers && offers.price !== undefined && !candidates.priceText) candidates.priceText = `$${offers.price}`;
+
+    const lot = item.lotSize || item.landSize || (item.itemOffered && item.itemOffered.lotSize);
+    if (lot && !candidates.landSizeText) {
+      candidates.landSizeText = typeof lot === 'object'
+        ? `${lot.value} ${lot.unitText || lot.unitCode || 'sqm'}`.replace(/\bMTK\b/, 'sqm')
+        : String(lot);
+    }
+  });
+  return candidates;
+};
+
+const fromRealestate = (doc: Document): FieldCandidates => ({
+  priceText: text(doc, '.property-price') || text(doc, '[data-testid="listing-details__summary-title"]'),
+  landSizeText: text(doc, '.property-size'),
+  address: text(doc, '.property-info-address') || text(doc, 'h1.property-info-address__address')
+});
+
+const fromDomain = (doc: Document): FieldCandidates => ({
+  priceText: text(doc, '[data-testid="listing-details__summary-title"]'),
+  landSizeText: Array.from(doc.querySelectorAll('[data-testid="property-features-text-container"]'))
+    .map(element => element.textContent || '')
+    .find(content => parseLandSizeText(content) !== null) || null,
+  address: text(doc, '[data-testid="listing-details__button-copy-wrapper"] h1')
+});
+
+const fromPageText = (doc: Document): FieldCandidates => {
+  const body = (doc.body ? doc.body.textContent || '' : '').replace(/\s+/g, ' ');
+  const landMatch = body.match(/land(?:\s+size|\s+area)?\s*:?\s*(\d[\d,.]*\s*(?:m²|m2|sqm|ha|hectares?|acres?))/i);
+  const priceMatch = body.match(/\$\s*\d[\d,.]*\s*(?:million|m|k)?(?:\s*-\s*\$\s*\d[\d,.]*\s*(?:million|m|k)?)?/i);
+  return {
+    priceText: priceMatch ? priceMatch[0] : null,
+    landSizeText: landMatch ? landMatch[1] : null,
+    address: text(doc, 'h1')
+  };
+};
+
+export const parseListingPage = (doc: Document, url: string = ''): ParsedListing => {
+  const strategies: [ListingSource, FieldCandidates][] = [['json-ld', fromJsonLd(doc)]];
+  if (/realestate\.com\.au/.test(url) || doc.querySelector('.property-info-address, .property-price')) {
+    strategies.push(['realestate.com.au', fromRealestate(doc)]);
+  }
+  if (/domain\.com\.au/.test(url) || doc.querySelector('[data-testid^="listing-details"]')) {
+    strategies.push(['domain.com.au', fromDomain(doc)]);
+  }
+  strategies.push(['page-text', fromPageText(doc)]);
+
+  const listing: ParsedListing = { price: null, landSize: null, suburb: null, priceText: null, sources: {} };
+  strategies.forEach(([source, candidates]) => {
+    // Once a strategy finds the price element, its text is final: a listing
+    // showing "Contact agent" shouldn't pick up some other figure on the page
+    if (listing.priceText === null && candidates.priceText) {
+      listing.priceText = candidates.priceText;
+      const price = parsePriceText(candidates.priceText);
+      if (price !== null) {
+        listing.price = price;
+        listing.sources.price = source;
+      }
+    }
+    if (listing.landSize === null) {
+      const landSize = parseLandSizeText(candidates.landSizeText);
+      if (landSize !== null) {
+        listing.landSize = landSize;
+        listing.sources.landSize = source;
+      }
+    }
+    if (listing.suburb === null) {
+      const suburb = candidates.suburb || parseSuburbFromAddress(candidates.address);
+      if (suburb) {
+        listing.suburb = suburb;
+        listing.sources.suburb = source;
+      }
+    }
+  });
+
+  return listing;
+};
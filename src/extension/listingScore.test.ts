@@ -0,0 +1,47 @@
+import { parseSuburbCsv } from '../utils/suburbDataLoader';
+import { getScoringRows, scoreListing } from './listingScore';
+
+const { rows } = parseSuburbCsv([
+  'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm',
+  'Yarra,Fitzroy,200,"$1,200,000","$6,000"',
+  'Yarra,Collingwood,200,"$1,000,000","$5,000"',
+  'Darebin,Northcote,400,"$1,600,000","$4,000"'
+].join('\n'));
+
+const listing = { price: 1400000, landSize: 200, suburb: 'fitzroy', priceText: '$1,400,000', sources: {} };
+
+test('scores a listing against its suburb and LGA', () => {
+  const score = scoreListing(listing, rows);
+
+  expect(score.status).toBe('scored');
+  if (score.status !== 'scored') return;
+  expect(score.row.suburb).toBe('Fitzroy');
+  expect(score.evaluation).toMatchObject({ pricePerSqm: 7000, lgaPricePerSqm: 5500, percentile: 100 });
+  expect(score.color).toBe('#d73027');
+});
+
+test('reports what the page was missing', () => {
+  expect(scoreListing({ ...listing, price: null, landSize: null }, rows)).toEqual({ status: 'incomplete', missing: ['price', 'land size'] });
+  expect(scoreListing({ ...listing, suburb: 'Atlantis' }, rows)).toEqual({ status: 'unknown-suburb', suburb: 'Atlantis' });
+});
+
+test('scores against the corrected house rows', () => {
+  const dataset = parseSuburbCsv([
+    'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm,Property Type',
+    'Yarra,Fitzroy,200,"$1,200,000","$6,000",House',
+    'Yarra,Fitzroy,,"$700,000",,Unit',
+    'Yarra,Collingwood,200,"$1,000,000","$5,000",House'
+  ].join('\n'));
+  const overrides = [
+    { suburb: 'Fitzroy', snapshot: '2025-Q1', fields: { 'Median Price': '$1,600,000' }, reason: 'Typo', source: 'REIV' },
+    { suburb: 'Collingwood', snapshot: '2024-Q4', fields: { 'Median Price': '$1' }, reason: 'Old', source: 'REIV' }
+  ];
+  const scoringRows = getScoringRows(dataset, overrides, '2025-Q1');
+
+  expect(scoringRows.map(row => [row.suburb, row.propertyType, row.pricePerSqm])).toEqual([
+    ['Fitzroy', 'house', 8000],
+    ['Collingwood', 'house', 5000]
+  ]);
+  const score = scoreListing(listing, scoringRows);
+  expect(score.status === 'scored' && score.evaluation.vsSuburb).toBe(-12.5);
+});
@@ -0,0 +1,60 @@
+import { classify, getClassColor } from '../utils/classification';
+import { getLgaAverages } from '../utils/lgaAggregation';
+import { evaluateListing, ListingEvaluation } from '../utils/listingEvaluator';
+import { METRICS } from '../utils/metrics';
+import { SuburbData, SuburbDataset } from '../utils/suburbDataLoader';
+import { prepareRows } from '../utils/suburbJoin';
+import { createSuburbMatcher } from '../utils/suburbMatcher';
+import { SuburbOverride } from '../utils/suburbOverrides';
+import { ParsedListing } from './listingParser';
+
+// Scores a parsed listing against the suburb CSV the map is drawn from, with
+// the map's own matching and $/sqm colour scale.
+
+// The quarter's rows as the map shows them: houses only, since listings are
+// scored per sqm of land, with the same manual corrections
+export const getScoringRows = (dataset: SuburbDataset, overrides: SuburbOverride[], snapshotId: string): SuburbData[] =>
+  prepareRows(dataset, overrides, snapshotId, { propertyType: 'house' }).rows;
+
+export type ListingScore =
+  | { status: 'scored'; row: SuburbData; evaluation: ListingEvaluation; color: string }
+  // Something needed for $/sqm couldn't be read from the page
+  | { status: 'incomplete'; missing: ('price' | 'land size' | 'suburb')[] }
+  | { status: 'unknown-suburb'; suburb: string };
+
+export const scoreListing = (listing: ParsedListing, rows: SuburbData[]): ListingScore => {
+  const missing: ('price' | 'land size' | 'suburb')[] = [];
+  if (listing.price === null) missing.push('price');
+  if (listing.landSize === null) missing.push('land size');
+  if (listing.suburb === null) missing.push('suburb');
+  if (listing.price === null || listing.landSize === null || listing.suburb === null) {
+    return { status: 'incomplete', missing };
+  }
+
+  const match = createSuburbMatcher(rows.map(row => row.suburb))(listing.suburb);
+  if (!match) return { status: 'unknown-suburb', suburb: listing.suburb };
+  const row = rows[match.index];
+
+  const lgaAverages = getLgaAverages(rows.map(other => ({
+    lga: other.lga,
+    price_sqm: other.pricePerSqm,
+    median_price: other.medianPrice,
+    block_size: other.blockSize
+  })));
+  const lgaAverage = lgaAverages.get(row.lga);
+  const allPricesPerSqm = rows.map(other => other.pricePerSqm);
+
+  const evaluation = evaluateListing(
+    { askingPrice: listing.price, landSize: listing.landSize },
+    row.pricePerSqm,
+    lgaAverage ? lgaAverage.price_sqm : null,
+    allPricesPerSqm
+  );
+  const classification = classify(allPricesPerSqm, {
+    scheme: 'manual',
+    classCount: METRICS.price_sqm.manualBreaks.length + 1,
+    manualBreaks: METRICS.price_sqm.manualBreaks
+  });
+
+  return { status: 'scored', row, evaluation, color: getClassColor(evaluation.pricePerSqm, classification) };
+};
@@ -0,0 +1,3 @@
+// Sent by the popup to the content script of the active tab, which replies
+// with a ParsedListing
+export const PARSE_LISTING_MESSAGE = 'parse-listing';
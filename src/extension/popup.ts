@@ -0,0 +1,78 @@
+import { escapeHtml } from '../utils/html';
+import { describeDifference } from '../utils/listingEvaluator';
+import { METRICS } from '../utils/metrics';
+import { parseSuburbCsv } from '../utils/suburbDataLoader';
+import { isSuburbOverride } from '../utils/suburbOverrides';
+import { ParsedListing } from './listingParser';
+import { getScoringRows, scoreListing } from './listingScore';
+import { PARSE_LISTING_MESSAGE } from './messages';
+
+// Toolbar popup: reads the listing from the active tab and compares its
+// $/sqm with the suburb figures bundled into the extension.
+
+const root = document.getElementById('root') as HTMLElement;
+
+const render = (html: string) => {
+  root.innerHTML = html;
+};
+
+const readListing = async (): Promise<ParsedListing | null> => {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab || tab.id === undefined) return null;
+  try {
+    return await chrome.tabs.sendMessage(tab.id, { type: PARSE_LISTING_MESSAGE });
+  } catch (err) {
+    // No content script on this page: it isn't a supported listing site
+    return null;
+  }
+};
+
+const loadFile = async (file: string): Promise<Response> => {
+  const response = await fetch(chrome.runtime.getURL(file));
+  if (!response.ok) throw new Error(`Failed to load ${file} (${response.status})`);
+  return response;
+};
+
+const loadRows = async () => {
+  const [prices, snapshot, overrides] = await Promise.all([
+    loadFile('prices.csv').then(response => response.text()),
+    loadFile('snapshot.json').then(response => response.json()),
+    loadFile('overrides.json').then(response => response.json())
+  ]);
+  const valid = Array.isArray(overrides) ? overrides.filter(isSuburbOverride) : [];
+  return getScoringRows(parseSuburbCsv(prices), valid, snapshot.id);
+};
+
+const run = async () => {
+  const [listing, rows] = await Promise.all([readListing(), loadRows()]);
+  if (!listing) {
+    render('<p>Open a listing on realestate.com.au or domain.com.au to score it.</p>');
+    return;
+  }
+
+  const score = scoreListing(listing, rows);
+  if (score.status === 'incomplete') {
+    const price = listing.priceText ? `<p class="muted">Price shown: ${escapeHtml(listing.priceText)}</p>` : '';
+    render(`<p>Couldn't find the ${score.missing.join(', ')} on this page.</p>${price}`);
+    return;
+  }
+  if (score.status === 'unknown-suburb') {
+    render(`<p>No price data for ${escapeHtml(score.suburb)}.</p>`);
+    return;
+  }
+
+  const { row, evaluation, color } = score;
+  const format = METRICS.price_sqm.format;
+  render(`
+    <h1>${escapeHtml(row.suburb)} <span class="muted">${escapeHtml(row.lga)}</span></h1>
+    <p class="score"><span class="swatch" style="background:${color}"></span>${format(evaluation.pricePerSqm)}/sqm</p>
+    <p class="muted">${METRICS.median_price.format(evaluation.askingPrice)} for ${evaluation.landSize.toLocaleString()} sqm</p>
+    <p><strong>vs suburb:</strong> ${describeDifference(evaluation.vsSuburb)} (${format(evaluation.suburbPricePerSqm)})</p>
+    <p><strong>vs LGA average:</strong> ${describeDifference(evaluation.vsLga)} (${format(evaluation.lgaPricePerSqm)})</p>
+    ${evaluation.percentile !== null ? `<p>Dearer than ${Math.round(evaluation.percentile)}% of suburbs</p>` : ''}
+  `);
+};
+
+run().catch(err => {
+  render(`<p>Couldn't score this listing: ${escapeHtml(err instanceof Error ? err.message : String(err))}</p>`);
+});
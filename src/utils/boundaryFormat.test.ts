@@ -0,0 +1,56 @@
+import { topology } from 'topojson-server';
+import { getBoundaryFormat, parseBoundaries } from './boundaryFormat';
+import { BoundaryCollection } from './suburbJoin';
+
+const square = (name: string, west: number, east: number) => ({
+  type: 'Feature',
+  properties: { vic_loca_2: name },
+  geometry: {
+    type: 'Polygon',
+    coordinates: [[[west, -37.8], [east, -37.8], [east, -37.9], [west, -37.9], [west, -37.8]]]
+  }
+});
+
+const boundaries: BoundaryCollection = {
+  type: 'FeatureCollection',
+  features: [square('Fitzroy', 144.9, 145.0), square('Collingwood', 145.0, 145.1)]
+};
+
+test('recognises GeoJSON and TopoJSON', () => {
+  expect(getBoundaryFormat(boundaries)).toBe('geojson');
+  expect(getBoundaryFormat(topology({ suburbs: boundaries as any }))).toBe('topojson');
+  expect(getBoundaryFormat({ type: 'Feature' })).toBeNull();
+  expect(getBoundaryFormat(null)).toBeNull();
+});
+
+test('reads GeoJSON as it is', () => {
+  const { collection, format } = parseBoundaries(JSON.stringify(boundaries));
+
+  expect(format).toBe('geojson');
+  expect(collection).toEqual(boundaries);
+});
+
+test('converts a TopoJSON object back to features with their properties', () => {
+  const progress: number[][] = [];
+  const { collection, format } = parseBoundaries(
+    JSON.stringify(topology({ suburbs: boundaries as any })),
+    (completed, total) => progress.push([completed, total])
+  );
+
+  expect(format).toBe('topojson');
+  expect(collection.features.map(feature => feature.properties.vic_loca_2)).toEqual(['Fitzroy', 'Collingwood']);
+  expect(collection.features[0].geometry.type).toBe('Polygon');
+  expect(collection.features[0].geometry.coordinates[0]).toContainEqual([145.0, -37.9]);
+  expect(progress[progress.length - 1]).toEqual([2, 2]);
+});
+
+test('uses the only object of a topology from elsewhere', () => {
+  const { collection } = parseBoundaries(JSON.stringify(topology({ localities: boundaries as any })));
+
+  expect(collection.features).toHaveLength(2);
+});
+
+test('rejects anything else', () => {
+  expect(() => parseBoundaries('{"type":"Feature"}')).toThrow('neither');
+  expect(() => parseBoundaries('not json')).toThrow();
+});
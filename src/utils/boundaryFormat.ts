@@ -0,0 +1,65 @@
+import { feature } from 'topojson-client';
+import { GeometryObject, Objects, Topology } from 'topojson-specification';
+import { TOPOLOGY_OBJECT } from './detailLevels';
+import { BoundaryCollection, BoundaryFeature } from './suburbJoin';
+
+// Suburb boundaries arrive as GeoJSON (vic_suburbs.json, most remote
+// sources) or as TopoJSON (the precomputed files), which is several times
+// smaller because neighbouring suburbs share their edges. Either way the map
+// works with a GeoJSON FeatureCollection.
+
+export type BoundaryFormat = 'geojson' | 'topojson';
+
+// How many features are converted between progress reports
+const PROGRESS_STEP = 200;
+
+export const getBoundaryFormat = (data: any): BoundaryFormat | null => {
+  if (!data || typeof data !== 'object') return null;
+  if (data.type === 'FeatureCollection' && Array.isArray(data.features)) return 'geojson';
+  if (data.type === 'Topology' && data.objects && typeof data.objects === 'object' && Array.isArray(data.arcs)) {
+    return 'topojson';
+  }
+  return null;
+};
+
+// The precomputed object by name, or the only object in a topology from
+// elsewhere
+const getBoundaryObject = (topology: Topology<Objects>): GeometryObject => {
+  const names = Object.keys(topology.objects);
+  const name = names.includes(TOPOLOGY_OBJECT) ? TOPOLOGY_OBJECT : names[0];
+  if (!name) throw new Error('TopoJSON boundaries contain no objects');
+  return topology.objects[name];
+};
+
+const topologyToCollection = (
+  topology: Topology<Objects>,
+  onProgress: (completed: number, total: number) => void
+): BoundaryCollection => {
+  const object = getBoundaryObject(topology);
+  const geometries = object.type === 'GeometryCollection' ? object.geometries : [object];
+  const features: BoundaryFeature[] = [];
+  geometries.forEach((geometry, index) => {
+    features.push(feature(topology, geometry) as unknown as BoundaryFeature);
+    if ((index + 1) % PROGRESS_STEP === 0) onProgress(index + 1, geometries.length);
+  });
+  onProgress(geometries.length, geometries.length);
+  return { type: 'FeatureCollection', features };
+};
+
+// Throws when the text is neither format, so a bad remote response is never
+// cached
+export const parseBoundaries = (
+  text: string,
+  onProgress: (completed: number, total: number) => void = () => {}
+): { collection: BoundaryCollection; format: BoundaryFormat } => {
+  const data = JSON.parse(text);
+  const format = getBoundaryFormat(data);
+  if (format === 'geojson') {
+    onProgress(data.features.length, data.features.length);
+    return { collection: data, format };
+  }
+  if (format === 'topojson') {
+    return { collection: topologyToCollection(data, onProgress), format };
+  }
+  throw new Error('Boundaries are neither a GeoJSON FeatureCollection nor a TopoJSON topology');
+};
@@ -0,0 +1,50 @@
+import { classify, computeBreaks, getClassColor, getClassColors, getLegendClasses, NO_DATA_COLOR, PALETTE } from './classification';
+
+const values = [1, 2, 3, 4, 10, 11, 12, 30, 31, 32];
+
+test('equal interval splits the range evenly', () => {
+  expect(computeBreaks(values, { scheme: 'equal-interval', classCount: 3 })).toEqual([11.333333333333334, 21.666666666666668]);
+});
+
+test('quantile puts the same number of values in each class', () => {
+  const classification = classify(values, { scheme: 'quantile', classCount: 5 });
+  expect(classification.breaks).toEqual([3, 10, 12, 31]);
+  expect(classification.counts).toEqual([2, 2, 2, 2, 2]);
+});
+
+test('jenks finds the natural gaps', () => {
+  expect(computeBreaks(values, { scheme: 'jenks', classCount: 3 })).toEqual([10, 30]);
+});
+
+test('manual breaks are sorted and deduplicated', () => {
+  expect(computeBreaks(values, { scheme: 'manual', classCount: 3, manualBreaks: [20, 5, 20] })).toEqual([5, 20]);
+});
+
+test('missing and zero values are counted as no data', () => {
+  const classification = classify([null, 0, undefined, 5, 15], { scheme: 'manual', classCount: 2, manualBreaks: [10] });
+  expect(classification.counts).toEqual([1, 1]);
+  expect(classification.noDataCount).toBe(3);
+  expect(getClassColor(0, classification)).toBe(NO_DATA_COLOR);
+  expect(getClassColor(15, classification)).toBe(classification.colors[1]);
+});
+
+test('collapses classes when values repeat', () => {
+  const classification = classify([250, 250, 250, 420, 420], { scheme: 'quantile', classCount: 5 });
+  expect(classification.breaks).toEqual([420]);
+  expect(classification.colors).toHaveLength(2);
+});
+
+test('spreads the palette over the class count', () => {
+  expect(getClassColors(8)).toEqual(PALETTE);
+  expect(getClassColors(3)).toEqual([PALETTE[0], PALETTE[4], PALETTE[7]]);
+});
+
+test('legend labels and counts come from the classification', () => {
+  const classification = classify([1000, 3500, 9500], { scheme: 'manual', classCount: 3, manualBreaks: [3000, 9000] });
+  const format = (value: number) => `$${value.toLocaleString()}`;
+  expect(getLegendClasses(classification, format)).toEqual([
+    { color: classification.colors[0], label: 'Under $3,000', count: 1 },
+    { color: classification.colors[1], label: '$3,000 - $9,000', count: 1 },
+    { color: classification.colors[2], label: '$9,000+', count: 1 }
+  ]);
+});
@@ -0,0 +1,215 @@
+// Choropleth classification: turns a set of values into class breaks, a
+// colour per class and a count per class. Every map and legend colours from
+// the same Classification, so they can't disagree.
+
+export type ClassificationScheme = 'equal-interval' | 'quantile' | 'jenks' | 'manual';
+
+export interface ClassificationOptions {
+  scheme: ClassificationScheme;
+  // Ignored by the manual scheme, which has one more class than breaks
+  classCount: number;
+  manualBreaks?: number[];
+}
+
+export interface Classification {
+  // Upper bounds (exclusive) of every class but the last, ascending
+  breaks: number[];
+  colors: string[];
+  counts: number[];
+  noDataCount: number;
+  min: number | null;
+  max: number | null;
+}
+
+export interface LegendClass {
+  color: string;
+  label: string;
+  count: number;
+}
+
+export const CLASSIFICATION_SCHEMES: { key: ClassificationScheme; label: string }[] = [
+  { key: 'manual', label: 'Manual breaks' },
+  { key: 'equal-interval', label: 'Equal interval' },
+  { key: 'quantile', label: 'Quantile' },
+  { key: 'jenks', label: 'Natural breaks (Jenks)' }
+];
+
+export const MIN_CLASSES = 3;
+export const MAX_CLASSES = 8;
+
+// Green for cheap/small through to dark red for expensive/large
+export const PALETTE = ['#1a9850', '#91cf60', '#d9ef8b', '#fee08b', '#fc8d59', '#d73027', '#bd0026', '#800026'];
+
+export const NO_DATA_COLOR = '#cccccc';
+
+// Spread the palette evenly over the number of classes
+export const getClassColors = (classCount: number): string[] => {
+  if (classCount >= PALETTE.length) return PALETTE.slice();
+  if (classCount <= 1) return [PALETTE[0]];
+
+  const colors: string[] = [];
+  for (let i = 0; i < classCount; i++) {
+    colors.push(PALETTE[Math.round(i * (PALETTE.length - 1) / (classCount - 1))]);
+  }
+  return colors;
+};
+
+// Only positive numbers count as data; zero means "no recorded price"
+export const isDataValue = (value: number | null | undefined): value is number =>
+  typeof value === 'number' && !isNaN(value) && value > 0;
+
+const equalIntervalBreaks = (sorted: number[], classCount: number): number[] => {
+  const min = sorted[0];
+  const step = (sorted[sorted.length - 1] - min) / classCount;
+  const breaks: number[] = [];
+  for (let i = 1; i < classCount; i++) breaks.push(min + step * i);
+  return breaks;
+};
+
+const quantileBreaks = (sorted: number[], classCount: number): number[] => {
+  const breaks: number[] = [];
+  for (let i = 1; i < classCount; i++) {
+    breaks.push(sorted[Math.floor(i * sorted.length / classCount)]);
+  }
+  return breaks;
+};
+
+// Fisher-Jenks natural breaks: minimise the variance within each class.
+// Returns the lowest value of each class after the first.
+const jenksBreaks = (sorted: number[], classCount: number): number[] => {
+  const n = sorted.length;
+  const lowerClassLimits: number[][] = [];
+  const varianceCombinations: number[][] = [];
+
+  for (let i = 0; i <= n; i++) {
+    lowerClassLimits.push(new Array(classCount + 1).fill(0));
+    varianceCombinations.push(new Array(classCount + 1).fill(i < 2 ? 0 : Infinity));
+  }
+  for (let j = 1; j <= classCount; j++) {
+    lowerClassLimits[1][j] = 1;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+
+    for (let m = 1; m <= l; m++) {
+      const lowerClassLimit = l - m + 1;
+      const value = sorted[lowerClassLimit - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+
+      if (lowerClassLimit > 1) {
+        for (let j = 2; j <= classCount; j++) {
+          const candidate = variance + varianceCombinations[lowerClassLimit - 1][j - 1];
+          if (varianceCombinations[l][j] >= candidate) {
+            lowerClassLimits[l][j] = lowerClassLimit;
+            varianceCombinations[l][j] = candidate;
+          }
+        }
+      }
+    }
+
+    lowerClassLimits[l][1] = 1;
+    varianceCombinations[l][1] = variance;
+  }
+
+  const breaks: number[] = [];
+  let k = n;
+  for (let j = classCount; j >= 2; j--) {
+    const lowerIndex = lowerClassLimits[k][j] - 1;
+    breaks.unshift(sorted[lowerIndex]);
+    k = lowerIndex;
+  }
+  return breaks;
+};
+
+const uniqueAscending = (breaks: number[]): number[] =>
+  breaks
+    .filter(value => !isNaN(value))
+    .sort((a, b) => a - b)
+    .filter((value, index, all) => index === 0 || value !== all[index - 1]);
+
+export const computeBreaks = (values: number[], options: ClassificationOptions): number[] => {
+  if (options.scheme === 'manual') {
+    return uniqueAscending((options.manualBreaks || []).slice());
+  }
+
+  const sorted = values.filter(isDataValue).sort((a, b) => a - b);
+  const classCount = Math.min(Math.max(options.classCount, 1), sorted.length);
+  if (classCount < 2) return [];
+
+  let breaks: number[];
+  switch (options.scheme) {
+    case 'equal-interval':
+      breaks = equalIntervalBreaks(sorted, classCount);
+      break;
+    case 'quantile':
+      breaks = quantileBreaks(sorted, classCount);
+      break;
+    case 'jenks':
+      breaks = jenksBreaks(sorted, classCount);
+      break;
+    default:
+      breaks = [];
+  }
+
+  // Repeated values can collapse classes; a break at the minimum would leave
+  // the first class empty
+  return uniqueAscending(breaks).filter(value => value > sorted[0]);
+};
+
+export const getClassIndex = (value: number, breaks: number[]): number => {
+  for (let i = 0; i < breaks.length; i++) {
+    if (value < breaks[i]) return i;
+  }
+  return breaks.length;
+};
+
+export const classify = (
+  values: (number | null | undefined)[],
+  options: ClassificationOptions
+): Classification => {
+  const dataValues = values.filter(isDataValue);
+  const breaks = computeBreaks(dataValues, options);
+  const counts = new Array(breaks.length + 1).fill(0);
+  dataValues.forEach(value => counts[getClassIndex(value, breaks)]++);
+
+  return {
+    breaks,
+    colors: getClassColors(breaks.length + 1),
+    counts,
+    noDataCount: values.length - dataValues.length,
+    min: dataValues.length ? Math.min(...dataValues) : null,
+    max: dataValues.length ? Math.max(...dataValues) : null
+  };
+};
+
+export const getClassColor = (value: number | null | undefined, classification: Classification): string => {
+  if (!isDataValue(value)) return NO_DATA_COLOR;
+  return classification.colors[getClassIndex(value, classification.breaks)];
+};
+
+// "Under $3,000", "$3,000 - $4,000", …, "$9,000+"
+export const getLegendClasses = (
+  classification: Classification,
+  format: (value: number) => string
+): LegendClass[] => {
+  const { breaks, colors, counts } = classification;
+
+  return colors.map((color, i) => {
+    let label: string;
+    if (breaks.length === 0) {
+      label = 'All values';
+    } else if (i === 0) {
+      label = `Under ${format(breaks[0])}`;
+    } else if (i === breaks.length) {
+      label = `${format(breaks[i - 1])}+`;
+    } else {
+      label = `${format(breaks[i - 1])} - ${format(breaks[i])}`;
+    }
+    return { color, label, count: counts[i] };
+  });
+};
@@ -0,0 +1,36 @@
+import { explainMissingValue, getQualityStatus, getQualityStyle } from './dataQuality';
+
+const matched = { matched_suburb: 'Fitzroy', median_price: 1300000, block_size: 200, price_sqm: 6500, lot_size_source: 'suburb' };
+
+test('ranks a missing price above a correction above an estimated block size', () => {
+  expect(getQualityStatus({ vic_loca_2: 'Fitzroy' })).toBe('unmatched');
+  expect(getQualityStatus({ ...matched, median_price: null, overridden_fields: ['$/sqm'] })).toBe('price-missing');
+  expect(getQualityStatus({ ...matched, overridden_fields: ['Median Price'], lot_size_source: 'lga' })).toBe('overridden');
+  expect(getQualityStatus({ ...matched, lot_size_source: 'lga' })).toBe('lga-estimate');
+  expect(getQualityStatus(matched)).toBe('complete');
+});
+
+test('outlines an estimated block size only while land is on the map', () => {
+  const estimated = { ...matched, lot_size_source: 'lga' };
+
+  expect(getQualityStyle(estimated, 'price_sqm')).toMatchObject({ dashArray: '1 4' });
+  expect(getQualityStyle(estimated, 'median_price')).toBeNull();
+  expect(getQualityStyle(matched, 'price_sqm')).toBeNull();
+});
+
+test('hatches only where the metric has no value', () => {
+  const unpriced = { ...matched, median_price: null, price_sqm: null };
+
+  expect(getQualityStyle({ vic_loca_2: 'Fitzroy' }, 'median_price')).toEqual({ fillColor: 'url(#hatch-unmatched)' });
+  expect(getQualityStyle({ vic_loca_2: 'Fitzroy', quality_status: 'type-missing' }, 'median_price')).toEqual({ fillColor: 'url(#hatch-type-missing)' });
+  expect(getQualityStyle(unpriced, 'price_sqm')).toEqual({ fillColor: 'url(#hatch-price-missing)' });
+  expect(getQualityStyle(unpriced, 'block_size')).toBeNull();
+});
+
+test('says why a priced suburb has no value for the metric', () => {
+  expect(explainMissingValue({ ...matched, block_size: null, price_sqm: null }, 'price_sqm')).toContain('No block size');
+  expect(explainMissingValue({ ...matched, price_sqm: null, valuation_model: 'land-residual' }, 'price_sqm')).toContain('building value');
+  expect(explainMissingValue({ ...matched, price_sqm: null, property_type: 'unit' }, 'price_sqm')).toBeNull();
+  expect(explainMissingValue({ ...matched, median_price: null, price_sqm: null }, 'price_sqm')).toBeNull();
+  expect(explainMissingValue(matched, 'price_sqm')).toBeNull();
+});
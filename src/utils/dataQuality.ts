@@ -0,0 +1,121 @@
+import { METRICS, MetricKey } from './metrics';
+
+// How far each suburb's figures can be trusted. The join records what it
+// knows about a row (whether it matched, was corrected, whose block size it
+// used); this reduces that to one status per feature, drawn with its own
+// hatch or outline so a missing or approximate value never passes for a
+// measured one.
+
+export type QualityStatus = 'complete' | 'price-missing' | 'lga-estimate' | 'overridden' | 'type-missing' | 'unmatched';
+
+export interface HatchPattern {
+  // SVG element id, referenced as the fill of a path or legend swatch
+  id: string;
+  color: string;
+  background: string;
+  // Crossed lines rather than single diagonals
+  cross: boolean;
+}
+
+export const HATCH_PATTERNS: HatchPattern[] = [
+  { id: 'hatch-price-missing', color: '#888888', background: '#eeeeee', cross: false },
+  { id: 'hatch-type-missing', color: '#c2a5cf', background: '#f7f3f9', cross: false },
+  { id: 'hatch-unmatched', color: '#aaaaaa', background: '#f7f7f7', cross: true }
+];
+
+export interface QualityStyle {
+  fillColor?: string;
+  color?: string;
+  weight?: number;
+  dashArray?: string;
+}
+
+export interface QualityStatusDefinition {
+  label: string;
+  // Why the popup's figures are missing or approximate; null when they aren't
+  explanation: string | null;
+  style: QualityStyle | null;
+  // Only drawn while the map shows a metric that depends on land
+  landOnly: boolean;
+}
+
+export const QUALITY_STATUSES: Record<QualityStatus, QualityStatusDefinition> = {
+  complete: {
+    label: 'Full data',
+    explanation: null,
+    style: null,
+    landOnly: false
+  },
+  'price-missing': {
+    label: 'Price missing',
+    explanation: 'No median price was recorded for this suburb in this period, so it has no value on the map',
+    style: { fillColor: 'url(#hatch-price-missing)' },
+    landOnly: false
+  },
+  'lga-estimate': {
+    label: 'Block size from council average',
+    explanation: 'The block size is the average for the whole council, not this suburb\'s own, so $/sqm is approximate',
+    style: { color: '#555555', weight: 1.5, dashArray: '1 4' },
+    landOnly: true
+  },
+  overridden: {
+    label: 'Manually corrected',
+    explanation: 'Figures from the price file were corrected by hand; see the note below',
+    style: { color: '#b35806', weight: 2, dashArray: '' },
+    landOnly: false
+  },
+  'type-missing': {
+    label: 'No price for this property type',
+    explanation: 'The price data has this suburb, but no row for the property type shown, so it has no figures here',
+    style: { fillColor: 'url(#hatch-type-missing)' },
+    landOnly: false
+  },
+  unmatched: {
+    label: 'No matching price row',
+    explanation: 'No suburb in the price data matched this boundary\'s name, so it has no figures',
+    style: { fillColor: 'url(#hatch-unmatched)' },
+    landOnly: false
+  }
+};
+
+// Order used by the legend, worst first
+export const QUALITY_STATUS_KEYS: QualityStatus[] = ['unmatched', 'type-missing', 'price-missing', 'overridden', 'lga-estimate', 'complete'];
+
+// From the properties the join wrote. A missing price outranks a correction,
+// which outranks an estimated block size. Only the join knows whether a
+// boundary without a row had one of another property type, so that is kept.
+export const getQualityStatus = (properties: { [key: string]: any }): QualityStatus => {
+  if (!properties.matched_suburb) return properties.quality_status === 'type-missing' ? 'type-missing' : 'unmatched';
+  if (properties.median_price === null || properties.median_price === undefined) return 'price-missing';
+  if (properties.overridden_fields) return 'overridden';
+  if (properties.lot_size_source === 'lga') return 'lga-estimate';
+  return 'complete';
+};
+
+// Drawn over the feature's class colour, or in place of it. A hatch only
+// stands in for a missing value: a suburb without a price still has a block
+// size to colour by.
+export const getQualityStyle = (properties: { [key: string]: any }, metric: MetricKey): QualityStyle | null => {
+  const definition = QUALITY_STATUSES[getQualityStatus(properties)];
+  if (!definition.style || (definition.landOnly && !METRICS[metric].needsLand)) return null;
+  const value = properties[metric];
+  if (definition.style.fillColor && value !== null && value !== undefined) return null;
+  return definition.style;
+};
+
+// Why a feature with a price still has no value for the metric, if it hasn't
+export const explainMissingValue = (properties: { [key: string]: any }, metric: MetricKey): string | null => {
+  const value = properties[metric];
+  if (value !== null && value !== undefined) return null;
+  // Their status already says why
+  const status = getQualityStatus(properties);
+  if (status === 'unmatched' || status === 'type-missing' || status === 'price-missing') return null;
+  if (!METRICS[metric].needsLand || (properties.property_type && properties.property_type !== 'house')) return null;
+  if (properties.block_size === null || properties.block_size === undefined) {
+    return 'No block size is recorded, so there is no $/sqm';
+  }
+  if (metric === 'price_sqm' && properties.valuation_model === 'land-residual') {
+    return 'The median price is below the estimated building value, so no land value is left';
+  }
+  return null;
+};
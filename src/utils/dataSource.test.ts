@@ -0,0 +1,127 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  createMemoryCache,
+  FetchText,
+  loadWithFallback,
+  parseDataSourceConfig,
+  resolveDataSources
+} from './dataSource';
+
+// Local stand-in for a published sheet: /prices.csv serves whatever the test
+// sets, anything else is a 500
+let body = 'LGA,Suburb\nCity Of Yarra,Fitzroy';
+const server = http.createServer((request, response) => {
+  if (request.url === '/prices.csv') {
+    response.writeHead(200, { 'Content-Type': 'text/csv' });
+    response.end(body);
+  } else {
+    response.writeHead(500);
+    response.end();
+  }
+});
+let baseUrl = '';
+
+beforeAll(done => {
+  server.listen(0, '127.0.0.1', () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    done();
+  });
+});
+
+afterAll(done => {
+  server.close(done);
+});
+
+const fetchText: FetchText = url => new Promise((resolve, reject) => {
+  http.get(url, response => {
+    let text = '';
+    response.setEncoding('utf8');
+    response.on('data', chunk => { text += chunk; });
+    response.on('end', () => resolve({
+      ok: (response.statusCode || 0) < 400,
+      status: response.statusCode || 0,
+      text: () => Promise.resolve(text)
+    }));
+  }).on('error', reject);
+});
+
+// Rejects text without a header row, like the CSV loader does
+const parse = (text: string): string[] => {
+  const lines = text.split('\n');
+  if (lines[0] !== 'LGA,Suburb') throw new Error('Missing columns');
+  return lines.slice(1);
+};
+
+const bundled = () => Promise.resolve(['bundled']);
+
+test('reads the config file and lets environment variables override it', () => {
+  const fileConfig = parseDataSourceConfig({ prices: ' https://example.com/prices.csv ', boundaries: 42 });
+
+  expect(fileConfig).toEqual({ prices: 'https://example.com/prices.csv', boundaries: null });
+  expect(resolveDataSources(fileConfig, { REACT_APP_BOUNDARIES_URL: 'https://example.com/suburbs.json' })).toEqual({
+    prices: 'https://example.com/prices.csv',
+    boundaries: 'https://example.com/suburbs.json'
+  });
+  expect(resolveDataSources(parseDataSourceConfig(null), {})).toEqual({ prices: null, boundaries: null });
+});
+
+test('uses the bundled file when no remote is configured', async () => {
+  const result = await loadWithFallback({ url: null, cacheKey: 'prices', cache: createMemoryCache(), fetchText, parse, fallback: bundled });
+
+  expect(result).toEqual({ data: ['bundled'], origin: 'bundled', fetchedAt: null, error: null });
+});
+
+test('caches the last good remote response and falls back to it', async () => {
+  const cache = createMemoryCache();
+  const options = { cacheKey: 'prices', cache, fetchText, parse, fallback: bundled, now: () => 1000 };
+
+  body = 'LGA,Suburb\nCity Of Yarra,Fitzroy';
+  expect(await loadWithFallback({ ...options, url: `${baseUrl}/prices.csv` })).toEqual({
+    data: ['City Of Yarra,Fitzroy'],
+    origin: 'remote',
+    fetchedAt: 1000,
+    error: null
+  });
+
+  // A response that doesn't parse is not cached over the good one
+  body = '<html>Sign in</html>';
+  const badResponse = await loadWithFallback({ ...options, url: `${baseUrl}/prices.csv`, now: () => 2000 });
+  expect(badResponse).toMatchObject({ data: ['City Of Yarra,Fitzroy'], origin: 'cache', fetchedAt: 1000, error: 'Missing columns' });
+
+  const serverError = await loadWithFallback({ ...options, url: `${baseUrl}/missing.csv` });
+  expect(serverError).toMatchObject({ origin: 'cache', error: `${baseUrl}/missing.csv responded with 500` });
+});
+
+test('falls back to the bundled file when the remote fails with nothing cached', async () => {
+  const result = await loadWithFallback({
+    url: `${baseUrl}/missing.csv`,
+    cacheKey: 'prices',
+    cache: createMemoryCache(),
+    fetchText,
+    parse,
+    fallback: bundled
+  });
+
+  expect(result).toMatchObject({ data: ['bundled'], origin: 'bundled', fetchedAt: null });
+  expect(result.error).toContain('500');
+});
+
+test('waits for a parser that runs elsewhere, such as in a worker', async () => {
+  const cache = createMemoryCache();
+  const parseLater = (text: string) => new Promise<string[]>((resolve, reject) => {
+    setTimeout(() => {
+      try {
+        resolve(parse(text));
+      } catch (err) {
+        reject(err);
+      }
+    }, 0);
+  });
+
+  body = '<html>Sign in</html>';
+  const result = await loadWithFallback({ url: `${baseUrl}/prices.csv`, cacheKey: 'prices', cache, fetchText, parse: parseLater, fallback: bundled });
+
+  expect(result).toMatchObject({ data: ['bundled'], origin: 'bundled', error: 'Missing columns' });
+  expect(cache.get('prices')).toBeNull();
+});
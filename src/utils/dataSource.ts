@@ -0,0 +1,161 @@
+// Where the price CSV and suburb boundaries come from. By default both are
+// the files bundled in /public; /data-sources.json or REACT_APP_* variables
+// can point either at a remote URL instead, such as a published spreadsheet.
+// The last response that parsed is cached, and the bundled file is the
+// fallback when the remote and the cache both fail.
+
+export type DataSourceKey = 'prices' | 'boundaries';
+
+export type DataSourceConfig = Record<DataSourceKey, string | null>;
+
+// Which copy of the data is on the map
+export type DataOrigin = 'remote' | 'cache' | 'bundled';
+
+export interface LoadedData<T> {
+  data: T;
+  origin: DataOrigin;
+  // When the remote copy was fetched; set for remote and cached data
+  fetchedAt: number | null;
+  // Why the remote couldn't be used, when it was configured
+  error: string | null;
+}
+
+export const BUNDLED_BOUNDARIES = '/vic_suburbs.json';
+
+export const DEFAULT_DATA_SOURCES: DataSourceConfig = { prices: null, boundaries: null };
+
+export const DATA_ORIGIN_LABELS: Record<DataOrigin, string> = {
+  remote: 'live source',
+  cache: 'cached copy',
+  bundled: 'bundled file'
+};
+
+// The subset of fetch the loader needs, so tests can use any HTTP client
+export type FetchText = (url: string) => Promise<{ ok: boolean; status: number; text: () => Promise<string> }>;
+
+export interface TextCache {
+  get: (key: string) => string | null;
+  // Returns false when the value couldn't be stored, e.g. over quota
+  set: (key: string, value: string) => boolean;
+}
+
+const CACHE_PREFIX = 'melbourne-sqm:data-source:';
+
+// localStorage where there is one. Large boundary files may not fit, in which
+// case only the bundled fallback is left.
+export const createStorageCache = (storage: Storage | undefined): TextCache => ({
+  get: key => {
+    try {
+      return storage ? storage.getItem(CACHE_PREFIX + key) : null;
+    } catch (err) {
+      return null;
+    }
+  },
+  set: (key, value) => {
+    try {
+      if (!storage) return false;
+      storage.setItem(CACHE_PREFIX + key, value);
+      return true;
+    } catch (err) {
+      return false;
+    }
+  }
+});
+
+export const createMemoryCache = (): TextCache => {
+  const values = new Map<string, string>();
+  return {
+    get: key => (values.has(key) ? values.get(key)! : null),
+    set: (key, value) => {
+      values.set(key, value);
+      return true;
+    }
+  };
+};
+
+const isUrl = (value: any): value is string => typeof value === 'string' && value.trim() !== '';
+
+// /data-sources.json, e.g. { "prices": "https://docs.google.com/…/pub?output=csv" }.
+// Anything other than a non-empty string leaves the bundled file in place.
+export const parseDataSourceConfig = (data: any): DataSourceConfig => ({
+  prices: data && isUrl(data.prices) ? data.prices.trim() : null,
+  boundaries: data && isUrl(data.boundaries) ? data.boundaries.trim() : null
+});
+
+// Environment variables win over the JSON file, so a deployment can repoint
+// the data without editing it
+export const resolveDataSources = (
+  fileConfig: DataSourceConfig,
+  env: { [key: string]: string | undefined }
+): DataSourceConfig => ({
+  prices: isUrl(env.REACT_APP_PRICES_URL) ? env.REACT_APP_PRICES_URL.trim() : fileConfig.prices,
+  boundaries: isUrl(env.REACT_APP_BOUNDARIES_URL) ? env.REACT_APP_BOUNDARIES_URL.trim() : fileConfig.boundaries
+});
+
+interface CacheEntry {
+  fetchedAt: number;
+  text: string;
+}
+
+const readCacheEntry = (cache: TextCache, key: string): CacheEntry | null => {
+  const stored = cache.get(key);
+  if (!stored) return null;
+  try {
+    const entry = JSON.parse(stored);
+    return typeof entry.fetchedAt === 'number' && typeof entry.text === 'string' ? entry : null;
+  } catch (err) {
+    return null;
+  }
+};
+
+export interface LoadOptions<T> {
+  // Remote URL; null goes straight to the fallback
+  url: string | null;
+  cacheKey: string;
+  cache: TextCache;
+  fetchText: FetchText;
+  // Throws (or rejects) when the text isn't usable, so a bad response is
+  // never cached
+  parse: (text: string) => T | Promise<T>;
+  fallback: () => Promise<T>;
+  now?: () => number;
+}
+
+// Remote, then the last good remote response, then the bundled file
+export const loadWithFallback = async <T>({
+  url,
+  cacheKey,
+  cache,
+  fetchText,
+  parse,
+  fallback,
+  now = Date.now
+}: LoadOptions<T>): Promise<LoadedData<T>> => {
+  if (!url) {
+    return { data: await fallback(), origin: 'bundled', fetchedAt: null, error: null };
+  }
+
+  let error: string;
+  try {
+    const response = await fetchText(url);
+    if (!response.ok) throw new Error(`${url} responded with ${response.status}`);
+    const text = await response.text();
+    const data = await parse(text);
+    const fetchedAt = now();
+    cache.set(cacheKey, JSON.stringify({ fetchedAt, text }));
+    return { data, origin: 'remote', fetchedAt, error: null };
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const cached = readCacheEntry(cache, cacheKey);
+  if (cached) {
+    try {
+      return { data: await parse(cached.text), origin: 'cache', fetchedAt: cached.fetchedAt, error };
+    } catch (err) {
+      // A cached copy that no longer parses (e.g. after a format change) is skipped
+    }
+  }
+
+  return { data: await fallback(), origin: 'bundled', fetchedAt: null, error };
+};
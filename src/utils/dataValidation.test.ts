@@ -0,0 +1,92 @@
+import {
+  findDuplicateSuburbs,
+  findOutliers,
+  findUnmatchedSuburbs,
+  formatTable,
+  summariseFindings,
+  validateDataset
+} from './dataValidation';
+import { parseSuburbCsv } from './suburbDataLoader';
+import { BoundaryCollection } from './suburbJoin';
+
+const HEADER = 'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm';
+
+const boundaries: BoundaryCollection = {
+  type: 'FeatureCollection',
+  features: ['Fitzroy', 'Collingwood', 'Alphington', 'Richmond'].map(name => ({
+    type: 'Feature',
+    properties: { vic_loca_2: name },
+    geometry: null
+  }))
+};
+
+test('sorts the loader\'s issues and its own findings into checks', () => {
+  const dataset = parseSuburbCsv([
+    HEADER,
+    'City Of Yarra,Fitzroy,200,"$1,300,000","$6,000"',
+    'City Of Yarra,Collingwood,200,0,0',
+    'City Of Yarra,Abbotsford,big,"$1,000,000",',
+    'City Of Yarra,Atlantis,200,"$1,000,000","$5,000"',
+    'City Of Yarra,Alphington,280,"$2,080,000","$7,429"',
+    'City Of Darebin,Alphington,420,"$2,080,000","$4,952"'
+  ].join('\n'));
+  const findings = validateDataset(dataset, boundaries);
+
+  expect(findings.map(finding => [finding.check, finding.severity, finding.rowNumber])).toEqual([
+    ['price-per-sqm', 'warning', 2],
+    ['missing-price', 'warning', 3],
+    ['rows', 'error', 4],
+    ['duplicates', 'warning', 7],
+    ['unmatched', 'error', 5]
+  ]);
+  expect(summariseFindings(findings)).toEqual([
+    ['Unreadable rows and columns', 1, 0],
+    ['Zero or blank prices', 0, 1],
+    ['$/sqm not price ÷ block size', 0, 1],
+    ['Duplicate suburbs', 0, 1],
+    ['Statistical outliers', 0, 0],
+    ['Unmatched suburbs', 1, 0],
+    ['Boundary names', 0, 0]
+  ]);
+});
+
+test('treats a suburb listed twice in one LGA as an error', () => {
+  const { rows } = parseSuburbCsv([
+    HEADER,
+    'City Of Yarra,Fitzroy,200,"$1,300,000","$6,500"',
+    'City Of Yarra,fitzroy,200,"$1,300,000","$6,500"'
+  ].join('\n'));
+
+  expect(findDuplicateSuburbs(rows)).toEqual([
+    expect.objectContaining({ severity: 'error', rowNumber: 3, message: 'Listed twice under City Of Yarra (also row 2)' })
+  ]);
+});
+
+test('flags values far outside the middle half of their property type', () => {
+  const lines = [HEADER];
+  for (let i = 0; i < 10; i++) lines.push(`City Of Yarra,Suburb ${i},400,"$${1000000 + i * 20000}",`);
+  lines.push('City Of Yarra,Toorak,400,"$9,000,000",');
+  const outliers = findOutliers(parseSuburbCsv(lines.join('\n')).rows);
+
+  expect(outliers.map(finding => [finding.suburb, finding.message.split(' is ')[0]])).toEqual([
+    ['Toorak', '$/sqm $22,500'],
+    ['Toorak', 'Median price $9,000,000']
+  ]);
+});
+
+test('warns about fuzzy matches as well as missing ones', () => {
+  const { rows } = parseSuburbCsv([HEADER, 'City Of Yarra,Richmondd,200,"$1,300,000","$6,500"'].join('\n'));
+
+  expect(findUnmatchedSuburbs(rows, boundaries)).toEqual([
+    expect.objectContaining({ severity: 'warning', message: expect.stringContaining('"Richmond" by fuzzy name match') })
+  ]);
+});
+
+test('lines up a plain-text table', () => {
+  expect(formatTable(['Check', 'Errors'], [['Rows', 1], ['Outliers', 12]])).toBe([
+    'Check     Errors',
+    '--------  ------',
+    'Rows           1',
+    'Outliers      12'
+  ].join('\n'));
+});
@@ -0,0 +1,216 @@
+import { METRICS, MetricKey } from './metrics';
+import { PROPERTY_TYPES } from './propertyTypes';
+import { CSV_COLUMNS, DatasetIssue, IssueSeverity, SuburbData, SuburbDataset } from './suburbDataLoader';
+import { BoundaryCollection } from './suburbJoin';
+import { getFeatureSuburbName, matchSuburbs, normaliseSuburbName } from './suburbMatcher';
+
+// Checks run by scripts/validate-data.js before a quarterly update goes out.
+// The price file is read by the app's own loader and matched by its own
+// matcher, so a file that passes here loads the same way on the map.
+// Errors fail the command; warnings are for a person to look over.
+
+export type ValidationCheck = 'rows' | 'missing-price' | 'price-per-sqm' | 'duplicates' | 'outliers' | 'unmatched' | 'boundaries';
+
+// Order of the summary table
+export const VALIDATION_CHECKS: { key: ValidationCheck; label: string }[] = [
+  { key: 'rows', label: 'Unreadable rows and columns' },
+  { key: 'missing-price', label: 'Zero or blank prices' },
+  { key: 'price-per-sqm', label: '$/sqm not price ÷ block size' },
+  { key: 'duplicates', label: 'Duplicate suburbs' },
+  { key: 'outliers', label: 'Statistical outliers' },
+  { key: 'unmatched', label: 'Unmatched suburbs' },
+  { key: 'boundaries', label: 'Boundary names' }
+];
+
+export interface ValidationFinding {
+  check: ValidationCheck;
+  severity: IssueSeverity;
+  // Line in the price file; null for file-level and boundary findings
+  rowNumber: number | null;
+  suburb?: string;
+  message: string;
+}
+
+// Values further than this many interquartile ranges outside the middle
+// half are reported; 3 is Tukey's "far out"
+export const OUTLIER_FENCE = 3;
+
+// Fewer values than this and the quartiles say nothing
+const MIN_OUTLIER_SAMPLE = 8;
+
+const ROW_FIELDS: Record<MetricKey, 'pricePerSqm' | 'medianPrice' | 'blockSize'> = {
+  price_sqm: 'pricePerSqm',
+  median_price: 'medianPrice',
+  block_size: 'blockSize'
+};
+
+// The loader's own issues, sorted into the checks they belong to
+const classifyIssue = (issue: DatasetIssue): ValidationFinding => {
+  const check: ValidationCheck = issue.severity === 'warning' && issue.column === CSV_COLUMNS.medianPrice
+    ? 'missing-price'
+    : issue.severity === 'warning' && issue.column === CSV_COLUMNS.pricePerSqm ? 'price-per-sqm' : 'rows';
+  return { check, severity: issue.severity, rowNumber: issue.rowNumber, suburb: issue.suburb, message: issue.message };
+};
+
+// The same name twice in one LGA is a mistake. Under two LGAs it is usually
+// a suburb that straddles a council boundary, but the map can only show one
+// of the rows.
+export const findDuplicateSuburbs = (rows: SuburbData[]): ValidationFinding[] => {
+  const groups = new Map<string, SuburbData[]>();
+  rows.forEach(row => {
+    const key = `${normaliseSuburbName(row.suburb)}|${row.propertyType}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+
+  const findings: ValidationFinding[] = [];
+  groups.forEach(group => {
+    if (group.length < 2) return;
+    const [first, ...others] = group;
+    others.forEach(row => {
+      const sameLga = row.lga.toLowerCase().trim() === first.lga.toLowerCase().trim();
+      findings.push(sameLga
+        ? {
+          check: 'duplicates',
+          severity: 'error',
+          rowNumber: row.rowNumber,
+          suburb: row.suburb,
+          message: `Listed twice under ${row.lga} (also row ${first.rowNumber})`
+        }
+        : {
+          check: 'duplicates',
+          severity: 'warning',
+          rowNumber: row.rowNumber,
+          suburb: row.suburb,
+          message: `Also listed under ${first.lga} (row ${first.rowNumber}); the map shows that row's figures`
+        });
+    });
+  });
+  return findings.sort((a, b) => (a.rowNumber || 0) - (b.rowNumber || 0));
+};
+
+// Linear interpolation between the closest ranks
+const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Compared within each property type, since units and houses differ by design
+export const findOutliers = (rows: SuburbData[], fence: number = OUTLIER_FENCE): ValidationFinding[] => {
+  const findings: ValidationFinding[] = [];
+  (Object.keys(PROPERTY_TYPES) as (keyof typeof PROPERTY_TYPES)[]).forEach(type => {
+    const typeRows = rows.filter(row => row.propertyType === type);
+    (Object.keys(ROW_FIELDS) as MetricKey[]).forEach(metric => {
+      if (METRICS[metric].needsLand && !PROPERTY_TYPES[type].hasLand) return;
+      const field = ROW_FIELDS[metric];
+      const values = typeRows.map(row => row[field]).filter((value): value is number => value !== null).sort((a, b) => a - b);
+      if (values.length < MIN_OUTLIER_SAMPLE) return;
+
+      const q1 = quantile(values, 0.25);
+      const q3 = quantile(values, 0.75);
+      const low = q1 - fence * (q3 - q1);
+      const high = q3 + fence * (q3 - q1);
+      const definition = METRICS[metric];
+      typeRows.forEach(row => {
+        const value = row[field];
+        if (value === null || (value >= low && value <= high)) return;
+        findings.push({
+          check: 'outliers',
+          severity: 'warning',
+          rowNumber: row.rowNumber,
+          suburb: row.suburb,
+          message: `${definition.label} ${definition.format(value)} is far ${value < low ? 'below' : 'above'} the other ${PROPERTY_TYPES[type].label.toLowerCase()} (${definition.format(q1)} to ${definition.format(q3)} for the middle half)`
+        });
+      });
+    });
+  });
+  return findings.sort((a, b) => (a.rowNumber || 0) - (b.rowNumber || 0));
+};
+
+// Rows no boundary matches never reach the map. Fuzzy matches do, and are
+// worth a look in case the guess was wrong.
+export const findUnmatchedSuburbs = (rows: SuburbData[], boundaries: BoundaryCollection): ValidationFinding[] => {
+  const report = matchSuburbs(
+    rows,
+    row => row.suburb,
+    boundaries.features.map(boundary => getFeatureSuburbName(boundary.properties))
+  );
+  const findings: ValidationFinding[] = report.unmatchedRows.map(row => ({
+    check: 'unmatched',
+    severity: 'error',
+    rowNumber: row.rowNumber,
+    suburb: row.suburb,
+    message: `No boundary matches ${row.suburb} (${row.lga})`
+  }));
+
+  const reported = new Set<SuburbData>();
+  report.matches.forEach((match, index) => {
+    if (!match || match.method !== 'fuzzy' || reported.has(match.row)) return;
+    reported.add(match.row);
+    findings.push({
+      check: 'unmatched',
+      severity: 'warning',
+      rowNumber: match.row.rowNumber,
+      suburb: match.row.suburb,
+      message: `Matched to boundary "${getFeatureSuburbName(boundaries.features[index].properties)}" by fuzzy name match (${Math.round(match.confidence * 100)}% confidence)`
+    });
+  });
+  return findings.sort((a, b) => (a.rowNumber || 0) - (b.rowNumber || 0));
+};
+
+// Boundaries without a name can't be matched, and two with the same name
+// both take the same row's figures
+export const checkBoundaryNames = (boundaries: BoundaryCollection): ValidationFinding[] => {
+  const findings: ValidationFinding[] = [];
+  const seen = new Map<string, number>();
+  boundaries.features.forEach((boundary, index) => {
+    const name = getFeatureSuburbName(boundary.properties);
+    if (!name.trim()) {
+      findings.push({ check: 'boundaries', severity: 'warning', rowNumber: null, message: `Boundary ${index + 1} has no suburb name` });
+      return;
+    }
+    const normalised = normaliseSuburbName(name);
+    seen.set(normalised, (seen.get(normalised) || 0) + 1);
+  });
+  seen.forEach((count, name) => {
+    if (count < 2) return;
+    findings.push({
+      check: 'boundaries',
+      severity: 'warning',
+      rowNumber: null,
+      suburb: name,
+      message: `${count} boundaries are named "${name}"; each shows the same row`
+    });
+  });
+  return findings;
+};
+
+export const validateDataset = (dataset: SuburbDataset, boundaries: BoundaryCollection | null): ValidationFinding[] => [
+  ...dataset.issues.map(classifyIssue),
+  ...findDuplicateSuburbs(dataset.rows),
+  ...findOutliers(dataset.rows),
+  ...(boundaries ? [...findUnmatchedSuburbs(dataset.rows, boundaries), ...checkBoundaryNames(boundaries)] : [])
+];
+
+export const describeFinding = (finding: ValidationFinding): string =>
+  `${finding.rowNumber !== null ? `Row ${finding.rowNumber}` : 'File'}${finding.suburb ? ` (${finding.suburb})` : ''}: ${finding.message}`;
+
+// One line per check: its label, errors and warnings
+export const summariseFindings = (findings: ValidationFinding[]): [string, number, number][] =>
+  VALIDATION_CHECKS.map(({ key, label }) => {
+    const own = findings.filter(finding => finding.check === key);
+    return [label, own.filter(finding => finding.severity === 'error').length, own.filter(finding => finding.severity === 'warning').length];
+  });
+
+// Plain-text table for the terminal, numbers right-aligned
+export const formatTable = (headers: string[], rows: (string | number)[][]): string => {
+  const cells = [headers, ...rows.map(row => row.map(String))];
+  const widths = headers.map((header, column) => Math.max(...cells.map(row => row[column].length)));
+  const numeric = headers.map((header, column) => rows.length > 0 && typeof rows[0][column] === 'number');
+  const line = (row: string[]) => row
+    .map((cell, column) => (numeric[column] ? cell.padStart(widths[column]) : cell.padEnd(widths[column])))
+    .join('  ')
+    .trimEnd();
+  return [line(headers), widths.map(width => '-'.repeat(width)).join('  '), ...cells.slice(1).map(line)].join('\n');
+};
@@ -0,0 +1,38 @@
+import { createRandom, DEMO_PRICE_SQM_RANGE, randomiseDataset } from './demoData';
+import { parseSuburbCsv } from './suburbDataLoader';
+
+const dataset = parseSuburbCsv([
+  'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm',
+  'City Of Yarra,Fitzroy,200,"$1,200,000","$6,000"',
+  'City Of Yarra,Collingwood,,"$1,000,000",',
+  'City Of Melbourne,Docklands,0,0,0'
+].join('\n'));
+
+test('replays the same numbers for a seed', () => {
+  const a = createRandom(7);
+  const b = createRandom(7);
+  const first = [a(), a(), a()];
+
+  expect([b(), b(), b()]).toEqual(first);
+  first.forEach(value => {
+    expect(value).toBeGreaterThanOrEqual(0);
+    expect(value).toBeLessThan(1);
+  });
+});
+
+test('keeps the suburbs and block sizes but draws new prices', () => {
+  const demo = randomiseDataset(dataset);
+
+  expect(demo.rows.map(row => [row.lga, row.suburb, row.blockSize])).toEqual(
+    dataset.rows.map(row => [row.lga, row.suburb, row.blockSize])
+  );
+  demo.rows.forEach(row => {
+    expect(row.pricePerSqm).toBeGreaterThanOrEqual(DEMO_PRICE_SQM_RANGE[0]);
+    expect(row.pricePerSqm).toBeLessThanOrEqual(DEMO_PRICE_SQM_RANGE[1]);
+    expect(row.storedPricePerSqm).toBe(row.pricePerSqm);
+  });
+  expect(demo.rows[0].medianPrice).toBe(demo.rows[0].pricePerSqm! * 200);
+  expect(demo.rows[1].medianPrice).toBeNull();
+  expect(demo.issues).toEqual([]);
+  expect(randomiseDataset(dataset)).toEqual(demo);
+});
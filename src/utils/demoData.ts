@@ -0,0 +1,42 @@
+import { SuburbDataset } from './suburbDataLoader';
+
+// Prices for the demo map: the real suburbs, councils and block sizes with a
+// random $/sqm each, so every feature of the map can be tried without anyone
+// reading meaning into the figures. A fixed seed draws the same map each load.
+
+export const DEMO_PRICE_SQM_RANGE: [number, number] = [2000, 10000];
+
+export const DEMO_SEED = 2025;
+
+// Small seeded generator (mulberry32); Math.random can't be replayed
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// The source file's issues describe its real prices, so they're dropped.
+// Demo prices are drawn per sqm, so only houses are kept.
+export const randomiseDataset = (
+  dataset: SuburbDataset,
+  random: () => number = createRandom(DEMO_SEED)
+): SuburbDataset => {
+  const [min, max] = DEMO_PRICE_SQM_RANGE;
+  return {
+    rows: dataset.rows.filter(row => row.propertyType === 'house').map(row => {
+      const pricePerSqm = Math.round(min + random() * (max - min));
+      return {
+        ...row,
+        pricePerSqm,
+        storedPricePerSqm: pricePerSqm,
+        medianPrice: row.blockSize !== null ? pricePerSqm * row.blockSize : null
+      };
+    }),
+    issues: []
+  };
+};
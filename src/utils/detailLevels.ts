@@ -0,0 +1,63 @@
+import { ValuationModel, ValuationModelKey } from './landValue';
+import { PropertyType } from './suburbDataLoader';
+import { JoinSummary } from './suburbJoin';
+
+// Detail levels of the precomputed suburb boundaries. The build writes one
+// simplified file per level and the map loads the one for its zoom.
+
+export interface DetailLevel {
+  id: string;
+  // Used from this zoom until the next level's
+  minZoom: number;
+  // Smallest triangle area (square degrees) a simplified vertex may span
+  minWeight: number;
+}
+
+export const DETAIL_LEVELS: DetailLevel[] = [
+  { id: 'low', minZoom: 0, minWeight: 1e-7 },
+  { id: 'medium', minZoom: 11, minWeight: 1e-8 },
+  { id: 'high', minZoom: 13, minWeight: 0 }
+];
+
+// Name of the boundaries object inside each TopoJSON file
+export const TOPOLOGY_OBJECT = 'suburbs';
+
+export const PRECOMPUTED_DIR = '/data';
+
+export type PrecomputedFormat = 'geojson' | 'topojson';
+
+export const getPrecomputedPath = (levelId: string, format: PrecomputedFormat): string =>
+  `${PRECOMPUTED_DIR}/suburbs-${levelId}.${format === 'geojson' ? 'geojson' : 'topo.json'}`;
+
+// What every level was joined from, so the map can show their properties as
+// they are instead of fetching the prices and joining them again
+export interface PrecomputedManifest extends JoinSummary {
+  snapshotId: string;
+  model: ValuationModelKey;
+  propertyType: PropertyType;
+}
+
+export const PRECOMPUTED_MANIFEST = `${PRECOMPUTED_DIR}/suburbs.json`;
+
+export const isPrecomputedManifest = (value: any): value is PrecomputedManifest =>
+  Boolean(value)
+  && typeof value.snapshotId === 'string'
+  && typeof value.model === 'string'
+  && typeof value.propertyType === 'string'
+  && typeof value.rowCount === 'number'
+  && typeof value.matchedRowCount === 'number'
+  && Array.isArray(value.unmatchedRows)
+  && Array.isArray(value.unmatchedFeatures)
+  && Array.isArray(value.issues);
+
+// Anything else the layers weren't joined from needs a join of its own
+export const matchesPrecomputed = (
+  manifest: PrecomputedManifest,
+  snapshotId: string,
+  model: ValuationModel,
+  propertyType: PropertyType
+): boolean =>
+  manifest.snapshotId === snapshotId && manifest.model === model.key && manifest.propertyType === propertyType;
+
+export const getLevelForZoom = (zoom: number): DetailLevel =>
+  DETAIL_LEVELS.reduce((chosen, level) => (zoom >= level.minZoom ? level : chosen), DETAIL_LEVELS[0]);
@@ -0,0 +1,35 @@
+import { getMetricBounds, isFilterActive, isInRange, updateFilterRange } from './filters';
+
+const suburbs = [
+  { price_sqm: 4321, median_price: 1234567, block_size: 455 },
+  { price_sqm: 9876, median_price: 2050000, block_size: null },
+  { price_sqm: null, median_price: null, block_size: 612 }
+];
+
+test('widens the slider bounds to whole filter steps, ignoring missing values', () => {
+  expect(getMetricBounds(suburbs)).toEqual({
+    price_sqm: [4300, 9900],
+    median_price: [1230000, 2050000],
+    block_size: [450, 620]
+  });
+  expect(getMetricBounds([{ price_sqm: null }])).toEqual({});
+});
+
+test('keeps a suburb only when it falls inside every range that is set', () => {
+  expect(isInRange(suburbs[0], {})).toBe(true);
+  expect(isInRange(suburbs[0], { price_sqm: [4000, 5000], block_size: [400, 500] })).toBe(true);
+  expect(isInRange(suburbs[0], { price_sqm: [4000, 5000], block_size: [500, 600] })).toBe(false);
+  // No value can't be shown to be in range
+  expect(isInRange(suburbs[2], { price_sqm: [0, 100000] })).toBe(false);
+});
+
+test('drops a range that covers the full bounds', () => {
+  const bounds = getMetricBounds(suburbs);
+  const narrowed = updateFilterRange({}, 'price_sqm', [5000, 9900], bounds);
+  expect(narrowed).toEqual({ price_sqm: [5000, 9900] });
+  expect(isFilterActive(narrowed)).toBe(true);
+
+  const reset = updateFilterRange(narrowed, 'price_sqm', [4300, 9900], bounds);
+  expect(reset).toEqual({});
+  expect(isFilterActive(reset)).toBe(false);
+});
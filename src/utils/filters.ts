@@ -0,0 +1,58 @@
+import { METRIC_KEYS, METRICS, MetricKey } from './metrics';
+import { isDataValue } from './classification';
+
+// Range filters over the merged feature properties. A metric with no entry
+// is unfiltered; a feature must fall inside every range that is set.
+
+export type FilterRanges = Partial<Record<MetricKey, [number, number]>>;
+
+export type MetricBounds = Partial<Record<MetricKey, [number, number]>>;
+
+// Out-of-range suburbs are either faded or not drawn at all
+export type FilterMode = 'dim' | 'hide';
+
+// Slider bounds for each metric, widened to whole steps
+export const getMetricBounds = (properties: { [key: string]: any }[]): MetricBounds => {
+  const bounds: MetricBounds = {};
+
+  METRIC_KEYS.forEach(key => {
+    const values = properties.map(props => props[key]).filter(isDataValue);
+    if (values.length === 0) return;
+
+    const step = METRICS[key].filterStep;
+    bounds[key] = [
+      Math.floor(Math.min(...values) / step) * step,
+      Math.ceil(Math.max(...values) / step) * step
+    ];
+  });
+
+  return bounds;
+};
+
+export const isFilterActive = (ranges: FilterRanges): boolean => Object.keys(ranges).length > 0;
+
+export const isInRange = (properties: { [key: string]: any }, ranges: FilterRanges): boolean => {
+  return METRIC_KEYS.every(key => {
+    const range = ranges[key];
+    if (!range) return true;
+    const value = properties[key];
+    return isDataValue(value) && value >= range[0] && value <= range[1];
+  });
+};
+
+// Set one metric's range, dropping it when it covers the full bounds
+export const updateFilterRange = (
+  ranges: FilterRanges,
+  key: MetricKey,
+  range: [number, number],
+  bounds: MetricBounds
+): FilterRanges => {
+  const next = { ...ranges };
+  const full = bounds[key];
+  if (full && range[0] <= full[0] && range[1] >= full[1]) {
+    delete next[key];
+  } else {
+    next[key] = range;
+  }
+  return next;
+};
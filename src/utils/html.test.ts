@@ -0,0 +1,12 @@
+import { escapeHtml } from './html';
+
+test('escapes markup and quotes so text cannot break out of its element', () => {
+  expect(escapeHtml('<img src=x onerror="alert(1)">')).toBe('&#60;img src=x onerror=&#34;alert(1)&#34;&#62;');
+  expect(escapeHtml("O'Connor & Sons")).toBe('O&#39;Connor &#38; Sons');
+});
+
+test('renders missing values as empty text', () => {
+  expect(escapeHtml(null)).toBe('');
+  expect(escapeHtml(undefined)).toBe('');
+  expect(escapeHtml(42)).toBe('42');
+});
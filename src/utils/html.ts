@@ -0,0 +1,5 @@
+// For text that ends up inside an HTML string, such as a Leaflet popup or the
+// extension's popup. Suburb names, councils and correction notes can come
+// from any remote price or boundary file, so none of it is trusted.
+export const escapeHtml = (value: unknown): string =>
+  String(value === null || value === undefined ? '' : value).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
@@ -0,0 +1,23 @@
+import { describeModel, getModelPricePerSqm, GROSS_MODEL } from './landValue';
+
+const landOnly = { key: 'land-residual' as const, buildingValue: 300000 };
+
+test('divides the whole price by the block size', () => {
+  expect(getModelPricePerSqm(1200000, 400, GROSS_MODEL)).toBe(3000);
+  expect(getModelPricePerSqm(null, 400, GROSS_MODEL)).toBeNull();
+});
+
+test('takes the building value off before dividing', () => {
+  expect(getModelPricePerSqm(1200000, 400, landOnly)).toBe(2250);
+  expect(getModelPricePerSqm(1200000, null, landOnly)).toBeNull();
+});
+
+test('leaves nothing for the land when the building is worth the price', () => {
+  expect(getModelPricePerSqm(300000, 400, landOnly)).toBeNull();
+  expect(getModelPricePerSqm(250000, 400, landOnly)).toBeNull();
+});
+
+test('describes the calculation', () => {
+  expect(describeModel(GROSS_MODEL)).toBe('Median price ÷ block size');
+  expect(describeModel(landOnly)).toContain('$300,000');
+});
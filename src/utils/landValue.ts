@@ -0,0 +1,40 @@
+import { computePricePerSqm } from './suburbDataLoader';
+
+// How $/sqm is worked out. Dividing the whole median price by the block size
+// counts the house as land; the land-residual model takes an estimated
+// building value off the price first, leaving what the land itself is worth.
+
+export type ValuationModelKey = 'gross' | 'land-residual';
+
+export interface ValuationModel {
+  key: ValuationModelKey;
+  // Estimated value of the dwelling, subtracted by the land-residual model
+  buildingValue: number;
+}
+
+// A typical established house at current construction costs, less depreciation
+export const DEFAULT_BUILDING_VALUE = 350000;
+
+export const GROSS_MODEL: ValuationModel = { key: 'gross', buildingValue: DEFAULT_BUILDING_VALUE };
+
+export const VALUATION_MODELS: { key: ValuationModelKey; label: string }[] = [
+  { key: 'gross', label: 'Whole property' },
+  { key: 'land-residual', label: 'Land only' }
+];
+
+// Null when either figure is missing, or when the building is estimated to be
+// worth the whole price and nothing is left for the land
+export const getModelPricePerSqm = (
+  medianPrice: number | null,
+  blockSize: number | null,
+  model: ValuationModel
+): number | null => {
+  if (model.key === 'gross') return computePricePerSqm(medianPrice, blockSize);
+  if (medianPrice === null || medianPrice <= model.buildingValue) return null;
+  return computePricePerSqm(medianPrice - model.buildingValue, blockSize);
+};
+
+export const describeModel = (model: ValuationModel): string =>
+  model.key === 'gross'
+    ? 'Median price ÷ block size'
+    : `(Median price − $${model.buildingValue.toLocaleString()} estimated building value) ÷ block size`;
@@ -0,0 +1,47 @@
+import { buildLgaCollection, dissolveByLga, getLgaAverages } from './lgaAggregation';
+
+const square = (x: number, y: number) => ({
+  type: 'Polygon',
+  coordinates: [[[x, y], [x + 1, y], [x + 1, y + 1], [x, y + 1], [x, y]]]
+});
+
+const features = [
+  { properties: { lga: 'City Of Yarra', price_sqm: 6000, median_price: 1500000, block_size: 250 }, geometry: square(0, 0) },
+  { properties: { lga: 'City Of Yarra', price_sqm: 9000, median_price: 2000000, block_size: 250 }, geometry: square(1, 0) },
+  { properties: { lga: 'City Of Yarra', price_sqm: 6600, median_price: null, block_size: 250 }, geometry: square(2, 0) },
+  { properties: { lga: 'City Of Banyule', price_sqm: null, median_price: null, block_size: 450 }, geometry: square(5, 5) },
+  { properties: { name: 'Unmatched' }, geometry: square(9, 9) }
+];
+
+test('dissolves adjacent suburb polygons into one council boundary', () => {
+  const dissolved = dissolveByLga(features);
+
+  expect(dissolved.map(lga => lga.lga)).toEqual(['City Of Banyule', 'City Of Yarra']);
+  const yarra = dissolved[1];
+  expect(yarra.members).toHaveLength(3);
+  expect(yarra.geometry.coordinates).toHaveLength(1);
+  expect(yarra.geometry.coordinates[0][0]).toEqual(
+    expect.arrayContaining([[0, 0], [3, 0], [3, 1], [0, 1]])
+  );
+});
+
+test('summarises suburb metrics by median or mean, ignoring missing values', () => {
+  const dissolved = dissolveByLga(features);
+
+  const medians = buildLgaCollection(dissolved, 'median').features[1].properties;
+  expect(medians).toMatchObject({ lga: 'City Of Yarra', price_sqm: 6600, median_price: 1750000, suburb_count: 3 });
+
+  const means = buildLgaCollection(dissolved, 'mean').features[1].properties;
+  expect(means.price_sqm).toBe(7200);
+
+  const banyule = buildLgaCollection(dissolved, 'median').features[0].properties;
+  expect(banyule).toMatchObject({ price_sqm: null, block_size: 450, priced_suburb_count: 0 });
+});
+
+test('averages each council across its priced suburbs', () => {
+  const averages = getLgaAverages(features.map(feature => feature.properties));
+
+  expect(averages.get('City Of Yarra')).toEqual({ price_sqm: 7200, median_price: 1750000, block_size: 250 });
+  expect(averages.get('City Of Banyule')).toEqual({ price_sqm: null, median_price: null, block_size: 450 });
+  expect(averages.has('Unmatched')).toBe(false);
+});
@@ -0,0 +1,133 @@
+import polygonClipping, { MultiPolygon, Polygon } from 'polygon-clipping';
+import { isDataValue } from './classification';
+import { METRIC_KEYS, MetricKey } from './metrics';
+
+// Council-level layer built in the browser by dissolving the matched suburb
+// polygons of each LGA into one boundary.
+
+export type LgaStatistic = 'median' | 'mean';
+
+export const LGA_STATISTICS: { key: LgaStatistic; label: string }[] = [
+  { key: 'median', label: 'Median' },
+  { key: 'mean', label: 'Mean' }
+];
+
+// One council's boundary, the union of its suburbs' polygons
+export interface LgaGeometry {
+  lga: string;
+  geometry: { type: 'MultiPolygon'; coordinates: MultiPolygon };
+}
+
+export interface DissolvedLga extends LgaGeometry {
+  // Properties of the suburb features that make up the council
+  members: { [key: string]: any }[];
+}
+
+const toClippingGeometry = (geometry: any): Polygon | MultiPolygon | null => {
+  if (!geometry) return null;
+  if (geometry.type === 'Polygon') return geometry.coordinates;
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+  return null;
+};
+
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const mean = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+// Union the polygons of each council's suburbs. lgas[i] is the council of
+// geometries[i], or null to leave it out. polygon-clipping throws on some
+// malformed rings, so callers off the main thread should expect that.
+export const dissolveGeometries = (geometries: any[], lgas: (string | null)[]): LgaGeometry[] => {
+  const groups = new Map<string, (Polygon | MultiPolygon)[]>();
+  geometries.forEach((feature, index) => {
+    const lga = lgas[index];
+    const geometry = toClippingGeometry(feature);
+    if (!lga || !geometry) return;
+    groups.set(lga, [...(groups.get(lga) || []), geometry]);
+  });
+
+  const dissolved: LgaGeometry[] = [];
+  groups.forEach((group, lga) => {
+    const [first, ...rest] = group;
+    dissolved.push({ lga, geometry: { type: 'MultiPolygon', coordinates: polygonClipping.union(first, ...rest) } });
+  });
+  return dissolved.sort((a, b) => a.lga.localeCompare(b.lga));
+};
+
+// The suburbs each dissolved council was made from
+export const addLgaMembers = (
+  shapes: LgaGeometry[],
+  features: { properties: { [key: string]: any }; geometry: any }[]
+): DissolvedLga[] => {
+  const members = new Map<string, { [key: string]: any }[]>();
+  features.forEach(feature => {
+    const lga = feature.properties.lga;
+    if (!lga || !toClippingGeometry(feature.geometry)) return;
+    members.set(lga, [...(members.get(lga) || []), feature.properties]);
+  });
+  return shapes.map(shape => ({ ...shape, members: members.get(shape.lga) || [] }));
+};
+
+// Group matched suburb features by their LGA and union each group's polygons
+export const dissolveByLga = (features: { properties: { [key: string]: any }; geometry: any }[]): DissolvedLga[] =>
+  addLgaMembers(
+    dissolveGeometries(features.map(feature => feature.geometry), features.map(feature => feature.properties.lga || null)),
+    features
+  );
+
+// Summarise each council's suburbs into the same metric properties the
+// suburb layer uses, so colouring, legends and filters work unchanged
+export const buildLgaCollection = (dissolved: DissolvedLga[], statistic: LgaStatistic) => {
+  const summarise = statistic === 'median' ? median : mean;
+
+  return {
+    type: 'FeatureCollection' as const,
+    features: dissolved.map(lga => {
+      const metrics = {} as Record<MetricKey, number | null>;
+      METRIC_KEYS.forEach(key => {
+        metrics[key] = summarise(lga.members.map(member => member[key]).filter(isDataValue));
+      });
+
+      return {
+        type: 'Feature' as const,
+        properties: {
+          ...metrics,
+          name: lga.lga,
+          lga: lga.lga,
+          statistic,
+          suburb_count: lga.members.length,
+          priced_suburb_count: lga.members.filter(member => isDataValue(member.price_sqm)).length
+        },
+        geometry: lga.geometry
+      };
+    })
+  };
+};
+
+// Mean of each metric across a council's priced suburbs, keyed by LGA name
+export const getLgaAverages = (properties: { [key: string]: any }[]): Map<string, Record<MetricKey, number | null>> => {
+  const groups = new Map<string, { [key: string]: any }[]>();
+  properties.forEach(props => {
+    if (!props.lga) return;
+    if (!groups.has(props.lga)) groups.set(props.lga, []);
+    groups.get(props.lga)!.push(props);
+  });
+
+  const averages = new Map<string, Record<MetricKey, number | null>>();
+  groups.forEach((members, lga) => {
+    const metrics = {} as Record<MetricKey, number | null>;
+    METRIC_KEYS.forEach(key => {
+      metrics[key] = mean(members.map(member => member[key]).filter(isDataValue));
+    });
+    averages.set(lga, metrics);
+  });
+  return averages;
+};
@@ -0,0 +1,38 @@
+import { describeDifference, evaluateListing, parseListingInput } from './listingEvaluator';
+
+test('parses typed prices and land sizes', () => {
+  expect(parseListingInput('$1,250,000', '500 ')).toEqual({ input: { askingPrice: 1250000, landSize: 500 } });
+  expect(parseListingInput('', 'big')).toEqual({
+    errors: { askingPrice: 'Enter an asking price', landSize: '"big" is not a number' }
+  });
+});
+
+test('compares a listing with its suburb, council and all suburbs', () => {
+  const evaluation = evaluateListing({ askingPrice: 1200000, landSize: 400 }, 2500, 4000, [2000, 2500, 3500, 4000, null]);
+
+  expect(evaluation.pricePerSqm).toBe(3000);
+  expect(evaluation.vsSuburb).toBe(20);
+  expect(evaluation.vsLga).toBe(-25);
+  expect(evaluation.percentile).toBe(50);
+  expect(describeDifference(evaluation.vsSuburb)).toBe('20% above');
+  expect(describeDifference(evaluation.vsLga)).toBe('25% below');
+});
+
+test('leaves comparisons empty when the suburb has no price', () => {
+  const evaluation = evaluateListing({ askingPrice: 900000, landSize: 300 }, null, undefined, []);
+
+  expect(evaluation).toMatchObject({ pricePerSqm: 3000, vsSuburb: null, vsLga: null, percentile: null });
+  expect(describeDifference(evaluation.vsSuburb)).toBe('no data');
+});
+
+test('takes the building value off the listing too under the land-residual model', () => {
+  const model = { key: 'land-residual' as const, buildingValue: 400000 };
+  // Suburb figures as the map shows them under the same model
+  const evaluation = evaluateListing({ askingPrice: 1200000, landSize: 400 }, 2500, 4000, [1000, 2000, 2500, 3000], model);
+
+  expect(evaluation).toMatchObject({ model: 'land-residual', pricePerSqm: 2000, vsSuburb: -20, vsLga: -50, percentile: 25 });
+
+  // Nothing left for the land, so nothing to compare
+  const cheap = evaluateListing({ askingPrice: 350000, landSize: 400 }, 2500, 4000, [1000], model);
+  expect(cheap).toMatchObject({ pricePerSqm: null, vsSuburb: null, vsLga: null, percentile: null });
+});
@@ -0,0 +1,82 @@
+import { isDataValue } from './classification';
+import { getModelPricePerSqm, GROSS_MODEL, ValuationModel, ValuationModelKey } from './landValue';
+import { parseNumberCell } from './suburbDataLoader';
+
+// Puts one property listing's $/sqm in context against its suburb, its
+// council and every suburb on the map.
+
+export interface ListingInput {
+  askingPrice: number;
+  landSize: number;
+}
+
+export interface ListingEvaluation extends ListingInput {
+  // How the listing's $/sqm was worked out, the same way as the suburbs'
+  model: ValuationModelKey;
+  // Null when the land-residual model leaves nothing for the land
+  pricePerSqm: number | null;
+  suburbPricePerSqm: number | null;
+  // Percentage above (positive) or below the average
+  vsSuburb: number | null;
+  lgaPricePerSqm: number | null;
+  vsLga: number | null;
+  // Share of priced suburbs with a lower $/sqm, 0-100
+  percentile: number | null;
+}
+
+// Validate the typed asking price and land size; errors are keyed by field
+export const parseListingInput = (
+  askingPrice: string,
+  landSize: string
+): { input: ListingInput } | { errors: Partial<Record<keyof ListingInput, string>> } => {
+  const errors: Partial<Record<keyof ListingInput, string>> = {};
+  const price = parseNumberCell(askingPrice);
+  const size = parseNumberCell(landSize);
+
+  if ('error' in price) errors.askingPrice = price.error;
+  else if (price.value === null) errors.askingPrice = 'Enter an asking price';
+  if ('error' in size) errors.landSize = size.error;
+  else if (size.value === null) errors.landSize = 'Enter a land size';
+
+  if ('error' in price || 'error' in size || price.value === null || size.value === null) return { errors };
+  return { input: { askingPrice: price.value, landSize: size.value } };
+};
+
+const percentDifference = (value: number, average: number | null | undefined): number | null =>
+  isDataValue(average) ? ((value - average) / average) * 100 : null;
+
+export const getPercentile = (value: number, values: number[]): number | null => {
+  if (values.length === 0) return null;
+  return (values.filter(other => other < value).length / values.length) * 100;
+};
+
+// The suburb figures are passed as the map shows them, so the listing is run
+// through the same valuation model before it is compared with them
+export const evaluateListing = (
+  input: ListingInput,
+  suburbPricePerSqm: number | null | undefined,
+  lgaPricePerSqm: number | null | undefined,
+  allPricesPerSqm: (number | null | undefined)[],
+  model: ValuationModel = GROSS_MODEL
+): ListingEvaluation => {
+  const pricePerSqm = getModelPricePerSqm(input.askingPrice, input.landSize, model);
+
+  return {
+    ...input,
+    model: model.key,
+    pricePerSqm,
+    suburbPricePerSqm: isDataValue(suburbPricePerSqm) ? suburbPricePerSqm : null,
+    vsSuburb: pricePerSqm !== null ? percentDifference(pricePerSqm, suburbPricePerSqm) : null,
+    lgaPricePerSqm: isDataValue(lgaPricePerSqm) ? lgaPricePerSqm : null,
+    vsLga: pricePerSqm !== null ? percentDifference(pricePerSqm, lgaPricePerSqm) : null,
+    percentile: pricePerSqm !== null ? getPercentile(pricePerSqm, allPricesPerSqm.filter(isDataValue)) : null
+  };
+};
+
+// "12% above", "3% below", "in line"
+export const describeDifference = (difference: number | null): string => {
+  if (difference === null) return 'no data';
+  const rounded = Math.round(difference);
+  if (rounded === 0) return 'in line';
+  return `${Math.abs(rounded)}% ${rounded > 0 ? 'above' : 'below'}`;
+};
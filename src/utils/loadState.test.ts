@@ -0,0 +1,35 @@
+import { failLoad, finishLoad, hasLoadError, PENDING_LOAD, retryDelay, retryLoad, startLoad } from './loadState';
+
+const policy = { retries: 2, baseDelay: 1000, maxDelay: 3000 };
+
+test('doubles the wait before each retry up to the cap', () => {
+  expect([1, 2, 3, 4].map(failures => retryDelay(failures, policy))).toEqual([1000, 2000, 3000, 3000]);
+});
+
+test('retries automatically until the policy runs out, then fails', () => {
+  const first = failLoad(startLoad(PENDING_LOAD), 'Failed to load prices', 0, policy);
+  expect(first).toEqual({ status: 'retrying', failures: 1, error: 'Failed to load prices', retryAt: 1000 });
+
+  // The retry runs with its message still showing
+  const running = startLoad(first);
+  expect(running).toEqual({ ...first, retryAt: null });
+  expect(hasLoadError(running)).toBe(true);
+
+  const second = failLoad(running, 'Failed to load prices', 5000, policy);
+  expect(second).toEqual(expect.objectContaining({ status: 'retrying', failures: 2, retryAt: 7000 }));
+
+  const third = failLoad(startLoad(second), 'Failed to load prices', 9000, policy);
+  expect(third).toEqual({ status: 'failed', failures: 3, error: 'Failed to load prices', retryAt: null });
+});
+
+test('a manual retry starts a fresh set of attempts and success clears the error', () => {
+  const failed = { status: 'failed' as const, failures: 3, error: 'Offline', retryAt: null };
+  const retrying = retryLoad(failed);
+  expect(retrying).toEqual({ status: 'retrying', failures: 0, error: 'Offline', retryAt: null });
+  expect(failLoad(retrying, 'Offline', 0, policy).status).toBe('retrying');
+
+  expect(finishLoad()).toEqual({ status: 'loaded', failures: 0, error: null, retryAt: null });
+  expect(hasLoadError(finishLoad())).toBe(false);
+  // A new load after a success is pending again
+  expect(startLoad(finishLoad())).toBe(PENDING_LOAD);
+});
@@ -0,0 +1,77 @@
+// Where each of the map's loads has got to. A failed load retries by itself
+// a few times, waiting twice as long each time, and then waits for the user.
+// Nothing waits on another load's failure: the map shows whatever did load.
+
+export type LoadResource = 'boundaries' | 'prices' | 'join';
+
+export type LoadStatus = 'pending' | 'loaded' | 'failed' | 'retrying';
+
+export interface ResourceLoad {
+  status: LoadStatus;
+  // Failed attempts since the last success or manual retry
+  failures: number;
+  // The last failure's message, kept while a retry is under way
+  error: string | null;
+  // When the next automatic attempt is due; null while one is running or none is left
+  retryAt: number | null;
+}
+
+export interface RetryPolicy {
+  // Automatic attempts after the first failure
+  retries: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+export const RETRY_POLICY: RetryPolicy = { retries: 3, baseDelay: 1000, maxDelay: 10000 };
+
+// Named as the banner names them
+export const LOAD_RESOURCES: Record<LoadResource, string> = {
+  boundaries: 'Suburb boundaries',
+  prices: 'Price data',
+  join: 'Matching prices to suburbs'
+};
+
+// Order used by the banner
+export const LOAD_RESOURCE_KEYS: LoadResource[] = ['boundaries', 'prices', 'join'];
+
+export const PENDING_LOAD: ResourceLoad = { status: 'pending', failures: 0, error: null, retryAt: null };
+
+export const createLoads = (): Record<LoadResource, ResourceLoad> => ({
+  boundaries: PENDING_LOAD,
+  prices: PENDING_LOAD,
+  join: PENDING_LOAD
+});
+
+// Milliseconds before the given automatic retry, doubling from the base
+export const retryDelay = (failures: number, policy: RetryPolicy = RETRY_POLICY): number =>
+  Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, failures - 1));
+
+// A retry keeps its count and message while it runs; anything else starts afresh
+export const startLoad = (load: ResourceLoad): ResourceLoad =>
+  load.status === 'retrying' ? { ...load, retryAt: null } : PENDING_LOAD;
+
+export const finishLoad = (): ResourceLoad => ({ status: 'loaded', failures: 0, error: null, retryAt: null });
+
+export const failLoad = (
+  load: ResourceLoad,
+  error: string,
+  now: number,
+  policy: RetryPolicy = RETRY_POLICY
+): ResourceLoad => {
+  const failures = load.failures + 1;
+  return failures <= policy.retries
+    ? { status: 'retrying', failures, error, retryAt: now + retryDelay(failures, policy) }
+    : { status: 'failed', failures, error, retryAt: null };
+};
+
+// Asked for by the user: tries at once, with a fresh set of automatic retries
+export const retryLoad = (load: ResourceLoad): ResourceLoad => ({
+  status: 'retrying',
+  failures: 0,
+  error: load.error,
+  retryAt: null
+});
+
+// A failure the user should hear about, whether or not it is being retried
+export const hasLoadError = (load: ResourceLoad): boolean => load.status !== 'loaded' && load.error !== null;
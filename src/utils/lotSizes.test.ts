@@ -0,0 +1,58 @@
+import { applyLotSizes, parseLotSizeCsv, summariseLotSizeSources } from './lotSizes';
+import { parseSuburbCsv } from './suburbDataLoader';
+
+const dataset = parseSuburbCsv([
+  'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm',
+  'City Of Melbourne,Carlton,250,"$1,170,000","$4,680"',
+  'City Of Melbourne,Parkville,250,"$2,000,000","$7,000"',
+  'City Of Yarra,Fitzroy,,"$1,200,000",'
+].join('\n'));
+
+test('reads suburb lot sizes and reports bad rows', () => {
+  const { rows, issues } = parseLotSizeCsv([
+    'Suburb,LGA,Median Lot Size (sqm),Source',
+    'Carlton,,180,Valuer-General 2024',
+    ',,300,Valuer-General 2024',
+    'Fitzroy,City Of Yarra,abc,Valuer-General 2024',
+    'Parkville,,320,'
+  ].join('\n'));
+
+  expect(rows).toEqual([{ suburb: 'Carlton', lga: null, lotSize: 180, source: 'Valuer-General 2024', rowNumber: 2 }]);
+  expect(issues.map(issue => issue.rowNumber)).toEqual([3, 4, 5]);
+  expect(issues[2].message).toBe('Lot sizes: Source is blank');
+});
+
+test('rejects a file without the lot size column', () => {
+  expect(parseLotSizeCsv('Suburb,Source\nCarlton,x').issues[0]).toMatchObject({ severity: 'error', rowNumber: null });
+});
+
+test('puts suburb lot sizes ahead of the LGA average', () => {
+  const lotSizes = parseLotSizeCsv([
+    'Suburb,LGA,Median Lot Size (sqm),Source',
+    'carlton,,180,Valuer-General 2024',
+    'Fitzroy,City Of Yarra,150,Valuer-General 2024',
+    'Fitzroy,City Of Darebin,400,Valuer-General 2024',
+    'Atlantis,,500,Valuer-General 2024'
+  ].join('\n')).rows;
+  const result = applyLotSizes(dataset, lotSizes);
+
+  expect(result.rows.map(row => [row.blockSize, row.pricePerSqm])).toEqual([[180, 6500], [250, 8000], [150, 8000]]);
+  expect(Array.from(result.applied.keys())).toEqual([0, 2]);
+  expect(result.unused.map(lotSize => lotSize.suburb)).toEqual(['Fitzroy', 'Atlantis']);
+  // Fitzroy's missing block size and blank $/sqm no longer apply
+  expect(result.issues.filter(issue => issue.suburb === 'Fitzroy')).toEqual([]);
+  expect(result.issues.filter(issue => issue.suburb === 'Parkville')).toHaveLength(1);
+});
+
+test('summarises which block sizes the map is using', () => {
+  const summary = summariseLotSizeSources([
+    { lot_size_source: 'suburb', lot_size_reference: 'Valuer-General 2024' },
+    { lot_size_source: 'suburb', lot_size_reference: 'Valuer-General 2024' },
+    { lot_size_source: 'lga', lot_size_reference: null },
+    { lot_size_source: 'override', lot_size_reference: null },
+    // Units carry no block size
+    { lot_size_source: null }
+  ]);
+
+  expect(summary).toEqual({ counts: { suburb: 2, lga: 1, override: 1 }, references: ['Valuer-General 2024'] });
+});
@@ -0,0 +1,139 @@
+import {
+  computePricePerSqm,
+  CSV_COLUMNS,
+  DatasetIssue,
+  parseNumberCell,
+  readCsvRecords,
+  SuburbData,
+  SuburbDataset
+} from './suburbDataLoader';
+import { normaliseSuburbName } from './suburbMatcher';
+
+// Suburb median lot sizes, loaded from the optional /suburb-lot-sizes.csv.
+// The price CSV's block size is an average for the whole LGA, so every
+// suburb in a council gets the same figure; where this file has the suburb,
+// its own median lot size is used instead.
+
+export const LOT_SIZE_COLUMNS = {
+  suburb: 'Suburb',
+  // Optional; only needed when the suburb is listed under more than one LGA
+  lga: 'LGA',
+  lotSize: 'Median Lot Size (sqm)',
+  source: 'Source'
+} as const;
+
+export interface SuburbLotSize {
+  suburb: string;
+  lga: string | null;
+  lotSize: number;
+  source: string;
+  // 1-based line in the lot-size file, header included
+  rowNumber: number;
+}
+
+// Where a row's block size came from
+export type LotSizeSource = 'suburb' | 'lga' | 'override';
+
+export const LOT_SIZE_SOURCE_LABELS: Record<LotSizeSource, string> = {
+  suburb: 'Suburb median lot size',
+  lga: 'LGA average block size',
+  override: 'Manually corrected block size'
+};
+
+export interface LotSizeSummary {
+  // Joined suburbs whose block size came from each source
+  counts: Record<LotSizeSource, number>;
+  // What the suburb lot sizes in use cite, e.g. "Valuer-General 2024"
+  references: string[];
+}
+
+// Where the map's block sizes came from, from the properties the join wrote
+export const summariseLotSizeSources = (properties: { [key: string]: any }[]): LotSizeSummary => {
+  const counts: Record<LotSizeSource, number> = { suburb: 0, lga: 0, override: 0 };
+  const references: string[] = [];
+  properties.forEach(props => {
+    const source = props.lot_size_source as LotSizeSource | null | undefined;
+    if (!source || !(source in counts)) return;
+    counts[source]++;
+    if (source === 'suburb' && props.lot_size_reference && references.indexOf(props.lot_size_reference) === -1) {
+      references.push(props.lot_size_reference);
+    }
+  });
+  return { counts, references };
+};
+
+export interface LotSizeResult extends SuburbDataset {
+  // Keyed by index into rows
+  applied: Map<number, SuburbLotSize>;
+  unused: SuburbLotSize[];
+}
+
+const REQUIRED_COLUMNS = [LOT_SIZE_COLUMNS.suburb, LOT_SIZE_COLUMNS.lotSize, LOT_SIZE_COLUMNS.source];
+
+// Issues name the line in the lot-size file, not the price CSV
+export const parseLotSizeCsv = (csvText: string): { rows: SuburbLotSize[]; issues: DatasetIssue[] } => {
+  const { fields, records, rowNumbers } = readCsvRecords(csvText);
+  const rows: SuburbLotSize[] = [];
+  const issues: DatasetIssue[] = [];
+
+  const missingColumns = REQUIRED_COLUMNS.filter(column => fields.indexOf(column) === -1);
+  if (missingColumns.length > 0) {
+    issues.push({
+      severity: 'error',
+      rowNumber: null,
+      message: `Lot sizes: missing column${missingColumns.length > 1 ? 's' : ''}: ${missingColumns.join(', ')}`
+    });
+    return { rows, issues };
+  }
+
+  records.forEach((raw, index) => {
+    const rowNumber = rowNumbers[index];
+    const suburb = (raw[LOT_SIZE_COLUMNS.suburb] || '').trim();
+    const lga = (raw[LOT_SIZE_COLUMNS.lga] || '').trim();
+    const source = (raw[LOT_SIZE_COLUMNS.source] || '').trim();
+    const parsed = parseNumberCell(raw[LOT_SIZE_COLUMNS.lotSize]);
+    const error = (message: string): void => {
+      issues.push({ severity: 'error', rowNumber, suburb: suburb || undefined, message: `Lot sizes: ${message}` });
+    };
+
+    if (!suburb) return error('Suburb name is blank');
+    if ('error' in parsed) return error(parsed.error);
+    if (parsed.value === null) return error(`${LOT_SIZE_COLUMNS.lotSize} is blank`);
+    if (!source) return error('Source is blank');
+    rows.push({ suburb, lga: lga || null, lotSize: parsed.value, source, rowNumber });
+  });
+
+  return { rows, issues };
+};
+
+// Lot sizes are for houses; other types don't divide by land
+const matches = (lotSize: SuburbLotSize, row: SuburbData): boolean =>
+  row.propertyType === 'house' &&
+  normaliseSuburbName(lotSize.suburb) === normaliseSuburbName(row.suburb) &&
+  (!lotSize.lga || lotSize.lga.toLowerCase() === row.lga.toLowerCase().trim());
+
+// Return a copy of the dataset with each matched suburb's block size
+// replaced and $/sqm recomputed. The CSV's block size and $/sqm warnings for
+// those rows described the LGA figure, so they're dropped.
+export const applyLotSizes = (dataset: SuburbDataset, lotSizes: SuburbLotSize[]): LotSizeResult => {
+  const applied = new Map<number, SuburbLotSize>();
+  const used = new Set<SuburbLotSize>();
+
+  const rows = dataset.rows.map((row, index) => {
+    const lotSize = lotSizes.find(candidate => matches(candidate, row));
+    if (!lotSize) return row;
+    applied.set(index, lotSize);
+    used.add(lotSize);
+    return { ...row, blockSize: lotSize.lotSize, pricePerSqm: computePricePerSqm(row.medianPrice, lotSize.lotSize) };
+  });
+
+  const resizedRows = new Set<number>();
+  applied.forEach((lotSize, index) => resizedRows.add(rows[index].rowNumber));
+  const issues = dataset.issues.filter(issue =>
+    issue.rowNumber === null ||
+    !resizedRows.has(issue.rowNumber) ||
+    (issue.column !== CSV_COLUMNS.blockSize && issue.column !== CSV_COLUMNS.pricePerSqm)
+  );
+
+  return { rows, issues, applied, unused: lotSizes.filter(lotSize => !used.has(lotSize)) };
+};
@@ -0,0 +1,85 @@
+import { createMapDataTasks, MapDataProgress } from './mapDataTasks';
+import { parseSuburbCsv } from './suburbDataLoader';
+
+const boundaries = JSON.stringify({
+  type: 'FeatureCollection',
+  features: [
+    { type: 'Feature', properties: { vic_loca_2: 'Fitzroy' }, geometry: null },
+    { type: 'Feature', properties: { vic_loca_2: 'Collingwood' }, geometry: null }
+  ]
+});
+
+const dataset = parseSuburbCsv([
+  'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm',
+  'City Of Yarra,Fitzroy,200,"$1,200,000","$6,000"'
+].join('\n'));
+
+test('joins prices to boundaries parsed earlier, by key', () => {
+  const tasks = createMapDataTasks();
+  const progress: MapDataProgress[] = [];
+
+  expect(tasks.run('parse-boundaries', { key: '/vic_suburbs.json', text: boundaries }, p => progress.push(p))).toEqual({
+    key: '/vic_suburbs.json',
+    format: 'geojson',
+    featureCount: 2
+  });
+  const join = tasks.run(
+    'join',
+    { boundariesKey: '/vic_suburbs.json', dataset, overrides: [], snapshotId: '2024-Q4' },
+    p => progress.push(p)
+  );
+
+  expect(join.collection.features[0].properties.price_sqm).toBe(6000);
+  expect(join.report.unmatchedFeatures).toEqual(['Collingwood']);
+  expect(progress.map(p => p.task)).toContain('join');
+  expect(progress[progress.length - 1]).toMatchObject({ task: 'join', completed: 1, total: 1 });
+});
+
+test('refuses to join boundaries that were never parsed', () => {
+  const tasks = createMapDataTasks();
+
+  expect(() => tasks.run('join', { boundariesKey: '/data/suburbs-low.topo.json', dataset, overrides: [], snapshotId: '2024-Q4' }))
+    .toThrow('have not been loaded');
+});
+
+test('hands back precomputed boundaries as parsed, joined properties and all', () => {
+  const tasks = createMapDataTasks();
+  const joined = JSON.stringify({
+    type: 'FeatureCollection',
+    features: [{ type: 'Feature', properties: { vic_loca_2: 'Fitzroy', price_sqm: 6000 }, geometry: null }]
+  });
+  tasks.run('parse-boundaries', { key: '/data/suburbs-low.topo.json', text: joined });
+
+  expect(tasks.run('precomputed', { boundariesKey: '/data/suburbs-low.topo.json' }).features[0].properties.price_sqm).toBe(6000);
+  expect(() => tasks.run('precomputed', { boundariesKey: '/data/suburbs-high.topo.json' })).toThrow('have not been loaded');
+});
+
+test('classifies values', () => {
+  const classification = createMapDataTasks().run('classify', {
+    values: [1000, 2000, null],
+    options: { scheme: 'manual', classCount: 3, manualBreaks: [1500] }
+  });
+
+  expect(classification.counts).toEqual([1, 1]);
+  expect(classification.noDataCount).toBe(1);
+});
+
+test('dissolves parsed boundaries into councils and reports union failures', () => {
+  const square = (x: number) => ({ type: 'Polygon', coordinates: [[[x, 0], [x + 1, 0], [x + 1, 1], [x, 1], [x, 0]]] });
+  const tasks = createMapDataTasks();
+  tasks.run('parse-boundaries', {
+    key: 'squares',
+    text: JSON.stringify({
+      type: 'FeatureCollection',
+      features: [0, 1, 5].map(x => ({ type: 'Feature', properties: { vic_loca_2: `S${x}` }, geometry: square(x) }))
+    })
+  });
+
+  const councils = tasks.run('dissolve', { boundariesKey: 'squares', lgas: ['City Of Yarra', 'City Of Yarra', null] });
+  expect(councils.map(council => council.lga)).toEqual(['City Of Yarra']);
+  expect(councils[0].geometry.coordinates).toHaveLength(1);
+  // The same councils again come from the cache
+  expect(tasks.run('dissolve', { boundariesKey: 'squares', lgas: ['City Of Yarra', 'City Of Yarra', null] })).toBe(councils);
+
+  expect(() => tasks.run('dissolve', { boundariesKey: 'missing', lgas: [] })).toThrow('have not been loaded');
+});
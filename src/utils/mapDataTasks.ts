@@ -0,0 +1,112 @@
+import { BoundaryFormat, parseBoundaries } from './boundaryFormat';
+import { classify, Classification, ClassificationOptions } from './classification';
+import { dissolveGeometries, LgaGeometry } from './lgaAggregation';
+import { SuburbDataset } from './suburbDataLoader';
+import { BoundaryCollection, joinSuburbData, JoinOptions, SuburbJoin } from './suburbJoin';
+import { SuburbOverride } from './suburbOverrides';
+
+// The map's heavy lifting: parsing boundaries, joining prices to them and
+// classifying the result. src/workers/mapData.worker.ts runs these off the
+// main thread; without workers (e.g. in tests) they run inline.
+//
+// Parsed boundaries stay with the tasks, keyed by file, so a join sends a key
+// rather than copying every polygon across on each snapshot. Dissolved
+// councils are kept too, since a new quarter rarely moves a suburb between
+// them.
+
+export interface MapDataTasks {
+  'parse-boundaries': {
+    input: { key: string; text: string };
+    output: { key: string; format: BoundaryFormat; featureCount: number };
+  };
+  join: {
+    input: {
+      boundariesKey: string;
+      dataset: SuburbDataset;
+      overrides: SuburbOverride[];
+      snapshotId: string;
+      options?: JoinOptions;
+    };
+    output: SuburbJoin;
+  };
+  // Boundaries as they were parsed, for files that were joined at build time
+  precomputed: {
+    input: { boundariesKey: string };
+    output: BoundaryCollection;
+  };
+  // Council boundaries from the suburbs, given each boundary's LGA by index
+  dissolve: {
+    input: { boundariesKey: string; lgas: (string | null)[] };
+    output: LgaGeometry[];
+  };
+  classify: {
+    input: { values: (number | null | undefined)[]; options: ClassificationOptions };
+    output: Classification;
+  };
+}
+
+export type MapDataTask = keyof MapDataTasks;
+
+export interface MapDataProgress {
+  task: MapDataTask;
+  message: string;
+  completed: number;
+  total: number;
+}
+
+export type ProgressCallback = (progress: MapDataProgress) => void;
+
+export interface MapDataRunner {
+  run: <K extends MapDataTask>(
+    task: K,
+    input: MapDataTasks[K]['input'],
+    onProgress?: ProgressCallback
+  ) => MapDataTasks[K]['output'];
+}
+
+export const createMapDataTasks = (): MapDataRunner => {
+  const boundaries = new Map<string, BoundaryCollection>();
+  const dissolved = new Map<string, LgaGeometry[]>();
+
+  const getBoundaries = (key: string): BoundaryCollection => {
+    const collection = boundaries.get(key);
+    if (!collection) throw new Error(`Boundaries ${key} have not been loaded`);
+    return collection;
+  };
+
+  const handlers: { [K in MapDataTask]: (input: MapDataTasks[K]['input'], onProgress: ProgressCallback) => MapDataTasks[K]['output'] } = {
+    'parse-boundaries': ({ key, text }, onProgress) => {
+      onProgress({ task: 'parse-boundaries', message: 'Reading suburb boundaries', completed: 0, total: 1 });
+      const { collection, format } = parseBoundaries(text, (completed, total) => {
+        onProgress({ task: 'parse-boundaries', message: 'Reading suburb boundaries', completed, total });
+      });
+      boundaries.set(key, collection);
+      return { key, format, featureCount: collection.features.length };
+    },
+    join: ({ boundariesKey, dataset, overrides, snapshotId, options }, onProgress) => {
+      const collection = getBoundaries(boundariesKey);
+      onProgress({ task: 'join', message: 'Matching prices to suburbs', completed: 0, total: 1 });
+      const join = joinSuburbData(collection, dataset, overrides, snapshotId, options);
+      onProgress({ task: 'join', message: 'Matching prices to suburbs', completed: 1, total: 1 });
+      return join;
+    },
+    precomputed: ({ boundariesKey }) => getBoundaries(boundariesKey),
+    dissolve: ({ boundariesKey, lgas }, onProgress) => {
+      const collection = getBoundaries(boundariesKey);
+      const cacheKey = `${boundariesKey}\n${lgas.join('\n')}`;
+      const cached = dissolved.get(cacheKey);
+      if (cached) return cached;
+      onProgress({ task: 'dissolve', message: 'Building council boundaries', completed: 0, total: 1 });
+      const shapes = dissolveGeometries(collection.features.map(feature => feature.geometry), lgas);
+      // Only the latest is worth keeping
+      dissolved.clear();
+      dissolved.set(cacheKey, shapes);
+      return shapes;
+    },
+    classify: ({ values, options }) => classify(values, options)
+  };
+
+  return {
+    run: (task, input, onProgress = () => {}) => (handlers[task] as any)(input, onProgress)
+  };
+};
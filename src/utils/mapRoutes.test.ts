@@ -0,0 +1,25 @@
+import { findRoute, getRoute, MAP_ROUTES } from './mapRoutes';
+
+test('has a route for every price source and layer', () => {
+  expect(getRoute('snapshots', 'suburbs').path).toBe('/');
+  expect(getRoute('snapshots', 'lga').path).toBe('/lga');
+  expect(getRoute('random', 'suburbs').path).toBe('/demo');
+  expect(getRoute('random', 'lga').path).toBe('/demo/lga');
+  expect(new Set(MAP_ROUTES.map(route => route.path)).size).toBe(MAP_ROUTES.length);
+});
+
+test('finds the route for a path, ignoring a trailing slash', () => {
+  expect(findRoute('/demo/').config).toMatchObject({ prices: 'random', layer: 'suburbs' });
+  expect(findRoute('/lga').config).toMatchObject({ prices: 'snapshots', layer: 'lga' });
+});
+
+test('opens the real-data map for unknown paths', () => {
+  expect(findRoute('/vic-map').path).toBe('/');
+  expect(findRoute('').path).toBe('/');
+});
+
+test('follows ?view=lga from older links', () => {
+  expect(findRoute('/', 'lga').path).toBe('/lga');
+  expect(findRoute('/demo', 'lga').path).toBe('/demo/lga');
+  expect(findRoute('/lga', 'lga').path).toBe('/lga');
+});
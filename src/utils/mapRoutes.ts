@@ -0,0 +1,49 @@
+// The map's pages. Every route renders the same map; its config says where
+// the prices and boundaries come from and which layer is showing, so the
+// address bar always names the view and the back button steps between them.
+
+export type MapLayer = 'suburbs' | 'lga';
+
+// Real quarterly prices, or random ones for trying the map out
+export type PriceSource = 'snapshots' | 'random';
+
+export interface MapConfig {
+  title: string;
+  prices: PriceSource;
+  // Boundary file to load; null means the precomputed or configured boundaries
+  boundaries: string | null;
+  layer: MapLayer;
+}
+
+export interface MapRoute {
+  path: string;
+  config: MapConfig;
+}
+
+export const PRICE_SOURCES: { key: PriceSource; label: string }[] = [
+  { key: 'snapshots', label: 'Real data' },
+  { key: 'random', label: 'Demo data' }
+];
+
+const REAL_DATA = { title: 'Melbourne Land Valuation Map', prices: 'snapshots', boundaries: null } as const;
+
+// The small sample boundaries load instantly, which is all a demo needs
+const DEMO_DATA = { title: 'Demo: random prices, not real data', prices: 'random', boundaries: '/vic_suburbs_simple.json' } as const;
+
+export const MAP_ROUTES: MapRoute[] = [
+  { path: '/', config: { ...REAL_DATA, layer: 'suburbs' } },
+  { path: '/lga', config: { ...REAL_DATA, layer: 'lga' } },
+  { path: '/demo', config: { ...DEMO_DATA, layer: 'suburbs' } },
+  { path: '/demo/lga', config: { ...DEMO_DATA, layer: 'lga' } }
+];
+
+export const getRoute = (prices: PriceSource, layer: MapLayer): MapRoute =>
+  MAP_ROUTES.find(route => route.config.prices === prices && route.config.layer === layer) || MAP_ROUTES[0];
+
+// Unknown paths open the real-data map. Links from before the council view
+// had its own path say ?view=lga instead.
+export const findRoute = (pathname: string, legacyView?: MapLayer): MapRoute => {
+  const path = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+  const route = MAP_ROUTES.find(candidate => candidate.path === path) || MAP_ROUTES[0];
+  return legacyView && legacyView !== route.config.layer ? getRoute(route.config.prices, legacyView) : route;
+};
@@ -0,0 +1,60 @@
+// The measures the choropleth can be coloured by. Keys are the feature
+// property names written by the merge step.
+
+export type MetricKey = 'price_sqm' | 'median_price' | 'block_size';
+
+export interface MetricDefinition {
+  key: MetricKey;
+  label: string;
+  legendTitle: string;
+  popupLabel: string;
+  format: (value: number | null | undefined) => string;
+  // Default breaks for the manual classification scheme
+  manualBreaks: number[];
+  // Slider step when filtering by this metric
+  filterStep: number;
+  // Divides by or measures land, so only houses have it
+  needsLand: boolean;
+}
+
+const formatDollars = (value: number | null | undefined): string =>
+  value === null || value === undefined ? 'N/A' : `$${Math.round(value).toLocaleString()}`;
+
+const formatArea = (value: number | null | undefined): string =>
+  value === null || value === undefined ? 'N/A' : `${Math.round(value).toLocaleString()} sqm`;
+
+export const METRICS: Record<MetricKey, MetricDefinition> = {
+  price_sqm: {
+    key: 'price_sqm',
+    label: '$/sqm',
+    legendTitle: 'Price per sqm',
+    popupLabel: 'Price per sqm',
+    format: formatDollars,
+    manualBreaks: [3000, 4000, 5000, 6000, 7000, 8000, 9000],
+    filterStep: 100,
+    needsLand: true
+  },
+  median_price: {
+    key: 'median_price',
+    label: 'Median price',
+    legendTitle: 'Median house price',
+    popupLabel: 'Median House Price',
+    format: formatDollars,
+    manualBreaks: [1000000, 1200000, 1400000, 1600000, 1800000, 2200000, 2800000],
+    filterStep: 10000,
+    needsLand: false
+  },
+  block_size: {
+    key: 'block_size',
+    label: 'Block size',
+    legendTitle: 'Estimated block size',
+    popupLabel: 'Estimated Block Size',
+    format: formatArea,
+    manualBreaks: [260, 300, 350, 400, 425, 450, 470],
+    filterStep: 10,
+    needsLand: true
+  }
+};
+
+// Order used by the selector and the popup
+export const METRIC_KEYS: MetricKey[] = ['median_price', 'block_size', 'price_sqm'];
@@ -0,0 +1,94 @@
+import { parseSuburbCsv } from './suburbDataLoader';
+import { BoundaryCollection, joinSuburbData } from './suburbJoin';
+import { getLevelForZoom, getPrecomputedPath, isPrecomputedManifest, matchesPrecomputed } from './detailLevels';
+import { GROSS_MODEL } from './landValue';
+import { createManifest, cropToRegion, getBuildProblems, simplifyLevels } from './precompute';
+
+// A square with extra points along its edges, split into two suburbs that
+// share the middle edge
+const edge = (from: [number, number], to: [number, number], steps: number): [number, number][] =>
+  Array.from({ length: steps }, (_, i) => [
+    from[0] + ((to[0] - from[0]) * i) / steps,
+    from[1] + ((to[1] - from[1]) * i) / steps + (i % 2 ? 0.00001 : 0)
+  ]);
+
+const square = (name: string, west: number, east: number) => ({
+  type: 'Feature',
+  properties: { vic_loca_2: name },
+  geometry: {
+    type: 'Polygon',
+    coordinates: [[
+      ...edge([west, -37.8], [east, -37.8], 20),
+      ...edge([east, -37.8], [east, -37.9], 20),
+      ...edge([east, -37.9], [west, -37.9], 20),
+      ...edge([west, -37.9], [west, -37.8], 20),
+      [west, -37.8]
+    ]]
+  }
+});
+
+const boundaries: BoundaryCollection = {
+  type: 'FeatureCollection',
+  features: [square('Fitzroy', 144.9, 145.0), square('Collingwood', 145.0, 145.1), square('Mildura', 142.1, 142.2)]
+};
+
+const dataset = parseSuburbCsv([
+  'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm',
+  'City Of Yarra,Fitzroy,200,"$1,200,000","$6,000"',
+  'City Of Yarra,Collingwood,200,"$1,000,000","$5,000"'
+].join('\n'));
+
+test('picks a detail level for the zoom', () => {
+  expect(getLevelForZoom(9).id).toBe('low');
+  expect(getLevelForZoom(12).id).toBe('medium');
+  expect(getLevelForZoom(16).id).toBe('high');
+  expect(getPrecomputedPath('low', 'topojson')).toBe('/data/suburbs-low.topo.json');
+});
+
+test('crops to Greater Melbourne', () => {
+  expect(cropToRegion(boundaries).features.map(boundary => boundary.properties.vic_loca_2)).toEqual(['Fitzroy', 'Collingwood']);
+});
+
+test('passes a fully matched dataset and reports unmatched and invalid rows', () => {
+  const cropped = cropToRegion(boundaries);
+  expect(getBuildProblems(joinSuburbData(cropped, dataset, [], '2025-Q1'))).toEqual([]);
+
+  const broken = parseSuburbCsv([
+    'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm',
+    'City Of Yarra,Fitzroy,200,"$1,200,000","$6,000"',
+    'City Of Yarra,Atlantis,200,"$1,000,000","$5,000"',
+    'City Of Yarra,Abbotsford,big,,'
+  ].join('\n'));
+  const override = { suburb: 'Nowhere', fields: { 'Median Price': '1' }, reason: 'test', source: 'test' };
+  expect(getBuildProblems(joinSuburbData(cropped, broken, [override], '2025-Q1'))).toEqual([
+    'Row 4 (Abbotsford): "big" is not a number',
+    'Row 3: no boundary matches Atlantis (City Of Yarra)',
+    'Override for Nowhere matches no row'
+  ]);
+});
+
+test('simplifies each level on a shared topology, keeping joined properties', () => {
+  const joined = joinSuburbData(cropToRegion(boundaries), dataset, [], '2025-Q1').collection;
+  const levels = simplifyLevels(joined);
+  const pointCount = (collection: BoundaryCollection) =>
+    collection.features.reduce((sum, boundary) => sum + boundary.geometry.coordinates[0].length, 0);
+
+  expect(levels.map(({ level }) => level.id)).toEqual(['low', 'medium', 'high']);
+  expect(pointCount(levels[0].collection)).toBeLessThan(pointCount(levels[2].collection));
+  expect(levels[0].collection.features[0].geometry.coordinates[0].length).toBeGreaterThanOrEqual(4);
+  expect(levels[0].collection.features.map(boundary => boundary.properties.price_sqm)).toEqual([6000, 5000]);
+  expect(Object.keys(levels[0].topology.objects)).toEqual(['suburbs']);
+});
+
+test('records what the layers were joined from, so the map only rejoins for anything else', () => {
+  const join = joinSuburbData(cropToRegion(boundaries), dataset, [], '2025-Q1');
+  const manifest = JSON.parse(JSON.stringify(createManifest(join, dataset, '2025-Q1')));
+
+  expect(isPrecomputedManifest(manifest)).toBe(true);
+  expect(manifest).toMatchObject({ snapshotId: '2025-Q1', model: 'gross', propertyType: 'house', rowCount: 2, matchedRowCount: 2 });
+  expect(matchesPrecomputed(manifest, '2025-Q1', GROSS_MODEL, 'house')).toBe(true);
+  expect(matchesPrecomputed(manifest, '2024-Q4', GROSS_MODEL, 'house')).toBe(false);
+  expect(matchesPrecomputed(manifest, '2025-Q1', { key: 'land-residual', buildingValue: 350000 }, 'house')).toBe(false);
+  expect(matchesPrecomputed(manifest, '2025-Q1', GROSS_MODEL, 'unit')).toBe(false);
+  expect(isPrecomputedManifest({ snapshotId: '2025-Q1' })).toBe(false);
+});
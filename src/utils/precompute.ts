@@ -0,0 +1,112 @@
+import { feature } from 'topojson-client';
+import { topology } from 'topojson-server';
+import { presimplify, simplify } from 'topojson-simplify';
+import { Objects, Topology } from 'topojson-specification';
+import { DatasetIssue, PropertyType, SuburbData, SuburbDataset } from './suburbDataLoader';
+import { DETAIL_LEVELS, DetailLevel, PrecomputedManifest, TOPOLOGY_OBJECT } from './detailLevels';
+import { GROSS_MODEL, ValuationModel } from './landValue';
+import { BoundaryCollection, summariseJoin, SuburbJoin } from './suburbJoin';
+
+// Build-time preparation of the suburb layer (scripts/precompute-data.js):
+// the boundaries are cropped to Greater Melbourne, joined to the latest
+// prices and simplified once per detail level, so visitors download a small
+// file instead of every locality in Victoria.
+
+// [[west, south], [east, north]]
+export type Bounds = [[number, number], [number, number]];
+
+export const GREATER_MELBOURNE_BOUNDS: Bounds = [[144.3, -38.55], [145.9, -37.35]];
+
+const forEachPosition = (coordinates: any, callback: (position: number[]) => void) => {
+  if (!Array.isArray(coordinates)) return;
+  if (typeof coordinates[0] === 'number') {
+    callback(coordinates);
+    return;
+  }
+  coordinates.forEach((child: any) => forEachPosition(child, callback));
+};
+
+export const getGeometryBounds = (geometry: any): Bounds | null => {
+  let bounds: Bounds | null = null;
+  const geometries = geometry && geometry.type === 'GeometryCollection' ? geometry.geometries : [geometry];
+  geometries.forEach((part: any) => {
+    forEachPosition(part && part.coordinates, ([x, y]) => {
+      if (!bounds) {
+        bounds = [[x, y], [x, y]];
+        return;
+      }
+      bounds[0][0] = Math.min(bounds[0][0], x);
+      bounds[0][1] = Math.min(bounds[0][1], y);
+      bounds[1][0] = Math.max(bounds[1][0], x);
+      bounds[1][1] = Math.max(bounds[1][1], y);
+    });
+  });
+  return bounds;
+};
+
+const intersects = (a: Bounds, b: Bounds): boolean =>
+  a[0][0] <= b[1][0] && a[1][0] >= b[0][0] && a[0][1] <= b[1][1] && a[1][1] >= b[0][1];
+
+// Keep the features that reach into the region; ones on its edge are kept
+// whole rather than cut
+export const cropToRegion = (collection: BoundaryCollection, region: Bounds = GREATER_MELBOURNE_BOUNDS): BoundaryCollection => ({
+  ...collection,
+  features: collection.features.filter(boundary => {
+    const bounds = getGeometryBounds(boundary.geometry);
+    return bounds !== null && intersects(bounds, region);
+  })
+});
+
+const describeIssue = (issue: DatasetIssue): string =>
+  `${issue.rowNumber !== null ? `Row ${issue.rowNumber}` : 'File'}${issue.suburb ? ` (${issue.suburb})` : ''}`;
+
+// Everything that should stop the build: rows the loader rejected, rows no
+// boundary matched and overrides that matched no row. Warnings don't count.
+export const getBuildProblems = (join: SuburbJoin): string[] => {
+  const problems: string[] = [];
+  join.issues
+    .filter(issue => issue.severity === 'error')
+    .forEach(issue => problems.push(`${describeIssue(issue)}: ${issue.message}`));
+  join.report.unmatchedRows.forEach((row: SuburbData) => {
+    problems.push(`Row ${row.rowNumber}: no boundary matches ${row.suburb} (${row.lga})`);
+  });
+  join.unusedOverrides.forEach(override => {
+    problems.push(`Override for ${override.suburb} matches no row`);
+  });
+  return problems;
+};
+
+export interface PrecomputedLevel {
+  level: DetailLevel;
+  topology: Topology<Objects>;
+  collection: BoundaryCollection;
+}
+
+// Simplify on a shared topology so neighbouring suburbs keep a common edge
+// instead of opening gaps between them
+export const simplifyLevels = (collection: BoundaryCollection, levels: DetailLevel[] = DETAIL_LEVELS): PrecomputedLevel[] => {
+  // Quantised to 1e5 steps across the region, about a metre at this scale
+  const shared = topology({ [TOPOLOGY_OBJECT]: collection as any }, 1e5) as unknown as Topology<Objects>;
+  const presimplified = presimplify(shared);
+  return levels.map(level => {
+    const simplified = simplify(presimplified, level.minWeight);
+    return {
+      level,
+      topology: simplified,
+      collection: feature(simplified, simplified.objects[TOPOLOGY_OBJECT]) as unknown as BoundaryCollection
+    };
+  });
+};
+
+export const createManifest = (
+  join: SuburbJoin,
+  dataset: SuburbDataset,
+  snapshotId: string,
+  model: ValuationModel = GROSS_MODEL,
+  propertyType: PropertyType = 'house'
+): PrecomputedManifest => ({
+  snapshotId,
+  model: model.key,
+  propertyType,
+  ...summariseJoin(join, dataset)
+});
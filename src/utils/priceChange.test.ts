@@ -0,0 +1,42 @@
+import { classifyChange, comparePeriods, formatChange, getChangeColor, getChangeValue, NO_CHANGE_COLOR } from './priceChange';
+
+test('computes absolute and percentage change for each price metric', () => {
+  const change = comparePeriods({ price_sqm: 5000, median_price: 2000000 }, { price_sqm: 5500, median_price: 1900000 });
+
+  expect(change.status).toBe('compared');
+  expect(getChangeValue(change, 'price_sqm', 'absolute')).toBe(500);
+  expect(getChangeValue(change, 'price_sqm', 'percent')).toBe(10);
+  expect(getChangeValue(change, 'median_price', 'percent')).toBe(-5);
+});
+
+test('flags suburbs missing from either period instead of reporting zero change', () => {
+  expect(comparePeriods(null, { price_sqm: 5000 })).toEqual({ status: 'missing-baseline', changes: {} });
+  expect(comparePeriods({ price_sqm: 5000 }, null)).toEqual({ status: 'missing-current', changes: {} });
+
+  const unpriced = comparePeriods({ price_sqm: null, median_price: 1000000 }, { price_sqm: 4000, median_price: null });
+  expect(unpriced.status).toBe('no-price');
+  expect(getChangeValue(unpriced, 'price_sqm', 'absolute')).toBeNull();
+});
+
+test('classifies change on a scale centred on zero', () => {
+  const classification = classifyChange([-7, 3, 12, null]);
+
+  expect(classification.breaks).toEqual([-15, -10, -5, 0, 5, 10, 15]);
+  expect(classification.counts).toEqual([0, 0, 1, 0, 1, 0, 1, 0]);
+  expect(classification.noDataCount).toBe(1);
+  expect(getChangeColor(-0.1, classification)).toBe(classification.colors[3]);
+  expect(getChangeColor(0.1, classification)).toBe(classification.colors[4]);
+});
+
+test('gives no change its own neutral colour rather than a rising class', () => {
+  const classification = classifyChange([-7, 0, 0, 12]);
+
+  expect(getChangeColor(0, classification)).toBe(NO_CHANGE_COLOR);
+  expect(classification.counts).toEqual([0, 0, 1, 0, 0, 0, 1, 0]);
+});
+
+test('formats change with its sign', () => {
+  expect(formatChange(1250, 'absolute')).toBe('+$1,250');
+  expect(formatChange(-3.25, 'percent')).toBe('-3.3%');
+  expect(formatChange(null, 'percent')).toBe('N/A');
+});
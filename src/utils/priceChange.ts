@@ -0,0 +1,132 @@
+import { Classification, getClassIndex, isDataValue, NO_DATA_COLOR } from './classification';
+
+// Movement in prices between two datasets of the CSV format: a baseline
+// period and the period currently on the map.
+
+export type ChangeMetricKey = 'price_sqm' | 'median_price';
+
+export type ChangeUnit = 'absolute' | 'percent';
+
+// A suburb missing from one period is flagged rather than treated as no change
+export type ChangeStatus = 'compared' | 'missing-baseline' | 'missing-current' | 'no-price';
+
+export interface MetricChange {
+  from: number;
+  to: number;
+  absolute: number;
+  percent: number;
+}
+
+export interface PriceChange {
+  status: ChangeStatus;
+  changes: Partial<Record<ChangeMetricKey, MetricChange>>;
+}
+
+export const CHANGE_METRICS: { key: ChangeMetricKey; label: string }[] = [
+  { key: 'price_sqm', label: '$/sqm' },
+  { key: 'median_price', label: 'Median price' }
+];
+
+export const CHANGE_UNITS: { key: ChangeUnit; label: string }[] = [
+  { key: 'percent', label: '%' },
+  { key: 'absolute', label: '$' }
+];
+
+export const CHANGE_STATUS_LABELS: Record<ChangeStatus, string> = {
+  'compared': 'In both periods',
+  'missing-baseline': 'Not in the earlier period',
+  'missing-current': 'Not in the current period',
+  'no-price': 'No price in one period'
+};
+
+// Blue for falling prices through to red for rising, split at zero
+export const DIVERGING_PALETTE = ['#2166ac', '#4393c3', '#92c5de', '#d1e5f0', '#fddbc7', '#f4a582', '#d6604d', '#b2182b'];
+
+// Fill for suburbs whose price didn't move. Zero is the boundary between the
+// falling and rising classes, so it would otherwise read as a rise.
+export const NO_CHANGE_COLOR = '#f7f7f7';
+
+// Fill for suburbs that can't be compared, distinct from the no-data grey
+export const MISSING_PERIOD_COLOR = '#ffffff';
+
+export const computeMetricChange = (from: number | null | undefined, to: number | null | undefined): MetricChange | null => {
+  if (!isDataValue(from) || !isDataValue(to)) return null;
+  return {
+    from,
+    to,
+    absolute: to - from,
+    percent: ((to - from) / from) * 100
+  };
+};
+
+type PeriodPrices = Partial<Record<ChangeMetricKey, number | null>>;
+
+export const comparePeriods = (baseline: PeriodPrices | null, current: PeriodPrices | null): PriceChange => {
+  if (!baseline) return { status: 'missing-baseline', changes: {} };
+  if (!current) return { status: 'missing-current', changes: {} };
+
+  const changes: Partial<Record<ChangeMetricKey, MetricChange>> = {};
+  CHANGE_METRICS.forEach(({ key }) => {
+    const change = computeMetricChange(baseline[key], current[key]);
+    if (change) changes[key] = change;
+  });
+
+  return { status: Object.keys(changes).length > 0 ? 'compared' : 'no-price', changes };
+};
+
+export const isMissingPeriod = (change: PriceChange | undefined): boolean =>
+  !!change && (change.status === 'missing-baseline' || change.status === 'missing-current');
+
+export const getChangeValue = (change: PriceChange | undefined, metric: ChangeMetricKey, unit: ChangeUnit): number | null => {
+  const metricChange = change ? change.changes[metric] : undefined;
+  if (!metricChange) return null;
+  return unit === 'percent' ? metricChange.percent : metricChange.absolute;
+};
+
+// Round up to 1, 2, 2.5 or 5 times a power of ten so breaks read cleanly
+const niceStep = (value: number): number => {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const normalised = value / magnitude;
+  const nice = [1, 2, 2.5, 5, 10].find(step => normalised <= step) || 10;
+  return nice * magnitude;
+};
+
+// Four classes either side of zero, evenly spaced out to the largest movement.
+// No change at all is left out of the counts, since it has its own colour.
+export const classifyChange = (values: (number | null | undefined)[]): Classification => {
+  const dataValues = values.filter((value): value is number => typeof value === 'number' && isFinite(value));
+  const largest = dataValues.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+  const step = largest > 0 ? niceStep(largest / 4) : 1;
+  const breaks = [-3 * step, -2 * step, -step, 0, step, 2 * step, 3 * step];
+
+  const counts = new Array(breaks.length + 1).fill(0);
+  dataValues.forEach(value => {
+    if (value !== 0) counts[getClassIndex(value, breaks)]++;
+  });
+
+  return {
+    breaks,
+    colors: DIVERGING_PALETTE.slice(),
+    counts,
+    noDataCount: values.length - dataValues.length,
+    min: dataValues.length ? Math.min(...dataValues) : null,
+    max: dataValues.length ? Math.max(...dataValues) : null
+  };
+};
+
+// Unlike getClassColor, negative values are data here
+export const getChangeColor = (value: number | null | undefined, classification: Classification): string => {
+  if (typeof value !== 'number' || !isFinite(value)) return NO_DATA_COLOR;
+  if (value === 0) return NO_CHANGE_COLOR;
+  return classification.colors[getClassIndex(value, classification.breaks)];
+};
+
+// "+$250", "-$1,200", "+3.5%"
+export const formatChange = (value: number | null | undefined, unit: ChangeUnit): string => {
+  if (typeof value !== 'number' || !isFinite(value)) return 'N/A';
+  const sign = value > 0 ? '+' : value < 0 ? '-' : '';
+  const magnitude = Math.abs(value);
+  return unit === 'percent'
+    ? `${sign}${magnitude.toFixed(1)}%`
+    : `${sign}$${Math.round(magnitude).toLocaleString()}`;
+};
@@ -0,0 +1,36 @@
+import { describePriceBasis, selectPropertyType } from './propertyTypes';
+import { parseSuburbCsv } from './suburbDataLoader';
+
+const { rows } = parseSuburbCsv([
+  'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm,Property Type',
+  'City Of Melbourne,Southbank,250,"$1,300,000","$5,200",House',
+  'City Of Melbourne,Southbank,,"$500,000",,Unit',
+  'City Of Melbourne,Docklands,,"$600,000",,Unit',
+  'City Of Melbourne,Docklands,,"$650,000",,All',
+  'City Of Yarra,Fitzroy,200,"$1,400,000","$7,000",'
+].join('\n'));
+
+test('selects the rows of one property type', () => {
+  const units = selectPropertyType(rows, 'unit');
+
+  expect(units.rows.map(row => row.suburb)).toEqual(['Southbank', 'Docklands']);
+  expect(units.sources).toEqual([[1], [2]]);
+});
+
+test('prefers a published all-dwellings median and otherwise averages the types', () => {
+  const all = selectPropertyType(rows, 'all');
+
+  expect(all.rows.map(row => [row.suburb, row.propertyType, row.medianPrice, row.blockSize, row.pricePerSqm])).toEqual([
+    ['Southbank', 'all', 900000, null, null],
+    ['Docklands', 'all', 650000, null, null],
+    ['Fitzroy', 'all', 1400000, null, null]
+  ]);
+  expect(all.sources).toEqual([[0, 1], [3], [4]]);
+});
+
+test('explains an all-dwellings price that was not published as one', () => {
+  expect(describePriceBasis('all', ['house', 'unit'])).toContain('Average of the house and unit medians');
+  expect(describePriceBasis('all', ['house'])).toContain('Only houses');
+  expect(describePriceBasis('all', ['all'])).toBeNull();
+  expect(describePriceBasis('unit', ['unit'])).toBeNull();
+});
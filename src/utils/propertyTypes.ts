@@ -0,0 +1,88 @@
+import { PropertyType, SuburbData } from './suburbDataLoader';
+import { normaliseSuburbName } from './suburbMatcher';
+
+// The price CSV can hold a row per suburb for each property type. The map
+// shows one type at a time, so a suburb is always a single row by the time
+// it is matched to its boundary.
+
+export interface PropertyTypeOption {
+  key: PropertyType;
+  label: string;
+  // Singular, as in "median unit price"
+  noun: string;
+  // Whether the price buys land, so block size and $/sqm mean something
+  hasLand: boolean;
+}
+
+export const PROPERTY_TYPES: Record<PropertyType, PropertyTypeOption> = {
+  house: { key: 'house', label: 'Houses', noun: 'house', hasLand: true },
+  unit: { key: 'unit', label: 'Units', noun: 'unit', hasLand: false },
+  all: { key: 'all', label: 'All dwellings', noun: 'dwelling', hasLand: false }
+};
+
+// Order used by the toggle
+export const PROPERTY_TYPE_KEYS: PropertyType[] = ['house', 'unit', 'all'];
+
+export interface PropertyTypeSelection {
+  rows: SuburbData[];
+  // For each selected row, the indexes of the rows its price was drawn from
+  sources: number[][];
+}
+
+const suburbKey = (row: SuburbData): string => `${normaliseSuburbName(row.suburb)}|${row.lga.toLowerCase().trim()}`;
+
+// One row per suburb for the chosen type. All dwellings use the file's own
+// all-dwellings row where there is one; otherwise the suburb's house and
+// unit medians are averaged, which is only an approximation of the median
+// across both, so the sources are kept for the popup to say so.
+export const selectPropertyType = (rows: SuburbData[], type: PropertyType): PropertyTypeSelection => {
+  if (type !== 'all') {
+    const selection: PropertyTypeSelection = { rows: [], sources: [] };
+    rows.forEach((row, index) => {
+      if (row.propertyType !== type) return;
+      selection.rows.push(row);
+      selection.sources.push([index]);
+    });
+    return selection;
+  }
+
+  const groups = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const key = suburbKey(row);
+    groups.set(key, [...(groups.get(key) || []), index]);
+  });
+
+  const selection: PropertyTypeSelection = { rows: [], sources: [] };
+  groups.forEach(indexes => {
+    const published = indexes.find(index => rows[index].propertyType === 'all');
+    if (published !== undefined) {
+      selection.rows.push(rows[published]);
+      selection.sources.push([published]);
+      return;
+    }
+
+    const priced = indexes.filter(index => rows[index].medianPrice !== null);
+    const medianPrice = priced.length > 0
+      ? Math.round(priced.reduce((sum, index) => sum + rows[index].medianPrice!, 0) / priced.length)
+      : null;
+    selection.rows.push({
+      ...rows[indexes[0]],
+      propertyType: 'all',
+      blockSize: null,
+      medianPrice,
+      pricePerSqm: null,
+      storedPricePerSqm: null
+    });
+    selection.sources.push(priced.length > 0 ? priced : indexes);
+  });
+  return selection;
+};
+
+// How an all-dwellings price was arrived at, for the popup. Null for a
+// single type's own median.
+export const describePriceBasis = (type: PropertyType, sourceTypes: PropertyType[]): string | null => {
+  if (type !== 'all' || sourceTypes.length === 0 || sourceTypes.includes('all')) return null;
+  return sourceTypes.length === 1
+    ? `Only ${PROPERTY_TYPES[sourceTypes[0]].label.toLowerCase()} are recorded here, so this is their median`
+    : `Average of the ${sourceTypes.map(source => PROPERTY_TYPES[source].noun).join(' and ')} medians, an estimate of the all-dwellings median`;
+};
@@ -0,0 +1,42 @@
+import { buildRankingRows, filterRankingRows, parseNumericFilter, sortRankingRows } from './rankingTable';
+
+const features = [
+  { properties: { vic_loca_2: 'FITZROY', matched_suburb: 'Fitzroy', lga: 'City Of Yarra', price_sqm: 8000, median_price: 2000000, block_size: 250 } },
+  { properties: { vic_loca_2: 'ALTONA', matched_suburb: 'Altona', lga: 'City Of Hobsons Bay', price_sqm: 3000, median_price: 1200000, block_size: 400 } },
+  { properties: { vic_loca_2: 'BRAYBROOK', matched_suburb: 'Braybrook', lga: 'City Of Maribyrnong', price_sqm: null, median_price: null, block_size: 420 } },
+  { properties: { vic_loca_2: 'NOWHERE' } }
+];
+
+test('builds one row per merged suburb', () => {
+  const rows = buildRankingRows(features);
+
+  expect(rows.map(row => row.suburb)).toEqual(['Fitzroy', 'Altona', 'Braybrook']);
+  expect(rows[0].feature).toBe(features[0]);
+});
+
+test('sorts by column with missing values last in both directions', () => {
+  const rows = buildRankingRows(features);
+
+  expect(sortRankingRows(rows, { column: 'price_sqm', direction: 'asc' }).map(row => row.suburb))
+    .toEqual(['Altona', 'Fitzroy', 'Braybrook']);
+  expect(sortRankingRows(rows, { column: 'price_sqm', direction: 'desc' }).map(row => row.suburb))
+    .toEqual(['Fitzroy', 'Altona', 'Braybrook']);
+  expect(sortRankingRows(rows, { column: 'lga', direction: 'asc' }).map(row => row.lga))
+    .toEqual(['City Of Hobsons Bay', 'City Of Maribyrnong', 'City Of Yarra']);
+});
+
+test('parses numeric column filters', () => {
+  expect(parseNumericFilter('>5000')).toEqual({ min: 5000, max: Infinity });
+  expect(parseNumericFilter('<1.5m')).toEqual({ min: -Infinity, max: 1500000 });
+  expect(parseNumericFilter('$6,000 - 4000')).toEqual({ min: 4000, max: 6000 });
+  expect(parseNumericFilter('abc')).toBeNull();
+});
+
+test('filters rows by text and numeric columns together', () => {
+  const rows = buildRankingRows(features);
+
+  expect(filterRankingRows(rows, { lga: 'city of', price_sqm: '>2500' }).map(row => row.suburb))
+    .toEqual(['Fitzroy', 'Altona']);
+  expect(filterRankingRows(rows, { suburb: 'bray' }).map(row => row.suburb)).toEqual(['Braybrook']);
+  expect(filterRankingRows(rows, { block_size: 'lots' })).toHaveLength(3);
+});
@@ -0,0 +1,117 @@
+import { isDataValue } from './classification';
+import { METRIC_KEYS, MetricKey } from './metrics';
+import { getFeatureSuburbName, normaliseSuburbName } from './suburbMatcher';
+
+// Rows, sorting and per-column filters for the suburb ranking table
+
+export type RankingColumn = 'suburb' | 'lga' | MetricKey;
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface RankingSort {
+  column: RankingColumn;
+  direction: SortDirection;
+}
+
+export interface RankingRow {
+  // The merged feature the row was built from, shared with the map layer
+  feature: any;
+  suburb: string;
+  lga: string;
+  price_sqm: number | null;
+  median_price: number | null;
+  block_size: number | null;
+}
+
+// Filter text typed into each column's header
+export type RankingFilters = Partial<Record<RankingColumn, string>>;
+
+interface NumericFilter {
+  min: number;
+  max: number;
+}
+
+const isMetricColumn = (column: RankingColumn): column is MetricKey =>
+  (METRIC_KEYS as string[]).includes(column);
+
+export const buildRankingRows = (features: { properties: { [key: string]: any } }[]): RankingRow[] =>
+  features
+    .filter(feature => feature.properties.matched_suburb)
+    .map(feature => {
+      const props = feature.properties;
+      return {
+        feature,
+        // The CSV spelling reads better than the upper-case boundary name
+        suburb: props.matched_suburb || getFeatureSuburbName(props),
+        lga: props.lga || '',
+        price_sqm: isDataValue(props.price_sqm) ? props.price_sqm : null,
+        median_price: isDataValue(props.median_price) ? props.median_price : null,
+        block_size: isDataValue(props.block_size) ? props.block_size : null
+      };
+    });
+
+const parseFilterNumber = (text: string): number => {
+  const match = text.trim().toLowerCase().replace(/[$,\s]/g, '').match(/^(\d+(?:\.\d+)?)([km]?)$/);
+  if (!match) return NaN;
+  const multiplier = match[2] === 'm' ? 1000000 : match[2] === 'k' ? 1000 : 1;
+  return parseFloat(match[1]) * multiplier;
+};
+
+// Numeric columns accept "5000", ">5000", "<1.2m" or a range like "4000-6000".
+// Returns null when the text is not a number filter.
+export const parseNumericFilter = (text: string): NumericFilter | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const comparison = trimmed.match(/^([<>]=?)\s*(.+)$/);
+  if (comparison) {
+    const value = parseFilterNumber(comparison[2]);
+    if (isNaN(value)) return null;
+    return comparison[1].startsWith('>') ? { min: value, max: Infinity } : { min: -Infinity, max: value };
+  }
+
+  const range = trimmed.match(/^([^-]+)-([^-]+)$/);
+  if (range) {
+    const min = parseFilterNumber(range[1]);
+    const max = parseFilterNumber(range[2]);
+    if (isNaN(min) || isNaN(max)) return null;
+    return { min: Math.min(min, max), max: Math.max(min, max) };
+  }
+
+  const value = parseFilterNumber(trimmed);
+  return isNaN(value) ? null : { min: value, max: value };
+};
+
+export const filterRankingRows = (rows: RankingRow[], filters: RankingFilters): RankingRow[] => {
+  const active = (Object.keys(filters) as RankingColumn[]).filter(column => (filters[column] || '').trim());
+  if (active.length === 0) return rows;
+
+  return rows.filter(row => active.every(column => {
+    const text = filters[column]!;
+    if (isMetricColumn(column)) {
+      const value = row[column];
+      const range = parseNumericFilter(text);
+      // Unparseable text filters nothing out rather than hiding every row
+      if (!range) return true;
+      return value !== null && value >= range.min && value <= range.max;
+    }
+    return normaliseSuburbName(row[column]).includes(normaliseSuburbName(text));
+  }));
+};
+
+// Rows without a value always sort last, whichever direction is chosen
+export const sortRankingRows = (rows: RankingRow[], sort: RankingSort): RankingRow[] => {
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return rows.slice().sort((a, b) => {
+    const left = a[sort.column];
+    const right = b[sort.column];
+    if (left === null || right === null) {
+      if (left === right) return a.suburb.localeCompare(b.suburb);
+      return left === null ? 1 : -1;
+    }
+    const order = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right));
+    return order * factor || a.suburb.localeCompare(b.suburb);
+  });
+};
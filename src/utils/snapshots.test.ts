@@ -0,0 +1,40 @@
+import { parseSnapshotManifest, quarterLabel } from './snapshots';
+
+const entry = (id: string, extra: object = {}) => ({
+  id,
+  file: `/prices-${id}.csv`,
+  priceSource: 'REIV',
+  lotSizeSource: 'Department of Transport & Planning',
+  ...extra
+});
+
+test('labels quarters by the month they end', () => {
+  expect(quarterLabel('2024-Q4')).toBe('December 2024');
+  expect(quarterLabel('2025-Q1')).toBe('March 2025');
+  expect(quarterLabel('latest')).toBe('latest');
+});
+
+test('orders snapshots by quarter and skips invalid or repeated entries', () => {
+  const { snapshots, invalidCount } = parseSnapshotManifest([
+    entry('2025-Q1', { label: 'Autumn 2025' }),
+    entry('2024-Q4'),
+    entry('2025-Q1'),
+    entry('2025-Q5'),
+    { id: '2025-Q2' }
+  ]);
+
+  expect(snapshots.map(snapshot => snapshot.id)).toEqual(['2024-Q4', '2025-Q1']);
+  expect(snapshots.map(snapshot => snapshot.label)).toEqual(['December 2024', 'Autumn 2025']);
+  expect(invalidCount).toBe(3);
+});
+
+test('keeps the sheet and column mapping of workbook snapshots', () => {
+  const columns = { medianPrice: 'Median', blockSize: 'Lot size' };
+  const { snapshots, invalidCount } = parseSnapshotManifest([
+    entry('2025-Q2', { file: '/prices-2025-Q2.xlsx', sheet: 'Prices', columns }),
+    entry('2025-Q3', { file: '/prices-2025-Q3.xlsx', columns: { price: 'Median' } })
+  ]);
+
+  expect(snapshots).toEqual([expect.objectContaining({ id: '2025-Q2', sheet: 'Prices', columns })]);
+  expect(invalidCount).toBe(1);
+});
@@ -0,0 +1,86 @@
+import { ColumnMapping, WORKBOOK_FIELDS } from './workbookLoader';
+
+// Dated price snapshots, listed in /snapshots.json so a new quarter is added
+// by dropping in its CSV (or workbook) and a manifest entry.
+
+export interface Snapshot {
+  // Quarter the prices were taken in, e.g. "2025-Q1"
+  id: string;
+  // How the date reads in the UI, e.g. "March 2025"
+  label: string;
+  // Path of the price CSV, in the same format as the bundled file, or of an
+  // .xlsx workbook
+  file: string;
+  priceSource: string;
+  lotSizeSource: string;
+  // Workbook sheet to read; the first sheet when left out
+  sheet?: string;
+  // Workbook headers for the CSV fields, where they're named differently
+  columns?: ColumnMapping;
+}
+
+const QUARTER_PATTERN = /^(\d{4})-Q([1-4])$/;
+
+const QUARTER_END_MONTHS = ['March', 'June', 'September', 'December'];
+
+// Used when the manifest is missing, so the app still loads the bundled file
+export const DEFAULT_SNAPSHOTS: Snapshot[] = [
+  {
+    id: '2025-Q1',
+    label: 'March 2025',
+    file: '/V1_Greater_Melbourne_LGAs_with_Corrected_Prices.csv',
+    priceSource: 'REIV',
+    lotSizeSource: 'Department of Transport & Planning'
+  }
+];
+
+// "2025-Q1" -> "March 2025", the month the quarter ends
+export const quarterLabel = (id: string): string => {
+  const match = id.match(QUARTER_PATTERN);
+  if (!match) return id;
+  return `${QUARTER_END_MONTHS[parseInt(match[2], 10) - 1]} ${match[1]}`;
+};
+
+const isColumnMapping = (value: any): boolean =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  Object.keys(value).every(key => WORKBOOK_FIELDS.some(field => field.key === key) && typeof value[key] === 'string');
+
+// A label is optional in the manifest and defaults to the quarter's end month
+export const isSnapshot = (value: any): boolean => {
+  return !!value &&
+    typeof value.id === 'string' &&
+    QUARTER_PATTERN.test(value.id) &&
+    typeof value.file === 'string' &&
+    (value.label === undefined || typeof value.label === 'string') &&
+    typeof value.priceSource === 'string' &&
+    typeof value.lotSizeSource === 'string' &&
+    (value.sheet === undefined || typeof value.sheet === 'string') &&
+    (value.columns === undefined || isColumnMapping(value.columns));
+};
+
+// Valid entries in date order; later duplicates of a quarter are dropped
+export const parseSnapshotManifest = (data: any): { snapshots: Snapshot[]; invalidCount: number } => {
+  const entries: any[] = Array.isArray(data) ? data : [];
+  const seen = new Set<string>();
+  const snapshots: Snapshot[] = [];
+
+  entries.forEach(entry => {
+    if (!isSnapshot(entry) || seen.has(entry.id)) return;
+    seen.add(entry.id);
+    snapshots.push({
+      id: entry.id,
+      label: entry.label || quarterLabel(entry.id),
+      file: entry.file,
+      priceSource: entry.priceSource,
+      lotSizeSource: entry.lotSizeSource,
+      ...(entry.sheet ? { sheet: entry.sheet } : {}),
+      ...(entry.columns ? { columns: entry.columns } : {})
+    });
+  });
+
+  return {
+    // Quarter ids sort chronologically as strings
+    snapshots: snapshots.sort((a, b) => a.id.localeCompare(b.id)),
+    invalidCount: Array.isArray(data) ? entries.length - snapshots.length : 1
+  };
+};
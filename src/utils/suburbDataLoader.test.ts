@@ -0,0 +1,123 @@
+import { parseNumberCell, parseSuburbCsv } from './suburbDataLoader';
+
+const HEADER = 'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm';
+
+test('parses money and area cells', () => {
+  expect(parseNumberCell('$1,170,000')).toEqual({ value: 1170000 });
+  expect(parseNumberCell('420')).toEqual({ value: 420 });
+  expect(parseNumberCell('')).toEqual({ value: null });
+  expect(parseNumberCell('0')).toEqual({ value: null });
+  expect(parseNumberCell('about $1m')).toHaveProperty('error');
+});
+
+test('types rows and treats zero prices as missing', () => {
+  const { rows, issues } = parseSuburbCsv([
+    HEADER,
+    'City Of Melbourne,Carlton,250,"$1,170,000","$4,680"',
+    'City Of Melbourne,Docklands,250,,0'
+  ].join('\n'));
+
+  expect(rows).toEqual([
+    {
+      lga: 'City Of Melbourne',
+      suburb: 'Carlton',
+      propertyType: 'house',
+      blockSize: 250,
+      medianPrice: 1170000,
+      pricePerSqm: 4680,
+      storedPricePerSqm: 4680,
+      rowNumber: 2
+    },
+    {
+      lga: 'City Of Melbourne',
+      suburb: 'Docklands',
+      propertyType: 'house',
+      blockSize: 250,
+      medianPrice: null,
+      pricePerSqm: null,
+      storedPricePerSqm: null,
+      rowNumber: 3
+    }
+  ]);
+  expect(issues).toEqual([
+    expect.objectContaining({ severity: 'warning', rowNumber: 3, column: 'Median Price' })
+  ]);
+});
+
+test('flags stored $/sqm that disagrees with price ÷ block size', () => {
+  const { rows, issues } = parseSuburbCsv([
+    HEADER,
+    'City Of Yarra,Fitzroy,200,"$1,400,000","$6,500"'
+  ].join('\n'));
+
+  expect(rows[0].pricePerSqm).toBe(7000);
+  expect(issues).toHaveLength(1);
+  expect(issues[0]).toMatchObject({ severity: 'warning', column: '$/sqm', suburb: 'Fitzroy' });
+});
+
+test('drops rows with unparseable cells and reports them as errors', () => {
+  const { rows, issues } = parseSuburbCsv([
+    HEADER,
+    'City Of Yarra,Fitzroy,two hundred,"$1,400,000","$7,000"',
+    'City Of Yarra,,200,"$1,400,000","$7,000"'
+  ].join('\n'));
+
+  expect(rows).toHaveLength(0);
+  expect(issues.map(issue => [issue.severity, issue.rowNumber, issue.column])).toEqual([
+    ['error', 2, 'Estimated Block Size (sqm)'],
+    ['error', 3, 'Suburb']
+  ]);
+});
+
+test('numbers rows by their line in the file, past blank lines', () => {
+  const { rows, issues } = parseSuburbCsv([
+    HEADER,
+    'City Of Yarra,Fitzroy,200,"$1,400,000","$7,000"',
+    '',
+    '',
+    'City Of Yarra,Collingwood,two hundred,"$1,000,000","$5,000"',
+    'City Of Yarra,Richmond,200,"$1,200,000","$6,000"',
+    ''
+  ].join('\n'));
+
+  expect(rows.map(row => [row.suburb, row.rowNumber])).toEqual([['Fitzroy', 2], ['Richmond', 6]]);
+  // The blank lines themselves aren't reported
+  expect(issues.map(issue => [issue.severity, issue.rowNumber, issue.column])).toEqual([
+    ['error', 5, 'Estimated Block Size (sqm)']
+  ]);
+});
+
+test('rejects a file whose header does not match the schema', () => {
+  const { rows, issues } = parseSuburbCsv('LGA,Suburb,Price\nCity Of Yarra,Fitzroy,"$1,400,000"');
+
+  expect(rows).toHaveLength(0);
+  expect(issues[0]).toMatchObject({ severity: 'error', rowNumber: null });
+  expect(issues[0].message).toContain('Median Price');
+});
+
+test('reads an optional property type column and prices units per dwelling', () => {
+  const { rows, issues } = parseSuburbCsv([
+    `${HEADER},Property Type`,
+    'City Of Melbourne,Southbank,250,"$1,300,000","$5,200",House',
+    'City Of Melbourne,Southbank,,"$520,000",,Unit/Townhouse',
+    'City Of Melbourne,Docklands,,"$610,000",,Caravan'
+  ].join('\n'));
+
+  expect(rows.map(row => [row.propertyType, row.medianPrice, row.pricePerSqm])).toEqual([
+    ['house', 1300000, 5200],
+    ['unit', 520000, null]
+  ]);
+  // A unit without a block size isn't missing anything
+  expect(issues).toEqual([
+    expect.objectContaining({ severity: 'error', rowNumber: 4, column: 'Property Type' })
+  ]);
+});
+
+test('reads files that mix Windows and Unix line endings', () => {
+  const { rows, issues } = parseSuburbCsv(
+    `${HEADER}\r\nCity Of Maribyrnong,Yarraville,420,"$1,125,500","$2,680"\nCity Of Hobsons Bay,Williamstown,420,"$1,650,000","$3,929"\r\n`
+  );
+
+  expect(rows.map(row => row.suburb)).toEqual(['Yarraville', 'Williamstown']);
+  expect(issues.filter(issue => issue.severity === 'error')).toEqual([]);
+});
@@ -0,0 +1,245 @@
+import Papa from 'papaparse';
+
+// Typed loader for the suburb price CSV. Numbers are parsed once here; a
+// null value means the figure is missing from the source, never zero.
+
+export const CSV_COLUMNS = {
+  lga: 'LGA',
+  suburb: 'Suburb',
+  blockSize: 'Estimated Block Size (sqm)',
+  medianPrice: 'Median Price',
+  pricePerSqm: '$/sqm',
+  // Optional; a file without it is all houses
+  propertyType: 'Property Type'
+} as const;
+
+export type CsvColumn = typeof CSV_COLUMNS[keyof typeof CSV_COLUMNS];
+
+const OPTIONAL_COLUMNS: CsvColumn[] = [CSV_COLUMNS.propertyType];
+
+// 'all' rows are an all-dwellings median published as a figure of its own
+export type PropertyType = 'house' | 'unit' | 'all';
+
+export interface SuburbData {
+  lga: string;
+  suburb: string;
+  propertyType: PropertyType;
+  blockSize: number | null;
+  medianPrice: number | null;
+  // Recomputed from median price ÷ block size where both are present; always
+  // null for units and all dwellings, where the land isn't the buyer's
+  pricePerSqm: number | null;
+  // The $/sqm column as written in the CSV
+  storedPricePerSqm: number | null;
+  // 1-based line in the source file, header included
+  rowNumber: number;
+}
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface DatasetIssue {
+  severity: IssueSeverity;
+  // null for file-level problems such as a bad header
+  rowNumber: number | null;
+  suburb?: string;
+  column?: CsvColumn;
+  message: string;
+}
+
+export interface SuburbDataset {
+  rows: SuburbData[];
+  issues: DatasetIssue[];
+}
+
+// Stored $/sqm values are rounded to the dollar
+const PRICE_PER_SQM_TOLERANCE = 1;
+
+type ParsedNumber = { value: number | null } | { error: string };
+
+// Parse "$1,170,000", "1170000" or "420". Blank cells and zeros are missing:
+// the CSV writes "0" for suburbs with no recorded sale.
+export const parseNumberCell = (raw: string | undefined | null): ParsedNumber => {
+  const cleaned = (raw || '').replace(/[$,\s]/g, '');
+  if (cleaned === '') return { value: null };
+
+  const value = Number(cleaned);
+  if (isNaN(value)) return { error: `"${raw}" is not a number` };
+  if (value < 0) return { error: `"${raw}" is negative` };
+  return { value: value === 0 ? null : value };
+};
+
+const PROPERTY_TYPE_NAMES: Record<PropertyType, string[]> = {
+  house: ['house', 'houses'],
+  unit: ['unit', 'units', 'unit/townhouse', 'units/townhouses', 'townhouse', 'townhouses', 'apartment', 'apartments', 'flat', 'flats'],
+  all: ['all', 'all dwellings', 'dwelling', 'dwellings']
+};
+
+// Blank means house, as in files written before the column existed. Null
+// when the cell names no known type.
+export const parsePropertyType = (raw: string | undefined | null): PropertyType | null => {
+  const name = (raw || '').trim().toLowerCase().replace(/\s+/g, ' ');
+  if (name === '') return 'house';
+  const types = Object.keys(PROPERTY_TYPE_NAMES) as PropertyType[];
+  return types.find(type => PROPERTY_TYPE_NAMES[type].indexOf(name) !== -1) || null;
+};
+
+export const computePricePerSqm = (medianPrice: number | null, blockSize: number | null): number | null => {
+  if (medianPrice === null || blockSize === null) return null;
+  return Math.round(medianPrice / blockSize);
+};
+
+// Recompute derived fields and collect the warnings that go with them. Used
+// for CSV rows and for any record whose figures were changed afterwards.
+export const finaliseSuburbData = (
+  row: Omit<SuburbData, 'pricePerSqm'>
+): { row: SuburbData; issues: DatasetIssue[] } => {
+  const issues: DatasetIssue[] = [];
+  const warn = (column: CsvColumn, message: string) => {
+    issues.push({ severity: 'warning', rowNumber: row.rowNumber, suburb: row.suburb, column, message });
+  };
+
+  const isHouse = row.propertyType === 'house';
+  const computed = isHouse ? computePricePerSqm(row.medianPrice, row.blockSize) : null;
+
+  if (row.medianPrice === null) {
+    warn(CSV_COLUMNS.medianPrice, 'No median price; shown as no data');
+  }
+  if (isHouse && row.blockSize === null) {
+    warn(CSV_COLUMNS.blockSize, 'No block size; $/sqm cannot be calculated');
+  }
+  if (computed !== null && row.storedPricePerSqm === null) {
+    warn(CSV_COLUMNS.pricePerSqm, `$/sqm is blank; using calculated $${computed.toLocaleString()}`);
+  }
+  if (computed !== null && row.storedPricePerSqm !== null &&
+      Math.abs(computed - row.storedPricePerSqm) > PRICE_PER_SQM_TOLERANCE) {
+    warn(
+      CSV_COLUMNS.pricePerSqm,
+      `Stored $/sqm $${row.storedPricePerSqm.toLocaleString()} does not equal price ÷ block size ($${computed.toLocaleString()})`
+    );
+  }
+
+  return { row: { ...row, pricePerSqm: computed }, issues };
+};
+
+// Check the header, then parse each row. Rows with errors are left out of the
+// result; rows with warnings are kept. rowNumbers gives each row's line in
+// the source when rows were skipped; otherwise they follow a header on line 1.
+export const parseSuburbRows = (
+  fields: string[],
+  rawRows: Record<string, string>[],
+  rowNumbers?: number[]
+): SuburbDataset => {
+  const issues: DatasetIssue[] = [];
+  const rows: SuburbData[] = [];
+
+  const missingColumns = Object.values(CSV_COLUMNS)
+    .filter(column => OPTIONAL_COLUMNS.indexOf(column) === -1 && fields.indexOf(column) === -1);
+  if (missingColumns.length > 0) {
+    issues.push({
+      severity: 'error',
+      rowNumber: null,
+      message: `Missing column${missingColumns.length > 1 ? 's' : ''}: ${missingColumns.join(', ')}`
+    });
+    return { rows, issues };
+  }
+
+  const unknownColumns = fields.filter(field => field && Object.values(CSV_COLUMNS).indexOf(field as CsvColumn) === -1);
+  if (unknownColumns.length > 0) {
+    issues.push({ severity: 'warning', rowNumber: null, message: `Ignoring unknown columns: ${unknownColumns.join(', ')}` });
+  }
+
+  rawRows.forEach((raw, index) => {
+    const rowNumber = rowNumbers ? rowNumbers[index] : index + 2;
+    const suburb = (raw[CSV_COLUMNS.suburb] || '').trim();
+    const lga = (raw[CSV_COLUMNS.lga] || '').trim();
+    const rowErrors: DatasetIssue[] = [];
+
+    if (!suburb) {
+      rowErrors.push({ severity: 'error', rowNumber, column: CSV_COLUMNS.suburb, message: 'Suburb name is blank' });
+    }
+    if (!lga) {
+      rowErrors.push({ severity: 'error', rowNumber, suburb, column: CSV_COLUMNS.lga, message: 'LGA is blank' });
+    }
+
+    const numberCell = (column: CsvColumn): number | null => {
+      const parsed = parseNumberCell(raw[column]);
+      if ('error' in parsed) {
+        rowErrors.push({ severity: 'error', rowNumber, suburb, column, message: parsed.error });
+        return null;
+      }
+      return parsed.value;
+    };
+
+    const propertyType = parsePropertyType(raw[CSV_COLUMNS.propertyType]);
+    if (propertyType === null) {
+      rowErrors.push({
+        severity: 'error',
+        rowNumber,
+        suburb,
+        column: CSV_COLUMNS.propertyType,
+        message: `Unknown property type "${raw[CSV_COLUMNS.propertyType]}"; expected House, Unit or All`
+      });
+    }
+
+    const blockSize = numberCell(CSV_COLUMNS.blockSize);
+    const medianPrice = numberCell(CSV_COLUMNS.medianPrice);
+    const storedPricePerSqm = numberCell(CSV_COLUMNS.pricePerSqm);
+
+    if (rowErrors.length > 0 || propertyType === null) {
+      issues.push(...rowErrors);
+      return;
+    }
+
+    const finalised = finaliseSuburbData({ lga, suburb, propertyType, blockSize, medianPrice, storedPricePerSqm, rowNumber });
+    rows.push(finalised.row);
+    issues.push(...finalised.issues);
+  });
+
+  return { rows, issues };
+};
+
+export interface CsvRecords {
+  fields: string[];
+  records: Record<string, string>[];
+  // Each record's line in the file, counting the header as line 1
+  rowNumbers: number[];
+  // Papa's complaints, by line
+  errors: { rowNumber: number | null; message: string }[];
+}
+
+// Papa picks one newline style for the whole file, and the bundled CSV mixes
+// them: a lone \n would otherwise glue two rows together. Blank lines are
+// dropped only after numbering, so records below them keep their line numbers.
+export const readCsvRecords = (csvText: string): CsvRecords => {
+  const results = Papa.parse<Record<string, string>>(csvText.replace(/\r\n?/g, '\n'), { header: true });
+
+  const blank = new Set<number>();
+  const records: Record<string, string>[] = [];
+  const rowNumbers: number[] = [];
+  results.data.forEach((raw, index) => {
+    const values = Object.values(raw);
+    if (values.length === 1 && values[0] === '') {
+      blank.add(index);
+      return;
+    }
+    records.push(raw);
+    rowNumbers.push(index + 2);
+  });
+
+  return {
+    fields: results.meta.fields || [],
+    records,
+    rowNumbers,
+    errors: results.errors
+      .filter(error => typeof error.row !== 'number' || !blank.has(error.row))
+      .map(error => ({ rowNumber: typeof error.row === 'number' ? error.row + 2 : null, message: error.message }))
+  };
+};
+
+export const parseSuburbCsv = (csvText: string): SuburbDataset => {
+  const { fields, records, rowNumbers, errors } = readCsvRecords(csvText);
+  const dataset = parseSuburbRows(fields, records, rowNumbers);
+  const parseErrors: DatasetIssue[] = errors.map(error => ({ severity: 'error', ...error }));
+
+  return { rows: dataset.rows, issues: [...parseErrors, ...dataset.issues] };
+};
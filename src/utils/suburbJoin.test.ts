@@ -0,0 +1,104 @@
+import { parseSuburbCsv } from './suburbDataLoader';
+import { BoundaryCollection, joinSuburbData } from './suburbJoin';
+
+const boundaries: BoundaryCollection = {
+  type: 'FeatureCollection',
+  features: [
+    // Joined already, as in the precomputed files
+    { type: 'Feature', properties: { vic_loca_2: 'Fitzroy', price_sqm: 6000, lga: 'City Of Yarra' }, geometry: null },
+    { type: 'Feature', properties: { vic_loca_2: 'Collingwood', price_sqm: 5000, lga: 'City Of Yarra' }, geometry: null }
+  ]
+};
+
+test('replaces joined figures and clears suburbs missing from the dataset', () => {
+  const dataset = parseSuburbCsv([
+    'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm',
+    'City Of Yarra,Fitzroy,200,"$1,300,000","$6,500"'
+  ].join('\n'));
+  const { collection, report } = joinSuburbData(boundaries, dataset, [], '2024-Q4');
+
+  expect(collection.features[0].properties).toMatchObject({ vic_loca_2: 'Fitzroy', price_sqm: 6500, matched_suburb: 'Fitzroy' });
+  expect(collection.features[1].properties).toEqual({ vic_loca_2: 'Collingwood', quality_status: 'unmatched' });
+  expect(report.unmatchedFeatures).toEqual(['Collingwood']);
+});
+
+test('applies only the overrides for the snapshot', () => {
+  const dataset = parseSuburbCsv([
+    'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm',
+    'City Of Yarra,Fitzroy,200,"$1,300,000","$6,500"',
+    'City Of Yarra,Collingwood,200,"$1,000,000","$5,000"'
+  ].join('\n'));
+  const override = { suburb: 'Fitzroy', snapshot: '2025-Q1', fields: { 'Median Price': '$1,400,000' }, reason: 'check', source: 'REIV' };
+
+  expect(joinSuburbData(boundaries, dataset, [override], '2025-Q1').collection.features[0].properties).toMatchObject({
+    price_sqm: 7000,
+    override_reason: 'check'
+  });
+  expect(joinSuburbData(boundaries, dataset, [override], '2024-Q4').collection.features[0].properties.price_sqm).toBe(6500);
+});
+
+test('records where each block size came from and which model priced it', () => {
+  const dataset = parseSuburbCsv([
+    'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm',
+    'City Of Yarra,Fitzroy,200,"$1,300,000","$6,500"',
+    'City Of Yarra,Collingwood,200,"$1,000,000","$5,000"'
+  ].join('\n'));
+  const lotSizes = [{ suburb: 'Fitzroy', lga: null, lotSize: 130, source: 'Valuer-General 2024', rowNumber: 2 }];
+  const model = { key: 'land-residual' as const, buildingValue: 300000 };
+  const { collection, unusedLotSizes } = joinSuburbData(boundaries, dataset, [], '2024-Q4', { lotSizes, model });
+
+  expect(collection.features[0].properties).toMatchObject({
+    block_size: 130,
+    price_sqm: 7692,
+    lot_size_source: 'suburb',
+    lot_size_reference: 'Valuer-General 2024',
+    valuation_model: 'land-residual',
+    building_value: 300000
+  });
+  expect(collection.features[1].properties).toMatchObject({ block_size: 200, price_sqm: 3500, lot_size_source: 'lga', lot_size_reference: null });
+  expect(unusedLotSizes).toEqual([]);
+});
+
+test('lets a manual correction override a suburb lot size', () => {
+  const dataset = parseSuburbCsv([
+    'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm',
+    'City Of Yarra,Fitzroy,200,"$1,300,000","$6,500"'
+  ].join('\n'));
+  const lotSizes = [{ suburb: 'Fitzroy', lga: null, lotSize: 130, source: 'Valuer-General 2024', rowNumber: 2 }];
+  const override = { suburb: 'Fitzroy', fields: { 'Estimated Block Size (sqm)': '260' }, reason: 'survey', source: 'Council' };
+
+  expect(joinSuburbData(boundaries, dataset, [override], '2024-Q4', { lotSizes }).collection.features[0].properties).toMatchObject({
+    block_size: 260,
+    price_sqm: 5000,
+    lot_size_source: 'override',
+    valuation_model: 'gross',
+    building_value: null
+  });
+});
+
+test('joins one row per suburb for the chosen property type', () => {
+  const dataset = parseSuburbCsv([
+    'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm,Property Type',
+    'City Of Yarra,Fitzroy,200,"$1,300,000","$6,500",House',
+    'City Of Yarra,Fitzroy,,"$700,000",,Unit',
+    'City Of Yarra,Collingwood,,"$600,000",,Unit'
+  ].join('\n'));
+  const override = { suburb: 'Fitzroy', fields: { 'Median Price': '$1,400,000' }, reason: 'check', source: 'REIV' };
+  const units = joinSuburbData(boundaries, dataset, [override], '2024-Q4', { propertyType: 'unit' });
+
+  expect(units.collection.features[0].properties).toMatchObject({
+    property_type: 'unit',
+    median_price: 700000,
+    price_sqm: null,
+    lot_size_source: null,
+    price_sources: ['unit']
+  });
+  expect(units.collection.features[0].properties).not.toHaveProperty('override_reason');
+  expect(units.collection.features[1].properties).toMatchObject({ median_price: 600000 });
+
+  const houses = joinSuburbData(boundaries, dataset, [override], '2024-Q4');
+  expect(houses.collection.features[0].properties).toMatchObject({ property_type: 'house', price_sqm: 7000, override_reason: 'check' });
+  // Collingwood has units only, which isn't a name mismatch
+  expect(houses.collection.features[1].properties).toEqual({ vic_loca_2: 'Collingwood', quality_status: 'type-missing' });
+  expect(houses.report.unmatchedFeatures).toEqual([]);
+});
@@ -0,0 +1,222 @@
+import { getQualityStatus } from './dataQuality';
+import { getModelPricePerSqm, GROSS_MODEL, ValuationModel } from './landValue';
+import { applyLotSizes, LotSizeSource, SuburbLotSize } from './lotSizes';
+import { selectPropertyType } from './propertyTypes';
+import { CSV_COLUMNS, DatasetIssue, PropertyType, SuburbData, SuburbDataset } from './suburbDataLoader';
+import { getFeatureSuburbName, matchSuburbs, MatchReport } from './suburbMatcher';
+import { applyOverrides, OverrideResult, SuburbOverride } from './suburbOverrides';
+
+// Joins a price dataset to suburb boundaries. The browser does this whenever
+// another snapshot loads; the build does it once for the precomputed files.
+
+export interface BoundaryFeature {
+  type: string;
+  id?: string;
+  properties: { [key: string]: any };
+  geometry: any;
+}
+
+export interface BoundaryCollection {
+  type: 'FeatureCollection';
+  features: BoundaryFeature[];
+}
+
+export interface SuburbJoin {
+  // The boundaries, in the same order, with matched suburbs' figures added
+  collection: BoundaryCollection;
+  report: MatchReport<SuburbData>;
+  // Dataset issues after overrides were applied
+  issues: DatasetIssue[];
+  unusedOverrides: SuburbOverride[];
+  unusedLotSizes: SuburbLotSize[];
+}
+
+// What the map reports of a join besides the boundaries. The precomputed
+// files' manifest carries the same for the build's join.
+export interface JoinSummary {
+  rowCount: number;
+  matchedRowCount: number;
+  unmatchedRows: SuburbData[];
+  unmatchedFeatures: string[];
+  issues: DatasetIssue[];
+}
+
+export const summariseJoin = (join: SuburbJoin, dataset: SuburbDataset): JoinSummary => ({
+  rowCount: dataset.rows.length,
+  matchedRowCount: join.report.matchedRowCount,
+  unmatchedRows: join.report.unmatchedRows,
+  unmatchedFeatures: join.report.unmatchedFeatures,
+  issues: join.issues
+});
+
+export interface JoinOptions {
+  // Suburb median lot sizes, used ahead of the CSV's LGA averages
+  lotSizes?: SuburbLotSize[];
+  model?: ValuationModel;
+  // Houses by default
+  propertyType?: PropertyType;
+}
+
+// Properties the join writes. Boundaries may already carry them, from the
+// precomputed files, and a suburb missing from this dataset must lose them.
+export const JOINED_PROPERTIES = [
+  'price_sqm',
+  'median_price',
+  'block_size',
+  'lga',
+  'property_type',
+  'price_sources',
+  'matched_suburb',
+  'match_method',
+  'match_confidence',
+  'overridden_fields',
+  'override_reason',
+  'override_source',
+  'lot_size_source',
+  'lot_size_reference',
+  'valuation_model',
+  'building_value',
+  'quality_status'
+];
+
+const withoutJoinedProperties = (properties: { [key: string]: any }): { [key: string]: any } => {
+  const base = { ...properties };
+  JOINED_PROPERTIES.forEach(key => delete base[key]);
+  return base;
+};
+
+export interface PreparedRows extends OverrideResult {
+  // Keyed by index into rows, like applied overrides
+  lotSizes: Map<number, SuburbLotSize>;
+  unusedLotSizes: SuburbLotSize[];
+  // For each row, the property types its price was drawn from
+  priceSources: PropertyType[][];
+}
+
+// Carry per-row details over to the selected rows, from the first source
+// row that has one
+const selectEntries = <T>(entries: Map<number, T>, sources: number[][]): Map<number, T> => {
+  const selected = new Map<number, T>();
+  sources.forEach((indexes, rowIndex) => {
+    const source = indexes.find(index => entries.has(index));
+    if (source !== undefined) selected.set(rowIndex, entries.get(source)!);
+  });
+  return selected;
+};
+
+// The rows as the map shows them: suburb lot sizes first, then the snapshot's
+// manual corrections, which have the final say, then $/sqm by the model, and
+// finally one row per suburb for the property type
+export const prepareRows = (
+  dataset: SuburbDataset,
+  overrides: SuburbOverride[],
+  snapshotId: string,
+  { lotSizes = [], model = GROSS_MODEL, propertyType = 'house' }: JoinOptions = {}
+): PreparedRows => {
+  const sized = applyLotSizes(dataset, lotSizes);
+  const corrected = applyOverrides(
+    sized,
+    overrides.filter(override => !override.snapshot || override.snapshot === snapshotId)
+  );
+  const priced = model.key === 'gross'
+    ? corrected.rows
+    : corrected.rows.map(row => row.propertyType === 'house'
+      ? { ...row, pricePerSqm: getModelPricePerSqm(row.medianPrice, row.blockSize, model) }
+      : row);
+  const selected = selectPropertyType(priced, propertyType);
+  return {
+    ...corrected,
+    rows: selected.rows,
+    applied: selectEntries(corrected.applied, selected.sources),
+    lotSizes: selectEntries(sized.applied, selected.sources),
+    unusedLotSizes: sized.unused,
+    priceSources: selected.sources.map(indexes => indexes.map(index => priced[index].propertyType))
+  };
+};
+
+const getLotSizeSource = (prepared: PreparedRows, rowIndex: number): LotSizeSource | null => {
+  if (prepared.rows[rowIndex].propertyType !== 'house') return null;
+  const override = prepared.applied.get(rowIndex);
+  if (override && override.fields.includes(CSV_COLUMNS.blockSize)) return 'override';
+  return prepared.lotSizes.has(rowIndex) ? 'suburb' : 'lga';
+};
+
+export const joinSuburbData = (
+  boundaries: BoundaryCollection,
+  dataset: SuburbDataset,
+  overrides: SuburbOverride[],
+  snapshotId: string,
+  options: JoinOptions = {}
+): SuburbJoin => {
+  const model = options.model || GROSS_MODEL;
+  const corrected = prepareRows(dataset, overrides, snapshotId, options);
+
+  const report = matchSuburbs(
+    corrected.rows,
+    suburb => suburb.suburb,
+    boundaries.features.map(feature => getFeatureSuburbName(feature.properties))
+  );
+
+  // A boundary whose suburb only has rows of other property types isn't a
+  // name mismatch, so it is marked apart and left out of the report
+  const unmatchedIndexes = report.matches.reduce<number[]>((list, match, index) => (match ? list : [...list, index]), []);
+  const otherTypes = new Set<number>();
+  const propertyType = options.propertyType || 'house';
+  if (propertyType !== 'all' && unmatchedIndexes.length > 0 && dataset.rows.some(row => row.propertyType !== propertyType)) {
+    const anyType = matchSuburbs(
+      dataset.rows,
+      suburb => suburb.suburb,
+      unmatchedIndexes.map(index => getFeatureSuburbName(boundaries.features[index].properties))
+    );
+    unmatchedIndexes.forEach((featureIndex, index) => {
+      if (anyType.matches[index]) otherTypes.add(featureIndex);
+    });
+  }
+  const otherTypeNames = new Set(Array.from(otherTypes).map(index => getFeatureSuburbName(boundaries.features[index].properties)));
+
+  const collection = {
+    ...boundaries,
+    features: boundaries.features.map((feature, index) => {
+      const match = report.matches[index];
+      if (!match) {
+        const status = otherTypes.has(index) ? 'type-missing' : 'unmatched';
+        return { ...feature, properties: { ...withoutJoinedProperties(feature.properties), quality_status: status } };
+      }
+
+      const matchingSuburb = match.row;
+      const override = corrected.applied.get(match.rowIndex);
+      const lotSizeSource = getLotSizeSource(corrected, match.rowIndex);
+      const lotSize = corrected.lotSizes.get(match.rowIndex);
+      const properties: { [key: string]: any } = {
+        ...withoutJoinedProperties(feature.properties),
+        price_sqm: matchingSuburb.pricePerSqm,
+        median_price: matchingSuburb.medianPrice,
+        block_size: matchingSuburb.blockSize,
+        lga: matchingSuburb.lga,
+        property_type: matchingSuburb.propertyType,
+        price_sources: corrected.priceSources[match.rowIndex],
+        matched_suburb: matchingSuburb.suburb,
+        match_method: match.method,
+        match_confidence: match.confidence,
+        lot_size_source: lotSizeSource,
+        lot_size_reference: lotSizeSource === 'suburb' && lotSize ? lotSize.source : null,
+        valuation_model: model.key,
+        building_value: model.key === 'land-residual' ? model.buildingValue : null,
+        ...(override ? {
+          overridden_fields: override.fields,
+          override_reason: override.reason,
+          override_source: override.source
+        } : {})
+      };
+      return { ...feature, properties: { ...properties, quality_status: getQualityStatus(properties) } };
+    })
+  };
+
+  return {
+    collection,
+    report: { ...report, unmatchedFeatures: report.unmatchedFeatures.filter(name => !otherTypeNames.has(name)) },
+    issues: corrected.issues,
+    unusedOverrides: corrected.unused,
+    unusedLotSizes: corrected.unusedLotSizes
+  };
+};
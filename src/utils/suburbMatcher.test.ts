@@ -0,0 +1,57 @@
+import {
+  createAliasStrategy,
+  createSuburbMatcher,
+  exactStrategy,
+  matchSuburbs,
+  normaliseSuburbName
+} from './suburbMatcher';
+
+const rows = [
+  { LGA: 'City Of Melbourne', Suburb: 'Melbourne' },
+  { LGA: 'City Of Melbourne', Suburb: 'North Melbourne' },
+  { LGA: 'City Of Port Phillip', Suburb: 'St Kilda' },
+  { LGA: 'City Of Glen Eira', Suburb: 'Glen Huntly' },
+  { LGA: 'City Of Stonnington', Suburb: 'Glen Iris' },
+  { LGA: 'City Of Boroondara', Suburb: 'Glen Iris' },
+  { LGA: 'City Of Hobsons Bay', Suburb: 'Williamstown' }
+];
+
+test('normalises case, punctuation and qualifiers but keeps directions', () => {
+  expect(normaliseSuburbName('  NORTH   Melbourne (VIC) ')).toBe('north melbourne');
+  expect(normaliseSuburbName("St. Kilda")).toBe('st kilda');
+  expect(normaliseSuburbName('Merri-Bek')).toBe('merri bek');
+});
+
+test('does not map a directional suburb onto its parent', () => {
+  const match = createSuburbMatcher(rows.map(row => row.Suburb));
+  expect(match('NORTH MELBOURNE')).toEqual({ index: 1, confidence: 0.95, method: 'normalised' });
+  expect(match('SOUTH MELBOURNE')).toBeNull();
+});
+
+test('tries strategies in order and reports the method used', () => {
+  const match = createSuburbMatcher(rows.map(row => row.Suburb));
+  expect(match('Melbourne')).toMatchObject({ index: 0, method: 'exact', confidence: 1 });
+  expect(match('GLENHUNTLY')).toMatchObject({ index: 3, method: 'alias' });
+  expect(match('Wiliamstown')).toMatchObject({ index: 6, method: 'fuzzy' });
+  expect(match('Wiliamstown')!.confidence).toBeLessThan(0.9);
+});
+
+test('accepts a custom strategy list', () => {
+  const match = createSuburbMatcher(rows.map(row => row.Suburb), [
+    exactStrategy,
+    createAliasStrategy({ 'st kilda beach': 'st kilda' })
+  ]);
+  expect(match('St Kilda Beach')).toMatchObject({ index: 2, method: 'alias' });
+  expect(match('Wiliamstown')).toBeNull();
+});
+
+test('reports unmatched rows and features', () => {
+  const report = matchSuburbs(rows, row => row.Suburb, ['MELBOURNE', 'NORTH MELBOURNE', 'GLEN IRIS', 'KEW']);
+
+  expect(report.matches.map(match => match && match.row.Suburb)).toEqual([
+    'Melbourne', 'North Melbourne', 'Glen Iris', null
+  ]);
+  expect(report.unmatchedFeatures).toEqual(['KEW']);
+  expect(report.unmatchedRows.map(row => row.Suburb)).toEqual(['St Kilda', 'Glen Huntly', 'Williamstown']);
+  expect(report.matchedRowCount).toBe(4);
+});
@@ -0,0 +1,244 @@
+// Matches suburb names from the price CSV against boundary feature names.
+// Strategies are tried in order and the first one to return a match wins, so
+// cheap, certain strategies go first and fuzzy matching is the last resort.
+
+export type MatchMethod = 'exact' | 'normalised' | 'alias' | 'fuzzy';
+
+export interface MatcherEntry {
+  name: string;
+  normalised: string;
+  index: number;
+}
+
+export interface MatcherIndex {
+  entries: MatcherEntry[];
+  byExact: Map<string, MatcherEntry>;
+  byNormalised: Map<string, MatcherEntry>;
+}
+
+export interface StrategyResult {
+  index: number;
+  confidence: number;
+}
+
+export interface MatchStrategy {
+  method: MatchMethod;
+  find: (name: string, index: MatcherIndex) => StrategyResult | null;
+}
+
+export interface SuburbMatch<T> {
+  row: T;
+  rowIndex: number;
+  method: MatchMethod;
+  confidence: number;
+}
+
+export interface MatchReport<T> {
+  // One entry per feature, in feature order; null when nothing matched
+  matches: (SuburbMatch<T> | null)[];
+  matchedRowCount: number;
+  unmatchedRows: T[];
+  unmatchedFeatures: string[];
+}
+
+// Boundary names that differ from the CSV spelling for reasons normalisation
+// can't see (renamed localities, historic spellings). Keys and values are
+// normalised names.
+export const DEFAULT_ALIASES: Record<string, string> = {
+  'glenhuntly': 'glen huntly',
+  'saint kilda': 'st kilda',
+  'saint kilda east': 'st kilda east',
+  'saint kilda west': 'st kilda west',
+  'mt waverley': 'mount waverley',
+  'mc kinnon': 'mckinnon',
+  'rippon lea': 'ripponlea'
+};
+
+// Get the suburb name from a boundary feature, whichever property it uses
+export const getFeatureSuburbName = (properties: { [key: string]: any } | null | undefined): string => {
+  if (!properties) return '';
+  return properties.vic_loca_2 || properties.name || properties.VIC_LOCA_2 || '';
+};
+
+// Lower-case, drop a trailing "(vic)"-style qualifier, unify punctuation and
+// collapse whitespace. Directional words are deliberately kept: "North
+// Melbourne" and "Melbourne" are different suburbs.
+export const normaliseSuburbName = (name: string): string => {
+  return name
+    .toLowerCase()
+    .replace(/\s*\([^)]*\)\s*$/, '')
+    .replace(/[’'.]/g, '')
+    .replace(/[-_/]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = new Array(b.length + 1);
+  for (let j = 0; j <= b.length; j++) previous[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+const DIRECTIONAL_WORDS = ['north', 'south', 'east', 'west', 'upper', 'lower'];
+
+// Directional words, in order, e.g. "north" for "north melbourne"
+const directionsOf = (normalised: string): string =>
+  normalised.split(' ').filter(word => DIRECTIONAL_WORDS.indexOf(word) !== -1).join(' ');
+
+// Similarity between 0 (nothing in common) and 1 (identical)
+export const nameSimilarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(a, b) / longest;
+};
+
+export const exactStrategy: MatchStrategy = {
+  method: 'exact',
+  find: (name, index) => {
+    const entry = index.byExact.get(name.trim());
+    return entry ? { index: entry.index, confidence: 1 } : null;
+  }
+};
+
+export const normalisedStrategy: MatchStrategy = {
+  method: 'normalised',
+  find: (name, index) => {
+    const entry = index.byNormalised.get(normaliseSuburbName(name));
+    return entry ? { index: entry.index, confidence: 0.95 } : null;
+  }
+};
+
+export const createAliasStrategy = (aliases: Record<string, string>): MatchStrategy => ({
+  method: 'alias',
+  find: (name, index) => {
+    const target = aliases[normaliseSuburbName(name)];
+    if (!target) return null;
+    const entry = index.byNormalised.get(target);
+    return entry ? { index: entry.index, confidence: 0.9 } : null;
+  }
+});
+
+// Picks the most similar name above the threshold. Names with different
+// directional words are never fuzzy-matched, since "South Melbourne" is one
+// letter-swap away from "North Melbourne". Confidence is scaled down so a
+// fuzzy match never outranks an alias or normalised match.
+export const createFuzzyStrategy = (threshold: number = 0.85): MatchStrategy => ({
+  method: 'fuzzy',
+  find: (name, index) => {
+    const normalised = normaliseSuburbName(name);
+    if (!normalised) return null;
+    const directions = directionsOf(normalised);
+
+    let best: StrategyResult | null = null;
+    let bestSimilarity = threshold;
+
+    for (const entry of index.entries) {
+      // Skip candidates whose length alone rules them out
+      const longest = Math.max(normalised.length, entry.normalised.length);
+      if (Math.abs(normalised.length - entry.normalised.length) > (1 - threshold) * longest) {
+        continue;
+      }
+      if (directionsOf(entry.normalised) !== directions) continue;
+
+      const similarity = nameSimilarity(normalised, entry.normalised);
+      if (!best ? similarity >= bestSimilarity : similarity > bestSimilarity) {
+        bestSimilarity = similarity;
+        best = { index: entry.index, confidence: Math.round(similarity * 0.85 * 100) / 100 };
+      }
+    }
+
+    return best;
+  }
+});
+
+export const DEFAULT_STRATEGIES: MatchStrategy[] = [
+  exactStrategy,
+  normalisedStrategy,
+  createAliasStrategy(DEFAULT_ALIASES),
+  createFuzzyStrategy()
+];
+
+// Index the candidate names. The first occurrence of a name wins, matching
+// the CSV's order when a suburb is listed under more than one LGA.
+export const buildMatcherIndex = (names: string[]): MatcherIndex => {
+  const entries: MatcherEntry[] = [];
+  const byExact = new Map<string, MatcherEntry>();
+  const byNormalised = new Map<string, MatcherEntry>();
+
+  names.forEach((name, index) => {
+    if (!name || !name.trim()) return;
+    const entry = { name: name.trim(), normalised: normaliseSuburbName(name), index };
+    entries.push(entry);
+    if (!byExact.has(entry.name)) byExact.set(entry.name, entry);
+    if (!byNormalised.has(entry.normalised)) byNormalised.set(entry.normalised, entry);
+  });
+
+  return { entries, byExact, byNormalised };
+};
+
+export const createSuburbMatcher = (names: string[], strategies: MatchStrategy[] = DEFAULT_STRATEGIES) => {
+  const index = buildMatcherIndex(names);
+
+  return (name: string): (StrategyResult & { method: MatchMethod }) | null => {
+    if (!name) return null;
+    for (const strategy of strategies) {
+      const result = strategy.find(name, index);
+      if (result) return { ...result, method: strategy.method };
+    }
+    return null;
+  };
+};
+
+// Join CSV rows to feature names and report what was left over on each side
+export const matchSuburbs = <T>(
+  rows: T[],
+  getRowName: (row: T) => string,
+  featureNames: string[],
+  strategies: MatchStrategy[] = DEFAULT_STRATEGIES
+): MatchReport<T> => {
+  const match = createSuburbMatcher(rows.map(getRowName), strategies);
+  const matchedRows = new Set<number>();
+  const unmatchedFeatures: string[] = [];
+
+  const matches = featureNames.map(featureName => {
+    const result = match(featureName);
+    if (!result) {
+      unmatchedFeatures.push(featureName);
+      return null;
+    }
+    matchedRows.add(result.index);
+    return {
+      row: rows[result.index],
+      rowIndex: result.index,
+      method: result.method,
+      confidence: result.confidence
+    };
+  });
+
+  // A suburb listed under a second LGA shares its name with the row that was
+  // matched, so it counts as matched rather than as a missing boundary
+  const matchedNames = new Set<string>();
+  matchedRows.forEach(index => matchedNames.add(normaliseSuburbName(getRowName(rows[index]))));
+  const unmatchedRows = rows.filter(row => !matchedNames.has(normaliseSuburbName(getRowName(row))));
+
+  return {
+    matches,
+    matchedRowCount: rows.length - unmatchedRows.length,
+    unmatchedRows,
+    unmatchedFeatures
+  };
+};
@@ -0,0 +1,73 @@
+import { parseSuburbCsv } from './suburbDataLoader';
+import { applyOverrides, isSuburbOverride, SuburbOverride } from './suburbOverrides';
+
+const dataset = parseSuburbCsv([
+  'LGA,Suburb,Estimated Block Size (sqm),Median Price,$/sqm',
+  'City Of Yarra,Richmond,200,"$1,200,000","$6,000"',
+  'City Of Stonnington,Windsor,300,"$1,500,000","$5,000"',
+  'City Of Port Phillip,Windsor,300,"$1,800,000","$6,000"',
+  'City Of Boroondara,Kew,600,,'
+].join('\n'));
+
+const override = (extra: Partial<SuburbOverride>): SuburbOverride => ({
+  suburb: 'Richmond',
+  fields: {},
+  reason: 'Typo in the source',
+  source: 'REIV',
+  ...extra
+});
+
+test('accepts only overrides with known fields written like CSV cells', () => {
+  expect(isSuburbOverride(override({ fields: { 'Median Price': '$1,300,000' } }))).toBe(true);
+  expect(isSuburbOverride(override({ fields: { 'Median Price': 'a lot' } }))).toBe(false);
+  expect(isSuburbOverride(override({ fields: { Price: '$1' } as any }))).toBe(false);
+  expect(isSuburbOverride(override({ propertyType: 'castle' as any }))).toBe(false);
+  expect(isSuburbOverride({ suburb: 'Richmond', fields: {} })).toBe(false);
+});
+
+test('corrects only the row in the named LGA when a suburb is listed twice', () => {
+  const result = applyOverrides(dataset, [
+    override({ suburb: 'WINDSOR', lga: 'city of port phillip', fields: { 'Median Price': '$2,100,000', '$/sqm': '$7,000' } })
+  ]);
+
+  expect(result.rows[1]).toBe(dataset.rows[1]);
+  expect(result.rows[2]).toMatchObject({ lga: 'City Of Port Phillip', medianPrice: 2100000, pricePerSqm: 7000 });
+  expect(Array.from(result.applied.keys())).toEqual([2]);
+  expect(result.applied.get(2)).toEqual({ fields: ['Median Price', '$/sqm'], reason: 'Typo in the source', source: 'REIV' });
+  // The loaded dataset is left alone
+  expect(dataset.rows[2].medianPrice).toBe(1800000);
+});
+
+test('reports overrides that match no row', () => {
+  const atlantis = override({ suburb: 'Atlantis' });
+  const wrongLga = override({ suburb: 'Windsor', lga: 'City Of Yarra' });
+  const units = override({ propertyType: 'unit' });
+  const result = applyOverrides(dataset, [atlantis, wrongLga, units]);
+
+  expect(result.unused).toEqual([atlantis, wrongLga, units]);
+  expect(result.applied.size).toBe(0);
+});
+
+test('recomputes $/sqm from the corrected figures', () => {
+  const result = applyOverrides(dataset, [override({ fields: { 'Estimated Block Size (sqm)': '240' } })]);
+
+  expect(result.rows[0]).toMatchObject({ blockSize: 240, pricePerSqm: 5000, storedPricePerSqm: 6000 });
+});
+
+test("replaces an overridden row's issues with those of its corrected figures", () => {
+  expect(dataset.issues).toEqual([expect.objectContaining({ rowNumber: 5, column: 'Median Price' })]);
+
+  const result = applyOverrides(dataset, [
+    override({ suburb: 'Kew', fields: { 'Median Price': '$2,400,000' } }),
+    override({ fields: { 'Estimated Block Size (sqm)': '240' } })
+  ]);
+
+  expect(result.rows[3]).toMatchObject({ medianPrice: 2400000, pricePerSqm: 4000 });
+  // Kew's missing price is fixed; Richmond's stored $/sqm no longer agrees
+  expect(result.issues.filter(issue => issue.rowNumber === 5)).toEqual([
+    expect.objectContaining({ column: '$/sqm' })
+  ]);
+  expect(result.issues.filter(issue => issue.rowNumber === 2)).toEqual([
+    expect.objectContaining({ severity: 'warning', column: '$/sqm' })
+  ]);
+});
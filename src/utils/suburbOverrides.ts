@@ -0,0 +1,112 @@
+import { normaliseSuburbName } from './suburbMatcher';
+import {
+  CSV_COLUMNS,
+  DatasetIssue,
+  finaliseSuburbData,
+  parseNumberCell,
+  parsePropertyType,
+  PropertyType,
+  SuburbData,
+  SuburbDataset
+} from './suburbDataLoader';
+
+// Manual corrections to the price CSV, loaded from /suburb-overrides.json so a
+// fix is a data change rather than a code change.
+
+export type OverrideField = 'Median Price' | 'Estimated Block Size (sqm)' | '$/sqm';
+
+export interface SuburbOverride {
+  suburb: string;
+  // Only needed when the suburb is listed under more than one LGA
+  lga?: string;
+  // Snapshot id the correction belongs to; without one it applies to every quarter
+  snapshot?: string;
+  // Row corrected when the CSV has several types for the suburb; houses by default
+  propertyType?: PropertyType;
+  fields: Partial<Record<OverrideField, string>>;
+  reason: string;
+  source: string;
+}
+
+export interface AppliedOverride {
+  fields: OverrideField[];
+  reason: string;
+  source: string;
+}
+
+export interface OverrideResult extends SuburbDataset {
+  // Keyed by index into rows
+  applied: Map<number, AppliedOverride>;
+  unused: SuburbOverride[];
+}
+
+const OVERRIDE_FIELDS: OverrideField[] = ['Median Price', 'Estimated Block Size (sqm)', '$/sqm'];
+
+export const isSuburbOverride = (value: any): value is SuburbOverride => {
+  return !!value &&
+    typeof value.suburb === 'string' &&
+    typeof value.reason === 'string' &&
+    typeof value.source === 'string' &&
+    (value.snapshot === undefined || typeof value.snapshot === 'string') &&
+    (value.propertyType === undefined || (typeof value.propertyType === 'string' && parsePropertyType(value.propertyType) === value.propertyType)) &&
+    !!value.fields &&
+    typeof value.fields === 'object' &&
+    Object.keys(value.fields).every(key =>
+      OVERRIDE_FIELDS.indexOf(key as OverrideField) !== -1 && !('error' in parseNumberCell(value.fields[key]))
+    );
+};
+
+// Override values are written like the CSV cells they replace
+const overrideValue = (override: SuburbOverride, field: OverrideField, fallback: number | null): number | null => {
+  if (!(field in override.fields)) return fallback;
+  const parsed = parseNumberCell(override.fields[field]);
+  return 'error' in parsed ? fallback : parsed.value;
+};
+
+// Return a copy of the dataset with each override's fields written over the
+// matching row and $/sqm recomputed. Warnings for an overridden row are
+// replaced by those for its corrected figures. Overrides that match no row
+// are returned as unused.
+export const applyOverrides = (dataset: SuburbDataset, overrides: SuburbOverride[]): OverrideResult => {
+  const result: SuburbData[] = dataset.rows.slice();
+  const applied = new Map<number, AppliedOverride>();
+  const unused: SuburbOverride[] = [];
+  const overrideIssues: DatasetIssue[] = [];
+
+  overrides.forEach(override => {
+    const suburb = normaliseSuburbName(override.suburb);
+    const lga = override.lga ? override.lga.toLowerCase().trim() : null;
+    const propertyType = override.propertyType || 'house';
+    let used = false;
+
+    result.forEach((row, index) => {
+      if (normaliseSuburbName(row.suburb) !== suburb || row.propertyType !== propertyType) return;
+      if (lga && row.lga.toLowerCase().trim() !== lga) return;
+
+      const finalised = finaliseSuburbData({
+        ...row,
+        blockSize: overrideValue(override, CSV_COLUMNS.blockSize, row.blockSize),
+        medianPrice: overrideValue(override, CSV_COLUMNS.medianPrice, row.medianPrice),
+        storedPricePerSqm: overrideValue(override, CSV_COLUMNS.pricePerSqm, row.storedPricePerSqm)
+      });
+      result[index] = finalised.row;
+      overrideIssues.push(...finalised.issues);
+      applied.set(index, {
+        fields: Object.keys(override.fields) as OverrideField[],
+        reason: override.reason,
+        source: override.source
+      });
+      used = true;
+    });
+
+    if (!used) unused.push(override);
+  });
+
+  const overriddenRows = new Set<number>();
+  applied.forEach((override, index) => overriddenRows.add(result[index].rowNumber));
+  const issues = dataset.issues
+    .filter(issue => issue.rowNumber === null || !overriddenRows.has(issue.rowNumber))
+    .concat(overrideIssues);
+
+  return { rows: result, issues, applied, unused };
+};
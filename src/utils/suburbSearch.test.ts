@@ -0,0 +1,43 @@
+import { buildSearchIndex, searchSuburbs } from './suburbSearch';
+
+const feature = (name: string, lga?: string) => ({
+  properties: lga ? { vic_loca_2: name, matched_suburb: name, lga } : { vic_loca_2: name }
+});
+
+const index = buildSearchIndex([
+  feature('RICHMOND', 'City Of Yarra'),
+  feature('FITZROY', 'City Of Yarra'),
+  feature('FITZROY NORTH', 'City Of Yarra'),
+  feature('NORTH MELBOURNE', 'City Of Melbourne'),
+  feature('RICHMOND'),
+  feature('KEW', 'City Of Boroondara')
+]);
+
+test('ranks prefix matches ahead of word and typo matches', () => {
+  const results = searchSuburbs(index, 'fitz');
+
+  expect(results.map(result => result.label)).toEqual(['Fitzroy', 'Fitzroy North']);
+  expect(results[0].score).toBeGreaterThan(searchSuburbs(index, 'fitzory')[0].score);
+
+  // A later word in the name still counts, below a prefix
+  expect(searchSuburbs(index, 'north').map(result => result.label)).toEqual(['North Melbourne', 'Fitzroy North']);
+});
+
+test('finds misspelled suburbs', () => {
+  expect(searchSuburbs(index, 'richmnd')[0]).toMatchObject({ kind: 'suburb', label: 'Richmond' });
+  expect(searchSuburbs(index, 'zzzz')).toEqual([]);
+});
+
+test('lists a repeated name once, keeping the boundary with price data', () => {
+  const richmond = index.filter(entry => entry.label === 'Richmond');
+
+  expect(richmond).toHaveLength(1);
+  expect(richmond[0].detail).toBe('City Of Yarra');
+});
+
+test('finds councils by their short name', () => {
+  const [yarra] = searchSuburbs(index, 'yarra');
+
+  expect(yarra).toMatchObject({ kind: 'lga', label: 'City Of Yarra', detail: 'Council' });
+  expect(searchSuburbs(index, 'boroondara')[0].label).toBe('City Of Boroondara');
+});
@@ -0,0 +1,102 @@
+import { getFeatureSuburbName, nameSimilarity, normaliseSuburbName } from './suburbMatcher';
+
+// Typo-tolerant autocomplete over suburb and council names
+
+export type SearchResultKind = 'suburb' | 'lga';
+
+export interface SearchEntry {
+  kind: SearchResultKind;
+  label: string;
+  // Shown under the label, e.g. the suburb's council
+  detail: string;
+  // Suburb entries point at their boundary feature
+  feature?: any;
+  terms: string[];
+}
+
+export interface SearchResult extends SearchEntry {
+  score: number;
+}
+
+const MIN_FUZZY_SCORE = 0.7;
+
+const titleCase = (name: string): string =>
+  name.toLowerCase().replace(/(^|[\s-])(\w)/g, (match, separator, letter) => separator + letter.toUpperCase());
+
+export const buildSearchIndex = (features: { properties: { [key: string]: any } }[]): SearchEntry[] => {
+  const entries: SearchEntry[] = [];
+  const seenSuburbs = new Map<string, SearchEntry>();
+  const lgas = new Set<string>();
+
+  features.forEach(feature => {
+    const props = feature.properties;
+    const name = getFeatureSuburbName(props) || props.matched_suburb;
+    if (!name) return;
+
+    const key = normaliseSuburbName(name);
+    const existing = seenSuburbs.get(key);
+    // Prefer a boundary that carries price data when names repeat
+    if (existing && (existing.feature.properties.matched_suburb || !props.matched_suburb)) return;
+
+    const terms = [key];
+    if (props.matched_suburb) terms.push(normaliseSuburbName(props.matched_suburb));
+    const entry: SearchEntry = {
+      kind: 'suburb',
+      label: titleCase(name),
+      detail: props.lga || (props.matched_suburb ? '' : 'No price data'),
+      feature,
+      terms
+    };
+
+    if (existing) {
+      entries[entries.indexOf(existing)] = entry;
+    } else {
+      entries.push(entry);
+    }
+    seenSuburbs.set(key, entry);
+    if (props.lga) lgas.add(props.lga);
+  });
+
+  lgas.forEach(lga => {
+    const normalised = normaliseSuburbName(lga);
+    entries.push({
+      kind: 'lga',
+      label: lga,
+      detail: 'Council',
+      // "City Of Yarra" should also be found by typing "yarra"
+      terms: [normalised, normalised.replace(/^(city|shire) of /, '')]
+    });
+  });
+
+  return entries;
+};
+
+// Score how well a query matches a term: prefixes beat substrings, which beat
+// typo matches against the start of the term
+const scoreTerm = (query: string, term: string): number => {
+  if (term === query) return 1;
+  if (term.startsWith(query)) return 0.95;
+  if (term.split(' ').some(word => word.startsWith(query))) return 0.9;
+  if (term.indexOf(query) !== -1) return 0.8;
+
+  const similarity = Math.max(
+    nameSimilarity(query, term),
+    nameSimilarity(query, term.slice(0, query.length))
+  );
+  return similarity >= MIN_FUZZY_SCORE ? similarity * 0.75 : 0;
+};
+
+export const searchSuburbs = (index: SearchEntry[], query: string, limit: number = 8): SearchResult[] => {
+  const normalised = normaliseSuburbName(query);
+  if (normalised.length < 2) return [];
+
+  const results: SearchResult[] = [];
+  index.forEach(entry => {
+    const score = Math.max(...entry.terms.map(term => scoreTerm(normalised, term)));
+    if (score > 0) results.push({ ...entry, score });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label))
+    .slice(0, limit);
+};
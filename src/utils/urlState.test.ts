@@ -0,0 +1,45 @@
+import { parseUrlState, serialiseUrlState } from './urlState';
+
+test('round-trips a full map view through the query string', () => {
+  const state = {
+    center: [-37.81, 144.96] as [number, number],
+    zoom: 14,
+    suburb: 'FITZROY',
+    metric: 'median_price' as const,
+    filters: { price_sqm: [3000, 6000] as [number, number] },
+    filterMode: 'hide' as const,
+    scheme: 'quantile' as const,
+    classCount: 5
+  };
+
+  const query = serialiseUrlState(state);
+  expect(query).toBe('lat=-37.81000&lng=144.96000&zoom=14&suburb=FITZROY&metric=median_price&scheme=quantile&classes=5&price_sqm=3000-6000&filter=hide');
+  expect(parseUrlState(`?${query}`)).toEqual(state);
+});
+
+test('leaves out default classification and keeps custom manual breaks', () => {
+  expect(serialiseUrlState({ scheme: 'manual', classCount: 8, manualBreaks: [3000, 4000, 5000, 6000, 7000, 8000, 9000] })).toBe('');
+  expect(serialiseUrlState({ scheme: 'manual', manualBreaks: [4000, 8000] })).toBe('breaks=4000%2C8000');
+  expect(parseUrlState('?breaks=8000,4000').manualBreaks).toEqual([4000, 8000]);
+});
+
+test('ignores malformed or out-of-range parameters', () => {
+  expect(parseUrlState('?lat=abc&lng=144&zoom=40&metric=rent&scheme=random&classes=12&price_sqm=6000-3000&breaks=1,x&period=2025-Q7')).toEqual({});
+  expect(parseUrlState('?period=2024-Q4')).toEqual({ period: '2024-Q4' });
+});
+
+test('links the land-only model and a non-default building value', () => {
+  expect(serialiseUrlState({ model: 'gross', buildingValue: 200000 })).toBe('');
+  expect(serialiseUrlState({ model: 'land-residual', buildingValue: 350000 })).toBe('model=land-residual');
+  expect(serialiseUrlState({ model: 'land-residual', buildingValue: 200000 })).toBe('model=land-residual&building=200000');
+  expect(parseUrlState('?model=land-residual&building=200000')).toEqual({ model: 'land-residual', buildingValue: 200000 });
+  expect(parseUrlState('?model=land-residual&building=-5')).toEqual({ model: 'land-residual' });
+  expect(parseUrlState('?building=200000')).toEqual({});
+});
+
+test('links units and all dwellings but leaves houses out', () => {
+  expect(serialiseUrlState({ propertyType: 'house' })).toBe('');
+  expect(serialiseUrlState({ propertyType: 'unit' })).toBe('type=unit');
+  expect(parseUrlState('?type=all')).toEqual({ propertyType: 'all' });
+  expect(parseUrlState('?type=land')).toEqual({});
+});
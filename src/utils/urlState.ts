@@ -0,0 +1,156 @@
+import { CLASSIFICATION_SCHEMES, ClassificationScheme, MAX_CLASSES, MIN_CLASSES } from './classification';
+import { FilterMode, FilterRanges } from './filters';
+import { DEFAULT_BUILDING_VALUE, ValuationModelKey } from './landValue';
+import { METRIC_KEYS, METRICS, MetricKey } from './metrics';
+import { PropertyType } from './suburbDataLoader';
+
+// The map view as a query string, so a copied link reopens the same view.
+// Anything missing or malformed in the URL falls back to the app defaults.
+
+export const DEFAULT_CENTER: [number, number] = [-37.8136, 144.9631]; // Melbourne CBD
+export const DEFAULT_ZOOM = 11;
+
+export interface MapUrlState {
+  center?: [number, number];
+  zoom?: number;
+  // Boundary name of the selected suburb
+  suburb?: string;
+  metric?: MetricKey;
+  filters?: FilterRanges;
+  filterMode?: FilterMode;
+  scheme?: ClassificationScheme;
+  classCount?: number;
+  manualBreaks?: number[];
+  view?: 'suburbs' | 'lga';
+  lga?: string;
+  // Snapshot id, e.g. "2024-Q4"
+  period?: string;
+  model?: ValuationModelKey;
+  buildingValue?: number;
+  propertyType?: PropertyType;
+}
+
+const COORDINATE_DECIMALS = 5;
+
+const parseFiniteNumber = (text: string | null): number | null => {
+  if (text === null || text.trim() === '') return null;
+  const value = Number(text);
+  return isFinite(value) ? value : null;
+};
+
+const parseNumberList = (text: string | null, separator: string): number[] | null => {
+  if (!text) return null;
+  const values = text.split(separator).map(parseFiniteNumber);
+  return values.every(value => value !== null) ? values as number[] : null;
+};
+
+export const parseUrlState = (search: string): MapUrlState => {
+  const params = new URLSearchParams(search);
+  const state: MapUrlState = {};
+
+  const lat = parseFiniteNumber(params.get('lat'));
+  const lng = parseFiniteNumber(params.get('lng'));
+  if (lat !== null && lng !== null && Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+    state.center = [lat, lng];
+  }
+
+  const zoom = parseFiniteNumber(params.get('zoom'));
+  if (zoom !== null && zoom >= 0 && zoom <= 18) state.zoom = zoom;
+
+  const suburb = params.get('suburb');
+  if (suburb) state.suburb = suburb;
+
+  const metric = params.get('metric');
+  if (metric && (METRIC_KEYS as string[]).includes(metric)) state.metric = metric as MetricKey;
+
+  // One parameter per filtered metric, e.g. price_sqm=3000-6000
+  const filters: FilterRanges = {};
+  METRIC_KEYS.forEach(key => {
+    const range = parseNumberList(params.get(key), '-');
+    if (range && range.length === 2 && range[0] <= range[1]) filters[key] = [range[0], range[1]];
+  });
+  if (Object.keys(filters).length > 0) state.filters = filters;
+
+  const filterMode = params.get('filter');
+  if (filterMode === 'dim' || filterMode === 'hide') state.filterMode = filterMode;
+
+  const scheme = params.get('scheme');
+  if (scheme && CLASSIFICATION_SCHEMES.some(option => option.key === scheme)) {
+    state.scheme = scheme as ClassificationScheme;
+  }
+
+  const classCount = parseFiniteNumber(params.get('classes'));
+  if (classCount !== null && Number.isInteger(classCount) && classCount >= MIN_CLASSES && classCount <= MAX_CLASSES) {
+    state.classCount = classCount;
+  }
+
+  const breaks = parseNumberList(params.get('breaks'), ',');
+  if (breaks && breaks.length > 0 && breaks.length < MAX_CLASSES) {
+    state.manualBreaks = breaks.sort((a, b) => a - b);
+  }
+
+  if (params.get('view') === 'lga') state.view = 'lga';
+
+  const lga = params.get('lga');
+  if (lga) state.lga = lga;
+
+  const period = params.get('period');
+  if (period && /^\d{4}-Q[1-4]$/.test(period)) state.period = period;
+
+  const propertyType = params.get('type');
+  if (propertyType === 'unit' || propertyType === 'all') state.propertyType = propertyType;
+
+  if (params.get('model') === 'land-residual') {
+    state.model = 'land-residual';
+    const buildingValue = parseFiniteNumber(params.get('building'));
+    if (buildingValue !== null && buildingValue >= 0) state.buildingValue = buildingValue;
+  }
+
+  return state;
+};
+
+const sameNumbers = (a: number[] | undefined, b: number[]): boolean =>
+  !!a && a.length === b.length && a.every((value, i) => value === b[i]);
+
+// Defaults are left out so links stay short
+export const serialiseUrlState = (state: MapUrlState): string => {
+  const params = new URLSearchParams();
+
+  if (state.period) params.set('period', state.period);
+  if (state.center) {
+    params.set('lat', state.center[0].toFixed(COORDINATE_DECIMALS));
+    params.set('lng', state.center[1].toFixed(COORDINATE_DECIMALS));
+  }
+  if (state.zoom !== undefined) params.set('zoom', String(state.zoom));
+  if (state.view === 'lga') params.set('view', 'lga');
+  if (state.propertyType && state.propertyType !== 'house') params.set('type', state.propertyType);
+  if (state.lga) params.set('lga', state.lga);
+  if (state.suburb) params.set('suburb', state.suburb);
+
+  const metric = state.metric || 'price_sqm';
+  if (state.metric && state.metric !== 'price_sqm') params.set('metric', state.metric);
+
+  if (state.scheme && state.scheme !== 'manual') {
+    params.set('scheme', state.scheme);
+    if (state.classCount !== undefined) params.set('classes', String(state.classCount));
+  } else if (state.manualBreaks && !sameNumbers(state.manualBreaks, METRICS[metric].manualBreaks)) {
+    params.set('breaks', state.manualBreaks.join(','));
+  }
+
+  if (state.filters) {
+    METRIC_KEYS.forEach(key => {
+      const range = state.filters![key];
+      if (range) params.set(key, `${range[0]}-${range[1]}`);
+    });
+    if (state.filterMode === 'hide' && Object.keys(state.filters).length > 0) params.set('filter', 'hide');
+  }
+
+  if (state.model === 'land-residual') {
+    params.set('model', state.model);
+    if (state.buildingValue !== undefined && state.buildingValue !== DEFAULT_BUILDING_VALUE) {
+      params.set('building', String(state.buildingValue));
+    }
+  }
+
+  return params.toString();
+};
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import * as XLSX from 'xlsx';
+import { getSheetHeaders, guessColumnMapping, isWorkbookFile, parseWorkbookSheet, readWorkbook } from './workbookLoader';
+
+const buildWorkbook = (rows: any[][]): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Notes']]), 'Readme');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Prices');
+  return workbook;
+};
+
+test('recognises workbook files', () => {
+  expect(isWorkbookFile('/data/prices.xlsx')).toBe(true);
+  expect(isWorkbookFile('prices.XLS?v=2')).toBe(true);
+  expect(isWorkbookFile('prices.csv')).toBe(false);
+});
+
+test('guesses columns from the CSV names and common aliases', () => {
+  expect(guessColumnMapping(['Council', 'Suburb', 'Land size', 'Median Price', 'Notes'])).toEqual({
+    lga: 'Council',
+    suburb: 'Suburb',
+    blockSize: 'Land size',
+    medianPrice: 'Median Price'
+  });
+});
+
+test('parses a chosen sheet through the CSV validation', () => {
+  const workbook = buildWorkbook([
+    ['Council', 'Name', 'Lot', 'Median'],
+    ['City Of Yarra', 'Fitzroy', 200, 1200000],
+    [],
+    ['City Of Yarra', 'Collingwood', 200, '$1,000,000'],
+    ['City Of Yarra', 'Abbotsford', 0, 900000]
+  ]);
+  const sheet = workbook.Sheets.Prices;
+  sheet.D6 = { t: 'e', v: 7, w: '#DIV/0!' };
+  sheet.A6 = { t: 's', v: 'City Of Yarra' };
+  sheet.B6 = { t: 's', v: 'Richmond' };
+  sheet['!ref'] = 'A1:D6';
+
+  const { rows, issues } = parseWorkbookSheet(workbook, 'Prices', {
+    lga: 'Council',
+    suburb: 'Name',
+    blockSize: 'Lot',
+    medianPrice: 'Median'
+  });
+
+  expect(rows.map(row => [row.suburb, row.pricePerSqm, row.rowNumber])).toEqual([
+    ['Fitzroy', 6000, 2],
+    ['Collingwood', 5000, 4],
+    ['Abbotsford', null, 5]
+  ]);
+  expect(issues).toEqual([
+    { severity: 'warning', rowNumber: 4, suburb: 'Collingwood', column: 'Median Price', message: 'Number stored as text ("$1,000,000")' },
+    { severity: 'error', rowNumber: 6, suburb: 'Richmond', column: 'Median Price', message: 'Formula error #DIV/0!' },
+    { severity: 'warning', rowNumber: 5, suburb: 'Abbotsford', column: 'Estimated Block Size (sqm)', message: 'No block size; $/sqm cannot be calculated' }
+  ]);
+});
+
+test('reports unmapped columns and missing sheets', () => {
+  const workbook = buildWorkbook([['LGA', 'Suburb'], ['City Of Yarra', 'Fitzroy']]);
+
+  expect(parseWorkbookSheet(workbook, 'Prices', guessColumnMapping(getSheetHeaders(workbook, 'Prices'))).issues).toEqual([
+    { severity: 'error', rowNumber: null, message: 'Missing columns: Estimated Block Size (sqm), Median Price' }
+  ]);
+  expect(parseWorkbookSheet(workbook, 'Sheet9', {}).issues[0].message).toBe('No sheet named "Sheet9"');
+});
+
+test('reads the bundled workbook', () => {
+  const file = fs.readFileSync(path.join(__dirname, '../../public/Greater_Melbourne_House_Prices_Matched.xlsx'));
+  const workbook = readWorkbook(new Uint8Array(file));
+  const sheetName = workbook.SheetNames[0];
+  const { rows } = parseWorkbookSheet(workbook, sheetName, guessColumnMapping(getSheetHeaders(workbook, sheetName)));
+
+  expect(rows.length).toBeGreaterThan(200);
+  expect(rows[0]).toMatchObject({ lga: 'City Of Melbourne', blockSize: 250, rowNumber: 2 });
+});
+
+test('reads numbers by value rather than as formatted', () => {
+  const workbook = buildWorkbook([
+    ['LGA', 'Suburb', 'Estimated Block Size (sqm)', 'Median Price'],
+    ['City Of Yarra', 'Fitzroy', 200, 1200000]
+  ]);
+  workbook.Sheets.Prices.C2.w = '200 m²';
+  workbook.Sheets.Prices.D2.w = '$1.2M';
+
+  const { rows, issues } = parseWorkbookSheet(workbook, 'Prices', guessColumnMapping(['LGA', 'Suburb', 'Estimated Block Size (sqm)', 'Median Price']));
+
+  expect(rows[0]).toMatchObject({ blockSize: 200, medianPrice: 1200000, pricePerSqm: 6000 });
+  expect(issues).toEqual([]);
+});
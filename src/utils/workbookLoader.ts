@@ -0,0 +1,156 @@
+import * as XLSX from 'xlsx';
+import { CSV_COLUMNS, CsvColumn, DatasetIssue, parseNumberCell, parseSuburbRows, SuburbDataset } from './suburbDataLoader';
+
+// Reads suburb prices straight from an Excel workbook. Each sheet row is
+// turned into the CSV's column layout and checked by parseSuburbRows, so a
+// workbook reports problems exactly as the CSV does, plus the ones only a
+// spreadsheet can have (formula errors, numbers typed as text).
+
+export type WorkbookField = keyof typeof CSV_COLUMNS;
+
+// Sheet header for each field; a field left out isn't in the sheet
+export type ColumnMapping = Partial<Record<WorkbookField, string>>;
+
+// unmappedLabel says what happens to an optional field the sheet lacks
+export const WORKBOOK_FIELDS: { key: WorkbookField; label: string; required: boolean; unmappedLabel?: string }[] = [
+  { key: 'lga', label: 'LGA', required: true },
+  { key: 'suburb', label: 'Suburb', required: true },
+  { key: 'blockSize', label: 'Block size (sqm)', required: true },
+  { key: 'medianPrice', label: 'Median price', required: true },
+  { key: 'pricePerSqm', label: '$/sqm', required: false, unmappedLabel: 'Not in sheet (calculate)' },
+  { key: 'propertyType', label: 'Property type', required: false, unmappedLabel: 'Not in sheet (all houses)' }
+];
+
+const NUMERIC_FIELDS: WorkbookField[] = ['blockSize', 'medianPrice', 'pricePerSqm'];
+
+// Headers the data team has used for each field, besides the CSV's own
+const HEADER_ALIASES: Record<WorkbookField, string[]> = {
+  lga: ['council', 'local government area', 'municipality'],
+  suburb: ['locality', 'suburb name'],
+  blockSize: ['block size', 'block size (sqm)', 'land size', 'lot size'],
+  medianPrice: ['median', 'median house price'],
+  pricePerSqm: ['price per sqm', '$ per sqm', 'price/sqm'],
+  propertyType: ['type', 'dwelling type']
+};
+
+export const isWorkbookFile = (name: string): boolean => /\.xlsx?$/i.test(name.split('?')[0]);
+
+export const readWorkbook = (data: ArrayBuffer | Uint8Array): XLSX.WorkBook => XLSX.read(data, { type: 'array' });
+
+// Numbers by their value: the displayed text follows the cell's format, which
+// may round the figure or write it in a way the loader can't read back
+const cellText = (cell: XLSX.CellObject | undefined): string => {
+  if (!cell || cell.v === undefined || cell.v === null) return '';
+  if (cell.t === 'n') return String(cell.v);
+  return cell.w !== undefined ? String(cell.w) : String(cell.v);
+};
+
+// Headers of the sheet's first row, in column order
+export const getSheetHeaders = (workbook: XLSX.WorkBook, sheetName: string): string[] => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet || !sheet['!ref']) return [];
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const headers: string[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    headers.push(cellText(sheet[XLSX.utils.encode_cell({ r: range.s.r, c })]).trim());
+  }
+  return headers;
+};
+
+const normaliseHeader = (header: string): string => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Map fields to headers by name, so the usual layouts load without asking
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  WORKBOOK_FIELDS.forEach(({ key }) => {
+    const names = [CSV_COLUMNS[key], ...HEADER_ALIASES[key]].map(normaliseHeader);
+    const header = headers.find(candidate => candidate && names.indexOf(normaliseHeader(candidate)) !== -1);
+    if (header) mapping[key] = header;
+  });
+  return mapping;
+};
+
+export const parseWorkbookSheet = (
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  mapping: ColumnMapping
+): SuburbDataset => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    return { rows: [], issues: [{ severity: 'error', rowNumber: null, message: `No sheet named "${sheetName}"` }] };
+  }
+
+  const headers = getSheetHeaders(workbook, sheetName);
+  const issues: DatasetIssue[] = [];
+  const columnIndexes = new Map<WorkbookField, number>();
+  WORKBOOK_FIELDS.forEach(({ key }) => {
+    const header = mapping[key];
+    if (!header) return;
+    const index = headers.indexOf(header);
+    if (index === -1) {
+      issues.push({ severity: 'error', rowNumber: null, message: `Sheet "${sheetName}" has no column "${header}"` });
+    } else {
+      columnIndexes.set(key, index);
+    }
+  });
+
+  // Fields that aren't mapped are absent from the header, so parseSuburbRows
+  // reports the required ones as missing. An unmapped $/sqm is left blank and
+  // calculated.
+  const fields = WORKBOOK_FIELDS
+    .filter(({ key, required }) => columnIndexes.has(key) || !required)
+    .map(({ key }) => CSV_COLUMNS[key] as string);
+
+  const range = XLSX.utils.decode_range(sheet['!ref'] || 'A1');
+  const rawRows: Record<string, string>[] = [];
+  const rowNumbers: number[] = [];
+
+  for (let r = range.s.r + 1; r <= range.e.r; r++) {
+    // Sheet row numbers, as Excel shows them
+    const rowNumber = r + 1;
+    const raw: Record<string, string> = {};
+    const rowIssues: DatasetIssue[] = [];
+
+    columnIndexes.forEach((index, key) => {
+      const column: CsvColumn = CSV_COLUMNS[key];
+      const cell: XLSX.CellObject | undefined = sheet[XLSX.utils.encode_cell({ r, c: range.s.c + index })];
+      const text = cellText(cell);
+      raw[column] = text;
+      if (!cell) return;
+
+      if (cell.t === 'e') {
+        rowIssues.push({ severity: 'error', rowNumber, column, message: `Formula error ${text || '#N/A'}` });
+      } else if (cell.f && (cell.v === undefined || cell.v === null)) {
+        rowIssues.push({
+          severity: 'warning',
+          rowNumber,
+          column,
+          message: 'Formula has no saved result; open and save the workbook in Excel'
+        });
+      } else if (cell.t === 's' && NUMERIC_FIELDS.indexOf(key) !== -1 && text.trim()) {
+        const parsed = parseNumberCell(text);
+        if (!('error' in parsed) && parsed.value !== null) {
+          rowIssues.push({ severity: 'warning', rowNumber, column, message: `Number stored as text ("${text}")` });
+        }
+      }
+    });
+
+    // Blank rows are skipped, as they are in the CSV
+    if (Object.values(raw).every(value => !value.trim())) continue;
+
+    const suburb = (raw[CSV_COLUMNS.suburb] || '').trim();
+    issues.push(...rowIssues.map(issue => (suburb ? { ...issue, suburb } : issue)));
+    // Like a CSV row with errors, the row is left out
+    if (rowIssues.some(issue => issue.severity === 'error')) continue;
+
+    rawRows.push(raw);
+    rowNumbers.push(rowNumber);
+  }
+
+  const dataset = parseSuburbRows(fields, rawRows, rowNumbers);
+  // A sheet without $/sqm isn't "blank" on every row
+  const rowIssues = columnIndexes.has('pricePerSqm')
+    ? dataset.issues
+    : dataset.issues.filter(issue => issue.column !== CSV_COLUMNS.pricePerSqm);
+  return { rows: dataset.rows, issues: [...issues, ...rowIssues] };
+};
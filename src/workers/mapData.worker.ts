@@ -0,0 +1,22 @@
+import { createMapDataTasks } from '../utils/mapDataTasks';
+import { MapDataRequest, MapDataResponse } from './mapDataMessages';
+
+// Runs the map's parsing, joining and classification off the main thread, so
+// the map stays responsive while a large boundary file is read
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<MapDataRequest>) => void) | null;
+  postMessage: (message: MapDataResponse) => void;
+}
+
+const scope = globalThis as unknown as WorkerScope;
+const tasks = createMapDataTasks();
+
+scope.onmessage = ({ data: { id, task, input } }) => {
+  try {
+    const output = tasks.run(task, input, progress => scope.postMessage({ id, type: 'progress', progress }));
+    scope.postMessage({ id, type: 'result', output });
+  } catch (err) {
+    scope.postMessage({ id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
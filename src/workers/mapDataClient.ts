@@ -0,0 +1,84 @@
+import { createMapDataTasks, MapDataTask, MapDataTasks, ProgressCallback } from '../utils/mapDataTasks';
+import { MapDataRequest, MapDataResponse } from './mapDataMessages';
+
+// Sends map data tasks to the worker and resolves each with its result.
+// Where workers aren't available the same tasks run inline.
+
+export interface MapDataClient {
+  run: <K extends MapDataTask>(
+    task: K,
+    input: MapDataTasks[K]['input'],
+    onProgress?: ProgressCallback
+  ) => Promise<MapDataTasks[K]['output']>;
+  // Called with the error when the worker dies, taking the boundaries it had
+  // parsed with it; they have to be parsed again before the next join.
+  // Returns a function that stops listening.
+  onReset: (listener: (err: Error) => void) => () => void;
+}
+
+interface PendingTask {
+  resolve: (output: any) => void;
+  reject: (err: Error) => void;
+  onProgress: ProgressCallback;
+}
+
+const createInlineClient = (): MapDataClient => {
+  const tasks = createMapDataTasks();
+  return {
+    run: (task, input, onProgress) => new Promise(resolve => resolve(tasks.run(task, input, onProgress))),
+    // Inline tasks live as long as the page
+    onReset: () => () => {}
+  };
+};
+
+const createWorkerClient = (): MapDataClient => {
+  const pending = new Map<number, PendingTask>();
+  let nextId = 1;
+  let worker: Worker | null = null;
+  const resetListeners = new Set<(err: Error) => void>();
+
+  // Started on the first task, so pages that never show the map don't load it
+  const getWorker = (): Worker => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./mapData.worker.ts', import.meta.url));
+    worker.onmessage = ({ data }: MessageEvent<MapDataResponse>) => {
+      const task = pending.get(data.id);
+      if (!task) return;
+      if (data.type === 'progress') {
+        task.onProgress(data.progress);
+        return;
+      }
+      pending.delete(data.id);
+      if (data.type === 'result') task.resolve(data.output);
+      else task.reject(new Error(data.message));
+    };
+    // The worker failed to load or crashed; everything in flight is lost
+    worker.onerror = event => {
+      event.preventDefault();
+      const err = new Error(event.message || 'Map data worker failed');
+      pending.forEach(task => task.reject(err));
+      pending.clear();
+      worker = null;
+      resetListeners.forEach(listener => listener(err));
+    };
+    return worker;
+  };
+
+  return {
+    run: (task, input, onProgress = () => {}) => new Promise((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject, onProgress });
+      const request: MapDataRequest = { id, task, input };
+      getWorker().postMessage(request);
+    }),
+    onReset: listener => {
+      resetListeners.add(listener);
+      return () => {
+        resetListeners.delete(listener);
+      };
+    }
+  };
+};
+
+export const createMapDataClient = (): MapDataClient =>
+  typeof Worker === 'undefined' ? createInlineClient() : createWorkerClient();
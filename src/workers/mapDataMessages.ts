@@ -0,0 +1,15 @@
+import { MapDataProgress, MapDataTask, MapDataTasks } from '../utils/mapDataTasks';
+
+// What the map and its worker send each other. Every request carries an id
+// that its progress, result or error echoes back.
+
+export interface MapDataRequest<K extends MapDataTask = MapDataTask> {
+  id: number;
+  task: K;
+  input: MapDataTasks[K]['input'];
+}
+
+export type MapDataResponse =
+  | { id: number; type: 'progress'; progress: MapDataProgress }
+  | { id: number; type: 'result'; output: any }
+  | { id: number; type: 'error'; message: string };